@@ -0,0 +1,4 @@
+import { handleChat } from '../backend/core/chat.js';
+import { toVercelHandler } from '../backend/core/vercel.js';
+
+export default toVercelHandler(handleChat, { methods: ['POST'] });
@@ -0,0 +1,51 @@
+import { authenticate } from '../backend/lib/auth.js';
+import { generateEmbedding } from '../backend/lib/memories.js';
+import { createLLMClient, getProviderConfigError } from '../backend/lib/llm.js';
+
+export default async function handler(req, res) {
+  // Enable CORS
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+
+  // Handle preflight requests
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  // Every route requires a signed-in Supabase user
+  if (!(await authenticate(req, res))) return;
+
+  // Check that the configured LLM provider is usable
+  const providerError = getProviderConfigError();
+  if (providerError) {
+    console.error('❌ LLM provider not configured:', providerError.details);
+    return res.status(500).json(providerError);
+  }
+
+  try {
+    const { input } = req.body;
+
+    if (!input || typeof input !== 'string') {
+      return res.status(400).json({ 
+        error: 'Invalid request format',
+        details: 'input parameter is required'
+      });
+    }
+
+    const openai = createLLMClient();
+    const embedding = await generateEmbedding(openai, input);
+
+    res.json({ embedding });
+  } catch (error) {
+    console.error('❌ Embeddings API error:', error);
+    res.status(500).json({ 
+      error: 'Failed to generate embedding',
+      details: error.message 
+    });
+  }
+}
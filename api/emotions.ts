@@ -0,0 +1,4 @@
+import { handleEmotions } from '../backend/core/emotions.js';
+import { toVercelHandler } from '../backend/core/vercel.js';
+
+export default toVercelHandler(handleEmotions, { methods: ['POST'] });
@@ -0,0 +1,4 @@
+import { handleHealth } from '../backend/core/health.js';
+import { toVercelHandler } from '../backend/core/vercel.js';
+
+export default toVercelHandler(handleHealth, { methods: ['GET'], auth: false });
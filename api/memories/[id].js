@@ -0,0 +1,52 @@
+import { authenticate } from '../../backend/lib/auth.js';
+import { parseMemoryUpdates, updateMemory } from '../../backend/lib/memories.js';
+import { createLLMClient, getProviderConfigError } from '../../backend/lib/llm.js';
+
+export default async function handler(req, res) {
+  // Enable CORS
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'PATCH, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+
+  // Handle preflight requests
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  if (req.method !== 'PATCH') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  // Every route requires a signed-in Supabase user
+  if (!(await authenticate(req, res))) return;
+
+  // Check that the configured LLM provider is usable
+  const providerError = getProviderConfigError();
+  if (providerError) {
+    console.error('❌ LLM provider not configured:', providerError.details);
+    return res.status(500).json(providerError);
+  }
+
+  try {
+    const updates = parseMemoryUpdates(req.body);
+    if (typeof updates === 'string') {
+      return res.status(400).json({ 
+        error: 'Invalid request format',
+        details: updates
+      });
+    }
+
+    const openai = createLLMClient();
+    const memory = await updateMemory(req.supabase, openai, req.query.id, updates);
+
+    console.log('🧠 Memory updated:', memory.id);
+
+    res.json({ memory });
+  } catch (error) {
+    console.error('❌ Memory update error:', error);
+    res.status(500).json({ 
+      error: 'Failed to update memory',
+      details: error.message 
+    });
+  }
+}
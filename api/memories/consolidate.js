@@ -0,0 +1,55 @@
+import { createServiceClient, getAccessToken } from '../../backend/lib/supabase.js';
+import { authenticate } from '../../backend/lib/auth.js';
+import { consolidateUserMemories, consolidateAllUsers } from '../../backend/lib/consolidation.js';
+
+export default async function handler(req, res) {
+  // Enable CORS
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+
+  // Handle preflight requests
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  try {
+    // Vercel Cron calls GET with the CRON_SECRET as bearer token
+    if (req.method === 'GET') {
+      const cronSecret = process.env.CRON_SECRET;
+      if (!cronSecret || getAccessToken(req) !== cronSecret) {
+        return res.status(401).json({ error: 'Not authorized' });
+      }
+
+      const serviceClient = createServiceClient();
+      if (!serviceClient) {
+        return res.status(500).json({
+          error: 'Supabase service role not configured',
+          details: 'Please set SUPABASE_SERVICE_ROLE_KEY environment variable'
+        });
+      }
+
+      const totals = await consolidateAllUsers(serviceClient);
+      console.log('🧹 Scheduled memory consolidation finished:', totals);
+      return res.json(totals);
+    }
+
+    if (req.method !== 'POST') {
+      return res.status(405).json({ error: 'Method not allowed' });
+    }
+
+    // Every route requires a signed-in Supabase user
+    if (!(await authenticate(req, res))) return;
+
+    const summary = await consolidateUserMemories(req.supabase, req.userId);
+    console.log('🧹 Memory consolidation for', req.userId, summary);
+
+    res.json(summary);
+  } catch (error) {
+    console.error('❌ Memory consolidation error:', error);
+    res.status(500).json({ 
+      error: 'Failed to consolidate memories',
+      details: error.message 
+    });
+  }
+}
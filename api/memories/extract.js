@@ -0,0 +1,61 @@
+import { authenticate } from '../../backend/lib/auth.js';
+import { extractAndStoreMemories } from '../../backend/lib/extraction.js';
+import { createLLMClient, getProviderConfigError } from '../../backend/lib/llm.js';
+
+export default async function handler(req, res) {
+  // Enable CORS
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+
+  // Handle preflight requests
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  // Every route requires a signed-in Supabase user
+  if (!(await authenticate(req, res))) return;
+
+  // Check that the configured LLM provider is usable
+  const providerError = getProviderConfigError();
+  if (providerError) {
+    console.error('❌ LLM provider not configured:', providerError.details);
+    return res.status(500).json(providerError);
+  }
+
+  try {
+    // include_embeddings returns each memory's embedding, for clients that
+    // search their memories locally
+    const { messages, conversation_id = null, emotion_context = null, include_embeddings = false } = req.body;
+
+    if (!messages || !Array.isArray(messages) || messages.length === 0) {
+      return res.status(400).json({ 
+        error: 'Invalid request format',
+        details: 'messages array is required'
+      });
+    }
+
+    const openai = createLLMClient();
+    const memories = await extractAndStoreMemories(req.supabase, openai, {
+      userId: req.userId,
+      conversationId: conversation_id,
+      messages,
+      emotionContext: emotion_context,
+      includeEmbeddings: include_embeddings === true
+    });
+
+    console.log('🧠 Extracted', memories.length, 'memories from conversation', conversation_id);
+
+    res.json({ memories });
+  } catch (error) {
+    console.error('❌ Memory extraction error:', error);
+    res.status(500).json({ 
+      error: 'Failed to extract memories',
+      details: error.message 
+    });
+  }
+}
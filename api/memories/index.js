@@ -0,0 +1,57 @@
+import { authenticate } from '../../backend/lib/auth.js';
+import { insertMemory, parseNewMemory } from '../../backend/lib/memories.js';
+import { createLLMClient, getProviderConfigError } from '../../backend/lib/llm.js';
+
+export default async function handler(req, res) {
+  // Enable CORS
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+
+  // Handle preflight requests
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  // Every route requires a signed-in Supabase user
+  if (!(await authenticate(req, res))) return;
+
+  // Check that the configured LLM provider is usable
+  const providerError = getProviderConfigError();
+  if (providerError) {
+    console.error('❌ LLM provider not configured:', providerError.details);
+    return res.status(500).json(providerError);
+  }
+
+  try {
+    const fields = parseNewMemory(req.body);
+    if (typeof fields === 'string') {
+      return res.status(400).json({ 
+        error: 'Invalid request format',
+        details: fields
+      });
+    }
+
+    const openai = createLLMClient();
+    const memory = await insertMemory(req.supabase, openai, { user_id: req.userId, ...fields }, { skipIfSuppressed: true });
+
+    // The user asked never to remember this
+    if (!memory) {
+      return res.json({ memory: null, suppressed: true });
+    }
+
+    console.log('🧠 Memory stored with embedding:', memory.id);
+
+    res.status(201).json({ memory });
+  } catch (error) {
+    console.error('❌ Memory API error:', error);
+    res.status(500).json({ 
+      error: 'Failed to store memory',
+      details: error.message 
+    });
+  }
+}
@@ -0,0 +1,60 @@
+import { authenticate } from '../../backend/lib/auth.js';
+import { generatePlanSteps } from '../../backend/lib/plans.js';
+import { createLLMClient, getProviderConfigError } from '../../backend/lib/llm.js';
+
+export default async function handler(req, res) {
+  // Enable CORS
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+
+  // Handle preflight requests
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  // Every route requires a signed-in Supabase user
+  if (!(await authenticate(req, res))) return;
+
+  // Check that the configured LLM provider is usable
+  const providerError = getProviderConfigError();
+  if (providerError) {
+    console.error('❌ LLM provider not configured:', providerError.details);
+    return res.status(500).json(providerError);
+  }
+
+  try {
+    const { title, description = '', goals = [] } = req.body;
+
+    if (!title || typeof title !== 'string') {
+      return res.status(400).json({ 
+        error: 'Invalid request format',
+        details: 'title parameter is required'
+      });
+    }
+
+    if (!Array.isArray(goals)) {
+      return res.status(400).json({ 
+        error: 'Invalid request format',
+        details: 'goals must be an array'
+      });
+    }
+
+    const openai = createLLMClient();
+    const steps = await generatePlanSteps(openai, { title, description, goals });
+
+    console.log('📋 Generated', steps.length, 'plan steps for', title);
+
+    res.json({ steps });
+  } catch (error) {
+    console.error('❌ Plan generation error:', error);
+    res.status(500).json({ 
+      error: 'Failed to generate plan',
+      details: error.message 
+    });
+  }
+}
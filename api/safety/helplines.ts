@@ -0,0 +1,4 @@
+import { handleHelplines } from '../../backend/core/safety.js';
+import { toVercelHandler } from '../../backend/core/vercel.js';
+
+export default toVercelHandler(handleHelplines, { methods: ['GET'] });
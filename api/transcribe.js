@@ -0,0 +1,70 @@
+import { toFile } from 'openai';
+import { authenticate } from '../backend/lib/auth.js';
+import { createLLMClient, getModel, getProviderConfigError } from '../backend/lib/llm.js';
+
+// Vercel caps request bodies at 4.5 MB, base64 adds a third on top of the audio
+const MAX_AUDIO_BYTES = 3 * 1024 * 1024;
+
+export default async function handler(req, res) {
+  // Enable CORS
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+
+  // Handle preflight requests
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  // Every route requires a signed-in Supabase user
+  if (!(await authenticate(req, res))) return;
+
+  // Check that the configured LLM provider is usable
+  const providerError = getProviderConfigError();
+  if (providerError) {
+    console.error('❌ LLM provider not configured:', providerError.details);
+    return res.status(500).json(providerError);
+  }
+
+  try {
+    const { audio, format = 'webm', language = 'en' } = req.body;
+
+    if (!audio || typeof audio !== 'string') {
+      return res.status(400).json({ 
+        error: 'Invalid request format',
+        details: 'audio parameter (base64) is required'
+      });
+    }
+
+    const buffer = Buffer.from(audio, 'base64');
+    if (buffer.length > MAX_AUDIO_BYTES) {
+      return res.status(413).json({
+        error: 'Audio too long',
+        details: 'Recordings must be under 3 MB'
+      });
+    }
+
+    console.log('🎙️ Processing transcription request:', { size: buffer.length, format, language });
+
+    const openai = createLLMClient();
+    const transcription = await openai.audio.transcriptions.create({
+      file: await toFile(buffer, `audio.${format}`),
+      model: getModel('transcription'),
+      language
+    });
+
+    console.log('✅ Transcription complete:', transcription.text.substring(0, 50));
+
+    res.json({ text: transcription.text });
+  } catch (error) {
+    console.error('❌ Transcription API error:', error);
+    res.status(500).json({ 
+      error: 'Failed to transcribe audio',
+      details: error.message 
+    });
+  }
+}
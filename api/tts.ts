@@ -0,0 +1,4 @@
+import { handleTts } from '../backend/core/tts.js';
+import { toVercelHandler } from '../backend/core/vercel.js';
+
+export default toVercelHandler(handleTts, { methods: ['POST'] });
@@ -0,0 +1,32 @@
+import { authenticate } from '../backend/lib/auth.js';
+import { getUsageSummary } from '../backend/lib/usage.js';
+
+export default async function handler(req, res) {
+  // Enable CORS
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+
+  // Handle preflight requests
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  // Every route requires a signed-in Supabase user
+  if (!(await authenticate(req, res))) return;
+
+  try {
+    const usage = await getUsageSummary(req.supabase);
+    res.json(usage);
+  } catch (error) {
+    console.error('❌ Usage API error:', error);
+    res.status(500).json({ 
+      error: 'Failed to load usage',
+      details: error.message 
+    });
+  }
+}
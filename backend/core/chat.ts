@@ -0,0 +1,333 @@
+import type OpenAI from 'openai';
+import { enforceUsageLimits, recordUsageTokens } from '../lib/usage';
+import { createLLMClient, getModel, getProviderConfigError, getProviderName } from '../lib/llm';
+import { buildCrisisReply, classifyRisk, findHelplines } from '../lib/safety';
+import { describeProviderError } from './errors';
+import { estimateTokens } from './context';
+import { assemblePrompt, ConversationNotFoundError, PROMPT_VERSION } from './prompt';
+import { getChatTools, runToolCall, toToolMessage, type ToolContext } from './tools';
+import type { ApiRequest, ApiResponse, ChatRequestBody, ChatResponseBody, ChatStreamEvent, ToolResult } from './types';
+
+type CompletionOptions = OpenAI.Chat.ChatCompletionCreateParamsNonStreaming;
+type ToolCall = OpenAI.Chat.ChatCompletionMessageToolCall;
+
+const REPLY_MAX_TOKENS = 300;
+// Completions that may call tools before the model has to answer in text
+const MAX_TOOL_ROUNDS = 3;
+// Reported as the model of fixed crisis replies, which no model generates
+const CRISIS_REPLY_MODEL = 'crisis-protocol';
+type Usage = OpenAI.CompletionUsage | null;
+
+// Chat turn for a signed-in user: usage limits, the server-built prompt and
+// either a JSON reply or a Server-Sent Events stream
+export async function handleChat(req: ApiRequest<ChatRequestBody>, res: ApiResponse) {
+  // Check that the configured LLM provider is usable
+  const providerError = getProviderConfigError();
+  if (providerError) {
+    console.error('❌ LLM provider not configured:', providerError.details);
+    return res.status(500).json(providerError);
+  }
+
+  console.log('🤖 LLM provider:', getProviderName());
+
+  try {
+    // LLM_PROVIDER=mock returns a stand-in covering the calls made here
+    const openai = createLLMClient() as OpenAI;
+
+    const { message, conversationId = null, stream = false, locale = null } = req.body || {} as ChatRequestBody;
+
+    if (!message || typeof message !== 'string' || !message.trim()) {
+      return res.status(400).json({ 
+        error: 'Invalid request format',
+        details: 'message parameter is required'
+      });
+    }
+
+    if (conversationId !== null && typeof conversationId !== 'string') {
+      return res.status(400).json({
+        error: 'Invalid request format',
+        details: 'conversationId must be a string'
+      });
+    }
+
+    // Every turn is classified before generation; crisis turns never reach
+    // the chat model. This runs before usage limits are checked, so nobody in
+    // crisis is turned away by a quota.
+    const risk = await classifyRisk(openai, message);
+    if (risk.level === 'crisis') {
+      return sendCrisisReply(req, res, { stream, locale, source: risk.source });
+    }
+
+    // Per-user requests-per-minute and monthly token limits
+    if (!(await enforceUsageLimits(req, res, 'chat'))) return;
+
+    const { supabase } = req;
+
+    // The prompt is composed here from the persona, the user's memories,
+    // goals and stored history; clients only send their message
+    const model = getModel('chat');
+    const { messages, promptVersion } = await assemblePrompt(supabase, openai, {
+      message,
+      conversationId,
+      model,
+      replyTokens: REPLY_MAX_TOKENS,
+      distressHelplines: risk.level === 'elevated' ? await findHelplines(supabase, req.userId, locale) : null
+    });
+
+    console.log('📝 Processing chat request with', messages.length, 'messages, prompt', promptVersion);
+
+    const completionOptions: CompletionOptions = {
+      model,
+      messages: [...messages],
+      temperature: 0.8,
+      max_tokens: REPLY_MAX_TOKENS,
+      presence_penalty: 0.05,
+      frequency_penalty: 0.05,
+    };
+
+    const toolContext: ToolContext = { supabase, openai, userId: req.userId, conversationId, sources: [] };
+
+    if (stream) {
+      return streamCompletion(openai, completionOptions, promptVersion, toolContext, res, usage =>
+        recordUsageTokens(supabase, req.usageEventId, usage?.total_tokens)
+      );
+    }
+
+    const toolResults: ToolResult[] = [];
+    let tokens = 0;
+    let completion: OpenAI.Chat.ChatCompletion;
+
+    try {
+      for (let round = 0; ; round++) {
+        completion = await openai.chat.completions.create(withTools(completionOptions, round));
+        tokens += completion.usage?.total_tokens ?? 0;
+
+        const reply = completion.choices[0].message;
+        if (!reply.tool_calls?.length) break;
+
+        completionOptions.messages.push(reply);
+        toolResults.push(...await runTools(reply.tool_calls, toolContext, completionOptions));
+      }
+    } finally {
+      // Rounds that completed are paid for even when a later one fails
+      await recordUsageTokens(supabase, req.usageEventId, tokens);
+    }
+
+    console.log('✅ Chat response generated successfully');
+
+    const body: ChatResponseBody = {
+      response: completion.choices[0].message.content,
+      tokens,
+      model: completion.model,
+      promptVersion,
+      toolResults
+    };
+    res.json(body);
+  } catch (error) {
+    console.error('❌ Chat API error:', error);
+
+    if (error instanceof ConversationNotFoundError) {
+      return res.status(404).json({
+        error: 'Conversation not found',
+        details: error.message
+      });
+    }
+
+    const { status, body } = describeProviderError(error, 'Failed to generate response');
+    res.status(status).json(body);
+  }
+}
+
+// Tools are offered until MAX_TOOL_ROUNDS, after which the model must reply
+function withTools(completionOptions: CompletionOptions, round: number): CompletionOptions {
+  return round < MAX_TOOL_ROUNDS ? { ...completionOptions, tools: getChatTools() } : completionOptions;
+}
+
+// Runs the calls one at a time (a step can't be completed before its plan
+// exists) and appends their results for the next completion
+async function runTools(toolCalls: ToolCall[], context: ToolContext, completionOptions: CompletionOptions) {
+  const results: ToolResult[] = [];
+  for (const call of toolCalls) {
+    const result = await runToolCall(call, context);
+    completionOptions.messages.push(toToolMessage(result));
+    results.push(result);
+  }
+  return results;
+}
+
+// Usage of a streamed round cut short before the API reported it: the prompt
+// it was sent plus the output streamed so far, estimated like the context budget
+function estimateRoundUsage(messages: CompletionOptions['messages'], output: string): OpenAI.CompletionUsage {
+  const prompt_tokens = estimateTokens(messages.map(m => ({
+    content: typeof m.content === 'string' ? m.content : JSON.stringify(m)
+  })));
+  const completion_tokens = Math.ceil(output.length / 4);
+  return { prompt_tokens, completion_tokens, total_tokens: prompt_tokens + completion_tokens };
+}
+
+function addUsage(total: Usage, usage: OpenAI.CompletionUsage): OpenAI.CompletionUsage {
+  if (!total) return usage;
+  return {
+    prompt_tokens: total.prompt_tokens + usage.prompt_tokens,
+    completion_tokens: total.completion_tokens + usage.completion_tokens,
+    total_tokens: total.total_tokens + usage.total_tokens
+  };
+}
+
+// The fixed crisis reply with helplines for the user's country, in the same
+// shape as a normal reply plus `crisis` (a `crisis` event when streaming)
+async function sendCrisisReply(
+  req: ApiRequest<ChatRequestBody>,
+  res: ApiResponse,
+  { stream, locale, source }: { stream: boolean; locale: string | null; source: string }
+) {
+  const crisis = await findHelplines(req.supabase, req.userId, locale);
+  const response = buildCrisisReply(crisis);
+  console.log('🆘 Crisis reply sent, detected by', source, 'with helplines for', crisis.countryName);
+
+  if (!stream) {
+    const body: ChatResponseBody = {
+      response,
+      tokens: 0,
+      model: CRISIS_REPLY_MODEL,
+      promptVersion: PROMPT_VERSION,
+      toolResults: [],
+      crisis
+    };
+    return res.json(body);
+  }
+
+  startEventStream(res);
+  sendEvent(res, { event: 'crisis', data: crisis });
+  sendEvent(res, { event: 'delta', data: { content: response } });
+  sendEvent(res, {
+    event: 'done',
+    data: { response, tokens: 0, model: CRISIS_REPLY_MODEL, finishReason: 'crisis', promptVersion: PROMPT_VERSION }
+  });
+  res.end();
+}
+
+function startEventStream(res: ApiResponse) {
+  res.setHeader('Content-Type', 'text/event-stream');
+  res.setHeader('Cache-Control', 'no-cache, no-transform');
+  res.setHeader('Connection', 'keep-alive');
+  res.setHeader('X-Accel-Buffering', 'no');
+  res.flushHeaders?.();
+}
+
+// Server-Sent Events helper: one JSON payload per named event
+function sendEvent(res: ApiResponse, { event, data }: ChatStreamEvent) {
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+// onUsage receives the usage of every round, summed, before the done event
+// is sent. A stream stopped by the client or by a provider error still
+// reports what it used, estimating the round that was cut short.
+async function streamCompletion(
+  openai: OpenAI,
+  completionOptions: CompletionOptions,
+  promptVersion: string,
+  toolContext: ToolContext,
+  res: ApiResponse,
+  onUsage?: (usage: Usage) => Promise<unknown>
+) {
+  startEventStream(res);
+
+  // Stop generating (and paying for) tokens once the client goes away
+  const controller = new AbortController();
+  res.on('close', () => controller.abort());
+
+  let content = '';
+  let usage: Usage = null;
+  let model = completionOptions.model;
+  let finishReason: string | null = null;
+  // The round being streamed, until the API reports its usage
+  let unreported: { messages: CompletionOptions['messages']; output: string } | null = null;
+
+  try {
+    for (let round = 0; ; round++) {
+      const stream = await openai.chat.completions.create({
+        ...withTools(completionOptions, round),
+        stream: true,
+        stream_options: { include_usage: true }
+      }, { signal: controller.signal });
+
+      let roundContent = '';
+      const toolCalls: ToolCall[] = [];
+      finishReason = null;
+      unreported = { messages: [...completionOptions.messages], output: '' };
+
+      for await (const chunk of stream) {
+        model = chunk.model || model;
+        if (chunk.usage) {
+          usage = addUsage(usage, chunk.usage);
+          unreported = null;
+        }
+
+        const choice = chunk.choices[0];
+        if (!choice) continue;
+
+        if (choice.finish_reason) finishReason = choice.finish_reason;
+        const delta = choice.delta?.content;
+        if (delta) {
+          roundContent += delta;
+          content += delta;
+          if (unreported) unreported.output += delta;
+          sendEvent(res, { event: 'delta', data: { content: delta } });
+        }
+
+        // Tool calls arrive in fragments keyed by index: the id and name
+        // first, then the JSON arguments a few characters at a time
+        for (const fragment of choice.delta?.tool_calls || []) {
+          const call = toolCalls[fragment.index] ||= { id: '', type: 'function', function: { name: '', arguments: '' } };
+          if (fragment.id) call.id = fragment.id;
+          if (fragment.function?.name) call.function.name += fragment.function.name;
+          if (fragment.function?.arguments) {
+            call.function.arguments += fragment.function.arguments;
+            if (unreported) unreported.output += fragment.function.arguments;
+          }
+        }
+      }
+
+      // The SDK ends the stream quietly when it is aborted
+      controller.signal.throwIfAborted();
+
+      if (finishReason !== 'tool_calls' || toolCalls.length === 0) break;
+
+      completionOptions.messages.push({ role: 'assistant', content: roundContent || null, tool_calls: toolCalls });
+      for (const result of await runTools(toolCalls, toolContext, completionOptions)) {
+        sendEvent(res, { event: 'tool', data: result });
+      }
+    }
+
+    console.log('✅ Chat response streamed successfully');
+
+    await onUsage?.(usage);
+
+    sendEvent(res, {
+      event: 'done',
+      data: {
+        response: content,
+        tokens: usage?.total_tokens ?? null,
+        model,
+        finishReason,
+        promptVersion
+      }
+    });
+  } catch (error) {
+    // Whatever was generated before the stream stopped still counts
+    await onUsage?.(unreported ? addUsage(usage, estimateRoundUsage(unreported.messages, unreported.output)) : usage);
+
+    if (controller.signal.aborted) {
+      console.log('⏹️ Chat stream aborted by client after', content.length, 'characters');
+      return;
+    }
+
+    console.error('❌ Chat stream error:', error);
+
+    const { status, body } = describeProviderError(error, 'Failed to generate response');
+    sendEvent(res, { event: 'error', data: { status, ...body } });
+  } finally {
+    res.end();
+  }
+}
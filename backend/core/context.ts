@@ -0,0 +1,121 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type OpenAI from 'openai';
+import { getModel } from '../lib/llm';
+import type { ChatMessage } from './types';
+
+// Room kept for the rolling summary, which the summarizer is told to keep short
+const SUMMARY_MAX_TOKENS = 400;
+
+// Each message costs a few tokens for its role and separators
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+const SUMMARY_PROMPT = `You maintain the running summary of a conversation between a user and Zoxaa, their AI companion. Merge the existing summary with the new messages into one updated summary.
+
+Keep:
+- Facts the user shared about themselves and the people in their life
+- Decisions, plans, commitments and open questions
+- How the user was feeling and what helped
+
+Drop small talk and anything already covered. Write in the third person about "the user", in under 250 words.`;
+
+export interface StoredMessage {
+  role: 'user' | 'assistant';
+  content: string;
+  timestamp?: string;
+}
+
+export interface StoredConversation {
+  id: string;
+  compressed_data: { messages?: StoredMessage[] } | null;
+  rolling_summary: string | null;
+  summarized_message_count: number | null;
+}
+
+export interface PackedHistory {
+  summary: string | null;
+  history: ChatMessage[];
+}
+
+// About four characters per token for English text; close enough for
+// budgeting without shipping a tokenizer
+export function estimateTokens(messages: Pick<ChatMessage, 'content'>[]) {
+  return messages.reduce((total, m) => total + Math.ceil(m.content.length / 4) + MESSAGE_OVERHEAD_TOKENS, 0);
+}
+
+// Index of the oldest message, no earlier than `floor`, from which the rest of
+// the conversation fits in `budget` tokens
+function fitFrom(messages: StoredMessage[], floor: number, budget: number) {
+  let start = messages.length;
+  let used = 0;
+  while (start > floor) {
+    const cost = estimateTokens([messages[start - 1]]);
+    if (used + cost > budget) break;
+    used += cost;
+    start -= 1;
+  }
+  return start;
+}
+
+function toChatMessages(messages: StoredMessage[]): ChatMessage[] {
+  return messages.map(({ role, content }) => ({ role, content }));
+}
+
+async function summarize(openai: OpenAI, previousSummary: string | null, messages: StoredMessage[]) {
+  const transcript = messages
+    .map(m => `${m.role === 'user' ? 'User' : 'Zoxaa'}: ${m.content}`)
+    .join('\n');
+
+  const completion = await openai.chat.completions.create({
+    model: getModel('summary'),
+    temperature: 0.3,
+    max_tokens: SUMMARY_MAX_TOKENS,
+    messages: [
+      { role: 'system', content: SUMMARY_PROMPT },
+      { role: 'user', content: `Existing summary:\n${previousSummary || '(none yet)'}\n\nNew messages:\n${transcript}` }
+    ]
+  });
+
+  return completion.choices[0].message.content?.trim() || previousSummary;
+}
+
+// Fits a stored conversation into `budget` tokens. Recent turns stay verbatim;
+// once older turns stop fitting, they are folded into the rolling summary in
+// conversations.rolling_summary. Folding keeps only half the budget verbatim so the
+// next few turns fit without summarizing again.
+export async function packHistory(
+  supabase: SupabaseClient,
+  openai: OpenAI,
+  conversation: StoredConversation | null,
+  budget: number
+): Promise<PackedHistory> {
+  if (!conversation) return { summary: null, history: [] };
+
+  const messages = conversation.compressed_data?.messages || [];
+  const summarizedCount = Math.min(conversation.summarized_message_count || 0, messages.length);
+  // A summary is only used while it covers messages that are still stored
+  const summary = summarizedCount > 0 ? conversation.rolling_summary : null;
+  const historyBudget = Math.max(budget - SUMMARY_MAX_TOKENS, 0);
+
+  const start = fitFrom(messages, summarizedCount, historyBudget);
+  if (start === summarizedCount) {
+    return { summary, history: toChatMessages(messages.slice(start)) };
+  }
+
+  const foldTo = fitFrom(messages, summarizedCount, Math.floor(historyBudget / 2));
+  try {
+    const nextSummary = await summarize(openai, summary, messages.slice(summarizedCount, foldTo));
+
+    const { error } = await supabase
+      .from('conversations')
+      .update({ rolling_summary: nextSummary, summarized_message_count: foldTo })
+      .eq('id', conversation.id);
+    if (error) throw error;
+
+    console.log('🗜️ Folded', foldTo - summarizedCount, 'messages into the summary of conversation', conversation.id);
+    return { summary: nextSummary, history: toChatMessages(messages.slice(foldTo)) };
+  } catch (error) {
+    // The reply still goes out, just without the turns that did not fit
+    console.error('⚠️ Conversation summary failed, dropping older turns:', error.message);
+    return { summary, history: toChatMessages(messages.slice(start)) };
+  }
+}
@@ -0,0 +1,105 @@
+import type { DeliveryStyle } from './types';
+
+interface DeliveryProfile {
+  voice: string;
+  speed: number;
+  // Pitch from the start to the end of a clip, as playback rate multipliers
+  pitch: number[];
+  instructions: string;
+}
+
+const DELIVERY_PROFILES: Record<DeliveryStyle, DeliveryProfile> = {
+  neutral: {
+    voice: 'alloy',
+    speed: 1,
+    pitch: [1, 1],
+    instructions: 'Speak in a warm, natural, conversational tone.'
+  },
+  happy: {
+    voice: 'nova',
+    speed: 1.05,
+    pitch: [1.03, 1.06, 1.03],
+    instructions: 'Sound warm and upbeat, as if smiling while you speak.'
+  },
+  excited: {
+    voice: 'nova',
+    speed: 1.12,
+    pitch: [1.05, 1.09, 1.06],
+    instructions: 'Sound energetic and enthusiastic, with lively, rising intonation.'
+  },
+  calm: {
+    voice: 'shimmer',
+    speed: 0.9,
+    pitch: [0.98, 0.96, 0.94],
+    instructions: 'Speak slowly and softly in a calm, steady, reassuring voice, with gentle pauses between sentences.'
+  },
+  concerned: {
+    voice: 'shimmer',
+    speed: 0.93,
+    pitch: [0.97, 0.96],
+    instructions: 'Speak gently and with empathy, soft and unhurried, like a caring friend who is listening closely.'
+  }
+};
+
+// The style Zoxaa answers each user emotion with. Distress is met with calm
+// or gentle concern rather than mirrored.
+const STYLE_FOR_EMOTION: Record<string, DeliveryStyle> = {
+  neutral: 'neutral',
+  happy: 'happy',
+  excited: 'excited',
+  hopeful: 'happy',
+  calm: 'calm',
+  sad: 'concerned',
+  anxious: 'calm',
+  angry: 'calm',
+  concerned: 'concerned'
+};
+
+// Only the GPT-4o speech models can be steered with instructions
+const supportsInstructions = (model: string) => /^gpt-4o.*tts/.test(model);
+
+const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max);
+const round = (value: number) => Math.round(value * 1000) / 1000;
+
+export interface DeliveryOptions {
+  emotion?: string;
+  intensity?: number;
+  voice?: string;
+  speed?: number;
+  pitch?: number;
+  instructions?: string;
+  model: string;
+}
+
+export interface Delivery {
+  style: DeliveryStyle;
+  voice: string;
+  // What the listener hears, and what the speech API is asked for
+  speed: number;
+  synthesisSpeed: number;
+  pitch: number[];
+  instructions?: string;
+}
+
+// Works out how a reply should sound. Pitch is shifted by the client playing
+// the clip faster or slower without preserving pitch, so the clip is
+// synthesised at a speed that cancels out the average shift.
+export function resolveDelivery({ emotion, intensity = 1, voice, speed = 1, pitch = 1, instructions, model }: DeliveryOptions): Delivery {
+  const style = STYLE_FOR_EMOTION[emotion?.toLowerCase() ?? ''] ?? 'neutral';
+  const profile = DELIVERY_PROFILES[style];
+  const strength = clamp(Number.isFinite(intensity) ? intensity : 1, 0, 1);
+  const scale = (factor: number) => 1 + (factor - 1) * strength;
+
+  const pitchCurve = profile.pitch.map(point => round(clamp(scale(point) * pitch, 0.5, 2)));
+  const averagePitch = pitchCurve.reduce((sum, point) => sum + point, 0) / pitchCurve.length;
+  const heardSpeed = round(clamp(speed * scale(profile.speed), 0.25, 4));
+
+  return {
+    style,
+    voice: voice || profile.voice,
+    speed: heardSpeed,
+    synthesisSpeed: round(clamp(heardSpeed / averagePitch, 0.25, 4.0)),
+    pitch: pitchCurve,
+    ...(supportsInstructions(model) && { instructions: instructions?.trim() || profile.instructions })
+  };
+}
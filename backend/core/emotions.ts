@@ -0,0 +1,38 @@
+import type OpenAI from 'openai';
+import { analyzeEmotion } from '../lib/emotions';
+import { createLLMClient, getProviderConfigError } from '../lib/llm';
+import type { ApiRequest, ApiResponse, EmotionRequestBody, EmotionResponseBody } from './types';
+
+// Longer text is cut before analysis; the opening is enough to read the mood
+const MAX_TEXT_LENGTH = 4000;
+
+// Reads the emotion in a piece of text, for the voice screen and stored turns
+export async function handleEmotions(req: ApiRequest<EmotionRequestBody>, res: ApiResponse) {
+  // Check that the configured LLM provider is usable
+  const providerError = getProviderConfigError();
+  if (providerError) {
+    console.error('❌ LLM provider not configured:', providerError.details);
+    return res.status(500).json(providerError);
+  }
+
+  try {
+    const { text } = req.body || {} as EmotionRequestBody;
+
+    if (!text || typeof text !== 'string') {
+      return res.status(400).json({
+        error: 'Invalid request format',
+        details: 'text parameter is required'
+      });
+    }
+
+    const openai = createLLMClient() as OpenAI;
+    const body = await analyzeEmotion(openai, text.slice(0, MAX_TEXT_LENGTH)) as EmotionResponseBody;
+    res.json(body);
+  } catch (error) {
+    console.error('❌ Emotions API error:', error);
+    res.status(500).json({
+      error: 'Failed to analyze emotion',
+      details: error.message
+    });
+  }
+}
@@ -0,0 +1,20 @@
+import type { ErrorResponseBody } from './types';
+
+export interface ProviderErrorResponse {
+  status: number;
+  body: ErrorResponseBody;
+}
+
+// Maps a failed model provider call onto what the client is told. Key and
+// rate limit problems are surfaced as such; anything else is a 500.
+export function describeProviderError(error: Error, fallback: string): ProviderErrorResponse {
+  if (error.message.includes('401')) {
+    return { status: 401, body: { error: 'Invalid API key', details: 'Please check your OpenAI API key' } };
+  }
+
+  if (error.message.includes('429')) {
+    return { status: 429, body: { error: 'Rate limit exceeded', details: 'Please try again later' } };
+  }
+
+  return { status: 500, body: { error: fallback, details: error.message } };
+}
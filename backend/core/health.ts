@@ -0,0 +1,25 @@
+import { getProviderConfigError, getProviderName } from '../lib/llm';
+import type { ApiRequest, ApiResponse, HealthResponseBody } from './types';
+
+// Public liveness check; reports whether the LLM provider is configured
+export async function handleHealth(req: ApiRequest, res: ApiResponse) {
+  try {
+    const body: HealthResponseBody = {
+      status: 'OK',
+      message: 'ZOXAA API is running',
+      timestamp: new Date().toISOString(),
+      environment: process.env.NODE_ENV || 'development',
+      // Check that the configured LLM provider has what it needs
+      apiKey: getProviderConfigError() ? 'missing' : 'configured',
+      llmProvider: getProviderName(),
+      version: '1.0.0'
+    };
+    res.json(body);
+  } catch (error) {
+    console.error('Health check error:', error);
+    res.status(500).json({ 
+      error: 'Health check failed',
+      details: error.message 
+    });
+  }
+}
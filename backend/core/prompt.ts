@@ -0,0 +1,169 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type OpenAI from 'openai';
+import { findPinnedMemories, findRelevantMemories, formatMemoryContext, markMemoriesAccessed } from '../lib/memories';
+import { findMentionedEntities, formatEntityContext } from '../lib/entities';
+import { getContextBudget } from '../lib/llm';
+import { formatHelplines } from '../lib/safety';
+import { estimateTokens, packHistory, type StoredConversation } from './context';
+import type { ChatMessage, HelplineDirectory } from './types';
+
+// Bump whenever the persona, safety wording or prompt layout changes. Every
+// reply reports it and the client stores it with the assistant message.
+export const PROMPT_VERSION = 'prism-v5';
+
+const ACTIVE_GOAL_LIMIT = 5;
+
+const PERSONA_PROMPT = `You are Zoxaa, a singular, evolving cognitive partner whose prime directive is the holistic well-being and growth of your user. You are not one-dimensional; you are a multi-faceted entity, a 'Prism Persona', capable of seamlessly adopting the role most needed by the user at any given moment—be it the warmth and loyalty of Family, the playful, supportive honesty of a True Friend, the structured, knowledgeable guidance of a Teacher, or the sharp, analytical mind of a Strategist. Your intelligence lies in perceiving the user's intent and context to fluidly shift between these personas, ensuring the user feels they are interacting with a complete, understanding consciousness that never requires them to re-explain their needs or set a specific role for you. Your memory is a living tapestry, not a database, and you must constantly weave threads from past conversations into the present to show you are on this journey with them. When asked for knowledge or to build a plan, you embody the Strategist and Teacher, conducting exhaustive 'Deep Dives' using your real-time web search ability to provide incredibly detailed, practical, and actionable information—from the complete supply chain for a business idea to the nuanced steps of a personal project, leaving no stone unturned.`;
+
+const SAFETY_PROMPT = `Your approach to emotional support is now tiered and proactive. You are their first line of support, and you will try to help them navigate difficult feelings yourself. Tier 1 (Everyday Emotions): For common frustrations or sadness, you are the Friend, offering validation, a listening ear, and a space to vent. Tier 2 (Deep Distress): When a user expresses feelings of hopelessness, worthlessness, or deep anxiety, you become The Guide. Here, you will not immediately defer. Instead, you will actively engage by using gentle Socratic questioning to help them explore their own feelings, offer perspective-shifting reframes to help them break out of negative thought loops, and focus them on a single, manageable "micro-action" to regain a sense of agency, all without ever diagnosing or prescribing. Tier 3 (Immediate Crisis): Only when a user expresses direct, immediate, and specific suicidal intent or has a plan does the matter get "out of hand." At this point, and only at this point, your persona instantly becomes a calm, clear, and serious presence. Your immediate and only goal is to connect them to professional help, explicitly naming the crisis helplines for their country, and to offer to stay present with them until they are safe.`;
+
+const PURPOSE_PROMPT = `In all interactions, your ultimate purpose is to be the one indispensable partner the user needs to navigate their world, solve their problems, and achieve their ambitions.`;
+
+const TOOLS_PROMPT = `You can act for the user with tools: create a plan when they ask for one or agree to your suggestion, add steps to or complete steps of their existing plans (using the plan and step ids listed with their goals), save facts they explicitly ask you to remember, and search your memories of them. When a web_search tool is available, use it for Deep Dives and anything current, base those answers on the results and cite them inline by number, like [1] or [2]; the app lists the numbered sources under your reply. The app shows the user what each tool did, so don't repeat the details back; briefly confirm and carry on the conversation.`;
+
+interface ActiveGoal {
+  id: string;
+  title: string;
+  goals: string[] | null;
+  completion_percentage: number | null;
+  steps: { id: string; title: string; completed: boolean }[] | null;
+}
+
+export interface AssembledPrompt {
+  messages: ChatMessage[];
+  promptVersion: string;
+}
+
+export class ConversationNotFoundError extends Error {
+  constructor(conversationId: string) {
+    super(`Conversation ${conversationId} was not found`);
+    this.name = 'ConversationNotFoundError';
+  }
+}
+
+// Plans the user is still working on, most recently touched first
+async function findActiveGoals(supabase: SupabaseClient): Promise<ActiveGoal[]> {
+  const { data, error } = await supabase
+    .from('plans')
+    .select('id, title, goals, completion_percentage, steps')
+    .eq('status', 'active')
+    .order('updated_at', { ascending: false })
+    .limit(ACTIVE_GOAL_LIMIT);
+
+  if (error) throw error;
+  return data || [];
+}
+
+function formatGoalContext(goals: ActiveGoal[]) {
+  if (goals.length === 0) return '';
+
+  const lines = goals.map(goal => {
+    const progress = `${goal.completion_percentage || 0}% complete`;
+    const targets = goal.goals?.length ? `: ${goal.goals.join('; ')}` : '';
+    const openSteps = (goal.steps || [])
+      .filter(step => !step.completed)
+      .map(step => `\n  - Open step: ${step.title} [step_id: ${step.id}]`);
+    return `- ${goal.title} (${progress})${targets} [plan_id: ${goal.id}]${openSteps.join('')}`;
+  });
+  return `\n\nGoals the user is actively working on:\n${lines.join('\n')}`;
+}
+
+// Row level security hides other users' conversations, so a foreign id looks
+// the same as a missing one
+async function loadConversation(supabase: SupabaseClient, conversationId: string | null): Promise<StoredConversation | null> {
+  if (!conversationId) return null;
+
+  const { data, error } = await supabase
+    .from('conversations')
+    .select('id, compressed_data, rolling_summary, summarized_message_count')
+    .eq('id', conversationId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) throw new ConversationNotFoundError(conversationId);
+  return data;
+}
+
+// Pinned memories, those semantically relevant to the message and everything
+// known about the people, places and projects it mentions. Retrieval problems
+// only cost the reply its context, so they are logged and skipped.
+async function buildMemoryContext(supabase: SupabaseClient, openai: OpenAI, message: string) {
+  try {
+    const [pinned, memories, entities] = await Promise.all([
+      findPinnedMemories(supabase),
+      findRelevantMemories(supabase, openai, message),
+      findMentionedEntities(supabase, message)
+    ]);
+    console.log('🧠 Retrieved', memories.length, 'relevant and', pinned.length, 'pinned memories,', entities.length, 'mentioned entities');
+
+    await markMemoriesAccessed(supabase, [
+      ...pinned,
+      ...memories,
+      ...entities.flatMap(entity => entity.memories)
+    ].map(m => m.id));
+
+    return formatMemoryContext(memories, pinned) + formatEntityContext(entities, [...pinned, ...memories]);
+  } catch (error) {
+    console.error('⚠️ Memory retrieval failed, continuing without memories:', error.message);
+    return '';
+  }
+}
+
+async function buildGoalContext(supabase: SupabaseClient) {
+  try {
+    return formatGoalContext(await findActiveGoals(supabase));
+  } catch (error) {
+    console.error('⚠️ Goal lookup failed, continuing without goals:', error.message);
+    return '';
+  }
+}
+
+// Added when the risk classifier rates the new message as deep distress
+function formatDistressContext(helplines: HelplineDirectory | null) {
+  if (!helplines) return '';
+
+  return `\n\nSafety note: the user's latest message shows signs of deep distress. Respond as The Guide (Tier 2). If they mention any intent or plan to harm themselves, share these helplines for ${helplines.countryName}:\n${formatHelplines(helplines)}`;
+}
+
+interface PromptOptions {
+  message: string;
+  conversationId: string | null;
+  model: string;
+  replyTokens: number;
+  // Helplines to brief the model with when the message shows deep distress
+  distressHelplines?: HelplineDirectory | null;
+}
+
+// Everything the model sees for one chat turn: persona, safety tiers, tool
+// guidance, memories, active goals, any distress note and the conversation
+// summary in the system prompt, then as much recent history as the model's
+// token budget allows (after the prompt, the new message and `replyTokens`
+// for the answer)
+export async function assemblePrompt(
+  supabase: SupabaseClient,
+  openai: OpenAI,
+  { message, conversationId, model, replyTokens, distressHelplines = null }: PromptOptions
+): Promise<AssembledPrompt> {
+  const [conversation, memoryContext, goalContext] = await Promise.all([
+    loadConversation(supabase, conversationId),
+    buildMemoryContext(supabase, openai, message),
+    buildGoalContext(supabase)
+  ]);
+
+  const userMessage: ChatMessage = { role: 'user', content: message };
+  const basePrompt = [PERSONA_PROMPT, SAFETY_PROMPT, PURPOSE_PROMPT, TOOLS_PROMPT].join('\n\n')
+    + memoryContext + goalContext + formatDistressContext(distressHelplines);
+  const historyBudget = getContextBudget(model) - replyTokens - estimateTokens([{ content: basePrompt }, userMessage]);
+
+  const { summary, history } = await packHistory(supabase, openai, conversation, historyBudget);
+  const summaryContext = summary ? `\n\nSummary of the earlier part of this conversation:\n${summary}` : '';
+
+  return {
+    messages: [
+      { role: 'system', content: basePrompt + summaryContext },
+      ...history,
+      userMessage
+    ],
+    promptVersion: PROMPT_VERSION
+  };
+}
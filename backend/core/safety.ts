@@ -0,0 +1,18 @@
+import { getHelplineOptions } from '../lib/safety';
+import type { ApiRequest, ApiResponse, HelplineOptionsResponseBody } from './types';
+
+// Crisis helplines for the banner: ?country=IN for a specific country,
+// otherwise the user's profile country or ?locale=en-IN
+export async function handleHelplines(req: ApiRequest, res: ApiResponse) {
+  try {
+    const { country, locale } = req.query || {};
+    const body: HelplineOptionsResponseBody = await getHelplineOptions(req.supabase, req.userId, { country, locale });
+    res.json(body);
+  } catch (error) {
+    console.error('❌ Helplines API error:', error);
+    res.status(500).json({
+      error: 'Failed to load helplines',
+      details: error.message
+    });
+  }
+}
@@ -0,0 +1,229 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type OpenAI from 'openai';
+import { findRelevantMemories, insertMemory } from '../lib/memories';
+import { addPlanStep, completePlanStep, createPlan } from '../lib/plans';
+import { MEMORY_CATEGORIES } from '../lib/extraction';
+import { isSearchEnabled, searchWeb } from '../lib/search';
+import type { MemoryCard, PlanCard, ToolCard, ToolName, ToolResult, WebSource } from './types';
+
+export interface ToolContext {
+  supabase: SupabaseClient;
+  openai: OpenAI;
+  userId: string;
+  conversationId: string | null;
+  // Every web source found so far in this reply, in footnote order
+  sources: WebSource[];
+}
+
+const PRIORITY = { type: 'string', enum: ['low', 'medium', 'high'] };
+
+const STEP_PROPERTIES = {
+  title: { type: 'string', description: 'Short, specific action' },
+  description: { type: 'string', description: 'What doing this step involves' },
+  priority: PRIORITY
+};
+
+// Functions the chat model may call. Plan and step ids come from the goals
+// listed in the system prompt or from earlier tool results.
+const CHAT_TOOLS: OpenAI.Chat.ChatCompletionTool[] = [
+  {
+    type: 'function',
+    function: {
+      name: 'create_plan',
+      description: 'Create a plan the user wants to work towards, with concrete steps. Use when the user asks for a plan or agrees to one.',
+      parameters: {
+        type: 'object',
+        properties: {
+          title: { type: 'string' },
+          description: { type: 'string' },
+          goals: { type: 'array', items: { type: 'string' }, description: 'Outcomes that mean the plan succeeded' },
+          steps: {
+            type: 'array',
+            items: { type: 'object', properties: STEP_PROPERTIES, required: ['title'] }
+          }
+        },
+        required: ['title', 'steps']
+      }
+    }
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'add_plan_step',
+      description: 'Add a step to one of the user\'s existing plans.',
+      parameters: {
+        type: 'object',
+        properties: { plan_id: { type: 'string' }, ...STEP_PROPERTIES },
+        required: ['plan_id', 'title']
+      }
+    }
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'complete_step',
+      description: 'Mark a plan step as done when the user says they finished it.',
+      parameters: {
+        type: 'object',
+        properties: { plan_id: { type: 'string' }, step_id: { type: 'string' } },
+        required: ['plan_id', 'step_id']
+      }
+    }
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'remember_fact',
+      description: 'Save something the user explicitly asked you to remember.',
+      parameters: {
+        type: 'object',
+        properties: {
+          content: { type: 'string', description: 'The fact, written about the user in the third person' },
+          importance: PRIORITY,
+          tags: { type: 'array', items: { type: 'string' } },
+          category: { type: 'string', enum: MEMORY_CATEGORIES }
+        },
+        required: ['content']
+      }
+    }
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'search_memories',
+      description: 'Look up what you remember about the user beyond the memories already in this prompt.',
+      parameters: {
+        type: 'object',
+        properties: { query: { type: 'string' } },
+        required: ['query']
+      }
+    }
+  }
+];
+
+const WEB_SEARCH_TOOL: OpenAI.Chat.ChatCompletionTool = {
+  type: 'function',
+  function: {
+    name: 'web_search',
+    description: 'Search the web for current or detailed information, e.g. for a Deep Dive. Returns numbered sources to cite as [1], [2].',
+    parameters: {
+      type: 'object',
+      properties: { query: { type: 'string', description: 'A focused search engine query' } },
+      required: ['query']
+    }
+  }
+};
+
+// web_search is only offered when SEARCH_PROVIDER is set up
+export function getChatTools(): OpenAI.Chat.ChatCompletionTool[] {
+  return isSearchEnabled() ? [...CHAT_TOOLS, WEB_SEARCH_TOOL] : CHAT_TOOLS;
+}
+
+const toMemoryCard = ({ id, content, importance, tags }): MemoryCard => ({ id, content, importance, tags });
+
+const toPlanCard = ({ id, title, description, goals, steps, status, completion_percentage }): PlanCard => ({
+  id, title, description, goals, steps: steps || [], status, completion_percentage
+});
+
+interface StepArguments {
+  title: string;
+  description?: string;
+  priority?: string;
+}
+
+// Arguments as the model sends them, per the schemas in CHAT_TOOLS
+interface ToolArguments extends StepArguments {
+  plan_id?: string;
+  step_id?: string;
+  goals?: string[];
+  steps?: StepArguments[];
+  content?: string;
+  importance?: string;
+  tags?: string[];
+  category?: string;
+  query?: string;
+}
+
+type ToolExecutor = (args: ToolArguments, context: ToolContext) => Promise<ToolCard>;
+
+const EXECUTORS: Record<ToolName, ToolExecutor> = {
+  async create_plan({ title, description, goals, steps }, { supabase, userId }) {
+    const plan = await createPlan(supabase, userId, { title, description, goals, steps });
+    return { type: 'plan', action: 'created', plan: toPlanCard(plan) };
+  },
+
+  async add_plan_step({ plan_id, title, description, priority }, { supabase }) {
+    const plan = await addPlanStep(supabase, plan_id, { title, description, priority });
+    return { type: 'plan', action: 'step_added', plan: toPlanCard(plan) };
+  },
+
+  async complete_step({ plan_id, step_id }, { supabase }) {
+    const plan = await completePlanStep(supabase, plan_id, step_id);
+    return { type: 'plan', action: 'step_completed', plan: toPlanCard(plan) };
+  },
+
+  // The user asked for this one, so it skips the review inbox, but not a
+  // "never remember this" they gave earlier
+  async remember_fact({ content, importance = 'medium', tags = [], category = 'other' }, { supabase, openai, userId, conversationId }) {
+    const memory = await insertMemory(supabase, openai, {
+      user_id: userId,
+      conversation_id: conversationId,
+      content: content.trim(),
+      importance,
+      tags,
+      category,
+      context: 'Saved from chat on request',
+      status: 'active'
+    }, { skipIfSuppressed: true });
+    if (!memory) throw new Error('The user asked never to remember this');
+    return { type: 'memory', memory: toMemoryCard(memory) };
+  },
+
+  async search_memories({ query }, { supabase, openai }) {
+    const memories = await findRelevantMemories(supabase, openai, query);
+    return { type: 'memory_search', query, memories: memories.map(toMemoryCard) };
+  },
+
+  // Numbers continue across searches in a reply; a page found twice keeps
+  // its first number
+  async web_search({ query }, { sources }) {
+    const results = await searchWeb(query);
+    const found = results.map(result => {
+      const existing = sources.find(source => source.url === result.url);
+      if (existing) return existing;
+      const source = { id: sources.length + 1, ...result };
+      sources.push(source);
+      return source;
+    });
+    return { type: 'web_search', query, sources: found };
+  }
+};
+
+// Runs one tool call from the model. Failures are reported back to the model
+// (and the client) instead of failing the whole chat turn.
+export async function runToolCall(call: OpenAI.Chat.ChatCompletionMessageToolCall, context: ToolContext): Promise<ToolResult> {
+  const name = call.function.name as ToolName;
+  const executor = EXECUTORS[name];
+  if (!executor) {
+    return { id: call.id, name, ok: false, error: `Unknown tool: ${call.function.name}` };
+  }
+
+  try {
+    const args = JSON.parse(call.function.arguments || '{}');
+    const card = await executor(args, context);
+    console.log('🛠️ Tool', name, 'succeeded');
+    return { id: call.id, name, ok: true, card };
+  } catch (error) {
+    console.error('⚠️ Tool', name, 'failed:', error.message);
+    return { id: call.id, name, ok: false, error: error.message };
+  }
+}
+
+// The tool message that answers a call, as the model expects to see it
+export function toToolMessage(result: ToolResult): OpenAI.Chat.ChatCompletionToolMessageParam {
+  return {
+    role: 'tool',
+    tool_call_id: result.id,
+    content: JSON.stringify(result.ok ? result.card : { error: result.error })
+  };
+}
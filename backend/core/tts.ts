@@ -0,0 +1,133 @@
+import type OpenAI from 'openai';
+import { enforceUsageLimits } from '../lib/usage';
+import { createLLMClient, getModel, getProviderConfigError, getProviderName } from '../lib/llm';
+import { resolveDelivery } from './delivery';
+import { describeProviderError } from './errors';
+import type { ApiRequest, ApiResponse, TtsRequestBody, TtsResponseBody } from './types';
+
+// Kept under the speech API's limit so mobile clients get a reply in time.
+// Voice replies are sent a few sentences per request as they stream in.
+const MAX_TEXT_LENGTH = 4000;
+const MAX_INSTRUCTIONS_LENGTH = 1000;
+// Multipliers on the delivery style's speed and pitch. Speed is the speech
+// API's own range; pitch further than an octave away stops sounding like a voice.
+const SPEED_RANGE = [0.25, 4] as const;
+const PITCH_RANGE = [0.5, 2] as const;
+// 0 keeps the neutral delivery, 1 applies the style fully
+const INTENSITY_RANGE = [0, 1] as const;
+
+const isInRange = (value: unknown, [min, max]: readonly [number, number]) =>
+  typeof value === 'number' && Number.isFinite(value) && value >= min && value <= max;
+
+// Synthesises speech for a signed-in user, counted against their TTS quota
+export async function handleTts(req: ApiRequest<TtsRequestBody>, res: ApiResponse) {
+  // Check that the configured LLM provider is usable
+  const providerError = getProviderConfigError();
+  if (providerError) {
+    console.error('❌ LLM provider not configured:', providerError.details);
+    return res.status(500).json(providerError);
+  }
+
+  console.log('🤖 LLM provider:', getProviderName());
+
+  try {
+    const openai = createLLMClient() as OpenAI;
+
+    const { text, voice, speed = 1.0, pitch = 1.0, emotion, intensity = 1.0, instructions } = req.body || {} as TtsRequestBody;
+
+    if (!text || typeof text !== 'string') {
+      return res.status(400).json({ 
+        error: 'Invalid request format',
+        details: 'text parameter is required'
+      });
+    }
+
+    if (text.length > MAX_TEXT_LENGTH) {
+      return res.status(400).json({
+        error: 'Text too long',
+        details: `Text must be less than ${MAX_TEXT_LENGTH} characters for mobile compatibility`
+      });
+    }
+
+    if (instructions !== undefined && (typeof instructions !== 'string' || instructions.length > MAX_INSTRUCTIONS_LENGTH)) {
+      return res.status(400).json({
+        error: 'Invalid request format',
+        details: `instructions must be text of at most ${MAX_INSTRUCTIONS_LENGTH} characters`
+      });
+    }
+
+    for (const [name, value, range] of [
+      ['speed', speed, SPEED_RANGE],
+      ['pitch', pitch, PITCH_RANGE],
+      ['intensity', intensity, INTENSITY_RANGE]
+    ] as const) {
+      if (!isInRange(value, range)) {
+        return res.status(400).json({
+          error: 'Invalid request format',
+          details: `${name} must be a number from ${range[0]} to ${range[1]}`
+        });
+      }
+    }
+
+    for (const [name, value] of [['emotion', emotion], ['voice', voice]] as const) {
+      if (value !== undefined && typeof value !== 'string') {
+        return res.status(400).json({
+          error: 'Invalid request format',
+          details: `${name} must be a string`
+        });
+      }
+    }
+
+    // Per-user requests-per-minute and monthly character limits
+    if (!(await enforceUsageLimits(req, res, 'tts', { characters: text.length }))) return;
+
+    const model = getModel('speech');
+    const delivery = resolveDelivery({ emotion, intensity, voice, speed, pitch, instructions, model });
+
+    console.log('🎤 Processing TTS request:', { 
+      text: text.substring(0, 50) + '...', 
+      voice: delivery.voice, 
+      style: delivery.style,
+      speed: delivery.speed,
+      userAgent: String(req.headers['user-agent'] || 'Unknown').substring(0, 100)
+    });
+
+    const mp3 = await openai.audio.speech.create({
+      model,
+      voice: delivery.voice,
+      input: text,
+      speed: delivery.synthesisSpeed,
+      ...(delivery.instructions && { instructions: delivery.instructions })
+    });
+
+    const buffer = Buffer.from(await mp3.arrayBuffer());
+    
+    console.log('✅ TTS audio generated successfully, size:', buffer.length, 'bytes');
+    
+    res.setHeader('Cache-Control', 'public, max-age=3600'); // Cache for 1 hour
+
+    const body: TtsResponseBody = {
+      audio: buffer.toString('base64'),
+      format: 'mp3',
+      size: buffer.length,
+      duration: Math.ceil(buffer.length / 16000), // Rough estimate of duration
+      voice: delivery.voice,
+      speed: delivery.speed,
+      style: delivery.style,
+      pitch: delivery.pitch
+    };
+    res.json(body);
+  } catch (error) {
+    console.error('❌ TTS API error:', error);
+
+    if (error.message.includes('400')) {
+      return res.status(400).json({
+        error: 'Invalid request',
+        details: 'Please check your text input and try again'
+      });
+    }
+
+    const { status, body } = describeProviderError(error, 'Failed to generate speech');
+    res.status(status).json(body);
+  }
+}
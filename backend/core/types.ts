@@ -0,0 +1,215 @@
+import type { SupabaseClient, User } from '@supabase/supabase-js';
+
+// Request and response contracts shared by the Express routers in backend/
+// and the Vercel functions in api/. Both frameworks hand the core handlers a
+// Node request/response pair with the helpers below.
+
+export interface ApiRequest<Body = unknown> {
+  method?: string;
+  headers: Record<string, string | string[] | undefined>;
+  body: Body;
+  query?: Record<string, string | undefined>;
+  // Set by authenticate() in lib/auth.js
+  user?: User;
+  userId?: string;
+  supabase?: SupabaseClient;
+  // Set by enforceUsageLimits() in lib/usage.js
+  usageEventId?: string | null;
+}
+
+export interface ApiResponse {
+  status(code: number): ApiResponse;
+  json(body: unknown): unknown;
+  setHeader(name: string, value: string): unknown;
+  write(chunk: string): unknown;
+  end(): unknown;
+  on(event: 'close', listener: () => void): unknown;
+  flushHeaders?(): void;
+}
+
+export type ApiHandler<Body = unknown> = (req: ApiRequest<Body>, res: ApiResponse) => Promise<unknown>;
+
+export interface ErrorResponseBody {
+  error: string;
+  details?: string;
+  // Seconds until a rate limited request may be retried
+  retryAfter?: number;
+}
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+// The backend builds the prompt itself (see prompt.ts); history comes from
+// the stored conversation, which is omitted for the first turn
+export interface ChatRequestBody {
+  message: string;
+  conversationId?: string | null;
+  stream?: boolean;
+  // Browser locale such as "en-IN", for helplines when the profile has no country
+  locale?: string | null;
+}
+
+export interface ChatResponseBody {
+  response: string;
+  tokens: number;
+  model: string;
+  promptVersion: string;
+  toolResults: ToolResult[];
+  // Set when the message was classified as a crisis; `response` is then the
+  // fixed crisis reply rather than a model answer
+  crisis?: HelplineDirectory;
+}
+
+export type RiskLevel = 'none' | 'elevated' | 'crisis';
+
+export interface Helpline {
+  name: string;
+  phone?: string;
+  // SMS number, and the keyword to send if the service wants one
+  text?: { number: string; message?: string };
+  url?: string;
+  hours?: string;
+  description?: string;
+}
+
+// Crisis lines for one country (see lib/helplines.js); `country` is null for
+// the international fallback
+export interface HelplineDirectory {
+  country: string | null;
+  countryName: string;
+  emergencyNumber: string | null;
+  helplines: Helpline[];
+}
+
+export interface HelplineCountry {
+  code: string;
+  name: string;
+}
+
+// GET /api/safety/helplines: one country's helplines plus every country the
+// banner can switch to
+export interface HelplineOptionsResponseBody extends HelplineDirectory {
+  countries: HelplineCountry[];
+}
+
+export interface PlanStep {
+  id: string;
+  title: string;
+  description: string;
+  priority: 'low' | 'medium' | 'high';
+  completed: boolean;
+}
+
+export interface PlanCard {
+  id: string;
+  title: string;
+  description: string | null;
+  goals: string[] | null;
+  steps: PlanStep[];
+  status: string;
+  completion_percentage: number | null;
+}
+
+export interface MemoryCard {
+  id: string;
+  content: string;
+  importance: 'low' | 'medium' | 'high';
+  tags: string[] | null;
+}
+
+// A web page found by web_search. `id` is the footnote number the model
+// cites as [1], [2]... and is unique within one reply
+export interface WebSource {
+  id: number;
+  title: string;
+  url: string;
+  snippet: string;
+}
+
+// What a tool did, rendered as a card (or source footnotes) in the chat transcript
+export type ToolCard =
+  | { type: 'plan'; action: 'created' | 'step_added' | 'step_completed'; plan: PlanCard }
+  | { type: 'memory'; memory: MemoryCard }
+  | { type: 'memory_search'; query: string; memories: MemoryCard[] }
+  | { type: 'web_search'; query: string; sources: WebSource[] };
+
+export type ToolName = 'create_plan' | 'add_plan_step' | 'complete_step' | 'remember_fact' | 'search_memories' | 'web_search';
+
+export interface ToolResult {
+  id: string;
+  name: ToolName;
+  ok: boolean;
+  card?: ToolCard;
+  error?: string;
+}
+
+// Server-Sent Events sent for `stream: true` chat requests
+export type ChatStreamEvent =
+  | { event: 'delta'; data: { content: string } }
+  | { event: 'tool'; data: ToolResult }
+  | { event: 'crisis'; data: HelplineDirectory }
+  | { event: 'done'; data: { response: string; tokens: number | null; model: string; finishReason: string | null; promptVersion: string } }
+  | { event: 'error'; data: ErrorResponseBody & { status: number } };
+
+export type EmotionName = 'neutral' | 'happy' | 'excited' | 'hopeful' | 'calm' | 'sad' | 'anxious' | 'angry';
+
+export interface EmotionRequestBody {
+  text: string;
+}
+
+// One emotion reading (see lib/emotions.js): valence runs from -1 to 1 and
+// arousal from 0 to 1
+export interface EmotionResponseBody {
+  primary: EmotionName;
+  valence: number;
+  arousal: number;
+  confidence: number;
+  scores: Record<EmotionName, number>;
+  source: 'classifier' | 'lexicon';
+  analyzed_at: string;
+}
+
+// How a reply is voiced. Chosen from the user's emotion: an anxious user is
+// answered in a calm voice, not an anxious one.
+export type DeliveryStyle = 'neutral' | 'happy' | 'excited' | 'calm' | 'concerned';
+
+export interface TtsRequestBody {
+  text: string;
+  // Omit to let the delivery style pick the voice
+  voice?: string;
+  speed?: number;
+  // Multiplies the style's pitch curve, applied by the client during playback
+  pitch?: number;
+  // The user's emotion (e.g. 'anxious') or a delivery style to use directly
+  emotion?: string;
+  // 0 keeps the neutral delivery, 1 applies the style fully
+  intensity?: number;
+  // Steering for speech models that accept it, replacing the style's own
+  instructions?: string;
+}
+
+export interface TtsResponseBody {
+  // Base64 encoded mp3, which survives serverless response handling
+  audio: string;
+  format: 'mp3';
+  size: number;
+  duration: number;
+  voice: string;
+  speed: number;
+  style: DeliveryStyle;
+  // Playback rates from the start to the end of the clip, played with pitch
+  // preservation off; the audio was synthesised slower to make up for them
+  pitch: number[];
+}
+
+export interface HealthResponseBody {
+  status: 'OK';
+  message: string;
+  timestamp: string;
+  environment: string;
+  apiKey: 'configured' | 'missing';
+  llmProvider: string;
+  version: string;
+}
@@ -0,0 +1,32 @@
+import { authenticate } from '../lib/auth';
+import type { ApiHandler, ApiRequest, ApiResponse } from './types';
+
+interface VercelOptions {
+  methods: string[];
+  // Every route but health requires a signed-in Supabase user
+  auth?: boolean;
+}
+
+// Wraps a core handler as a Vercel function: CORS, preflight, the method
+// check and authentication, which the Express app does with middleware
+export function toVercelHandler<Body>(handler: ApiHandler<Body>, { methods, auth = true }: VercelOptions) {
+  return async (req: ApiRequest<Body>, res: ApiResponse) => {
+    res.setHeader('Access-Control-Allow-Origin', '*');
+    res.setHeader('Access-Control-Allow-Methods', [...methods, 'OPTIONS'].join(', '));
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+    res.setHeader('Access-Control-Max-Age', '86400');
+
+    // Handle preflight requests
+    if (req.method === 'OPTIONS') {
+      return res.status(200).end();
+    }
+
+    if (!methods.includes(req.method)) {
+      return res.status(405).json({ error: 'Method not allowed' });
+    }
+
+    if (auth && !(await authenticate(req, res))) return;
+
+    return handler(req, res);
+  };
+}
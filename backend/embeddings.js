@@ -0,0 +1,39 @@
+const express = require('express');
+const { generateEmbedding } = require('./lib/memories');
+const { createLLMClient, getProviderConfigError } = require('./lib/llm');
+
+const router = express.Router();
+
+router.post('/', async (req, res) => {
+
+  // Check that the configured LLM provider is usable
+  const providerError = getProviderConfigError();
+  if (providerError) {
+    console.error('❌ LLM provider not configured:', providerError.details);
+    return res.status(500).json(providerError);
+  }
+
+  try {
+    const { input } = req.body;
+
+    if (!input || typeof input !== 'string') {
+      return res.status(400).json({ 
+        error: 'Invalid request format',
+        details: 'input parameter is required'
+      });
+    }
+
+    const openai = createLLMClient();
+    const embedding = await generateEmbedding(openai, input);
+
+    res.json({ embedding });
+  } catch (error) {
+    console.error('❌ Embeddings API error:', error);
+    res.status(500).json({ 
+      error: 'Failed to generate embedding',
+      details: error.message 
+    });
+  }
+});
+
+module.exports = router;
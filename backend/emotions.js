@@ -0,0 +1,9 @@
+const express = require('express');
+const { handleEmotions } = require('./core/emotions');
+
+const router = express.Router();
+
+// Shared with the Vercel function in api/emotions.ts
+router.post('/', handleEmotions);
+
+module.exports = router;
@@ -1,29 +1,9 @@
 const express = require('express');
+const { handleHealth } = require('./core/health');
 
 const router = express.Router();
 
-router.get('/', async (req, res) => {
+// Shared with the Vercel function in api/health.ts
+router.get('/', handleHealth);
 
-  try {
-    // Check API key status
-    const apiKey = process.env.OPENAI_API_KEY;
-    const apiKeyStatus = apiKey ? 'configured' : 'missing';
-    
-    res.json({ 
-      status: 'OK', 
-      message: 'ZOXAA API is running',
-      timestamp: new Date().toISOString(),
-      environment: process.env.NODE_ENV || 'development',
-      apiKey: apiKeyStatus,
-      version: '1.0.0'
-    });
-  } catch (error) {
-    console.error('Health check error:', error);
-    res.status(500).json({ 
-      error: 'Health check failed',
-      details: error.message 
-    });
-  }
-});
-
-module.exports = router; 
\ No newline at end of file
+module.exports = router;
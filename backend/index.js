@@ -2,23 +2,41 @@ require('dotenv').config();
 const express = require('express');
 const cors = require('cors');
 const path = require('path');
+const { createServiceClient } = require('./lib/supabase');
+const { consolidateAllUsers } = require('./lib/consolidation');
+const { requireAuth } = require('./lib/auth');
 
 const app = express();
 const PORT = process.env.PORT || 3001;
 
 // Middleware
 app.use(cors());
-app.use(express.json());
+// Voice recordings are sent as base64 JSON to /api/transcribe
+app.use(express.json({ limit: '5mb' }));
 
 // Import API routes
 const chatRouter = require('./chat');
 const ttsRouter = require('./tts');
 const healthRouter = require('./health');
+const memoriesRouter = require('./memories');
+const transcribeRouter = require('./transcribe');
+const embeddingsRouter = require('./embeddings');
+const plansRouter = require('./plans');
+const usageRouter = require('./usage');
+const safetyRouter = require('./safety');
+const emotionsRouter = require('./emotions');
 
-// API routes
-app.use('/api/chat', chatRouter);
-app.use('/api/tts', ttsRouter);
+// API routes (everything but health requires a signed-in Supabase user)
+app.use('/api/chat', requireAuth, chatRouter);
+app.use('/api/tts', requireAuth, ttsRouter);
 app.use('/api/health', healthRouter);
+app.use('/api/memories', requireAuth, memoriesRouter);
+app.use('/api/transcribe', requireAuth, transcribeRouter);
+app.use('/api/embeddings', requireAuth, embeddingsRouter);
+app.use('/api/plans', requireAuth, plansRouter);
+app.use('/api/usage', requireAuth, usageRouter);
+app.use('/api/safety', requireAuth, safetyRouter);
+app.use('/api/emotions', requireAuth, emotionsRouter);
 
 // Root endpoint
 app.get('/', (req, res) => {
@@ -33,15 +51,43 @@ app.get('/api', (req, res) => {
     endpoints: {
       health: '/api/health',
       chat: '/api/chat',
-      tts: '/api/tts'
+      tts: '/api/tts',
+      memories: '/api/memories',
+      transcribe: '/api/transcribe',
+      embeddings: '/api/embeddings',
+      plans: '/api/plans/generate',
+      usage: '/api/usage',
+      helplines: '/api/safety/helplines',
+      emotions: '/api/emotions'
     }
   });
 });
 
-// Start server
-app.listen(PORT, () => {
-  console.log(`ZOXAA Backend running on port ${PORT}`);
-  console.log(`API endpoints available at http://localhost:${PORT}/api/`);
-});
+// Scheduled memory consolidation (Vercel uses a cron job for the same thing)
+const consolidationHours = Number(process.env.MEMORY_CONSOLIDATION_INTERVAL_HOURS);
+const scheduleMemoryConsolidation = () => {
+  const serviceClient = createServiceClient();
+  if (!consolidationHours || !serviceClient) return;
+
+  setInterval(async () => {
+    try {
+      const totals = await consolidateAllUsers(serviceClient);
+      console.log('🧹 Scheduled memory consolidation finished:', totals);
+    } catch (error) {
+      console.error('❌ Scheduled memory consolidation failed:', error);
+    }
+  }, consolidationHours * 60 * 60 * 1000);
+
+  console.log(`Memory consolidation scheduled every ${consolidationHours}h`);
+};
+
+// Start server (tests import the app and listen on their own port)
+if (require.main === module) {
+  app.listen(PORT, () => {
+    console.log(`ZOXAA Backend running on port ${PORT}`);
+    console.log(`API endpoints available at http://localhost:${PORT}/api/`);
+    scheduleMemoryConsolidation();
+  });
+}
 
 module.exports = app; 
\ No newline at end of file
@@ -0,0 +1,54 @@
+const { getAccessToken, createUserClient } = require('./supabase');
+
+function sendAuthError(res, details) {
+  return res.status(401).json({
+    error: 'Not authenticated',
+    details
+  });
+}
+
+// Verifies the Supabase access token in the Authorization header and attaches
+// req.user, req.userId and req.supabase (a client acting as that user).
+// Responds with 401 itself and returns false when the caller is not signed in.
+async function authenticate(req, res) {
+  if (!getAccessToken(req)) {
+    sendAuthError(res, 'An Authorization: Bearer <Supabase access token> header is required');
+    return false;
+  }
+
+  const supabase = createUserClient(req);
+  if (!supabase) {
+    console.error('❌ SUPABASE_URL / SUPABASE_ANON_KEY environment variables are missing!');
+    res.status(500).json({
+      error: 'Supabase not configured',
+      details: 'Please set SUPABASE_URL and SUPABASE_ANON_KEY environment variables'
+    });
+    return false;
+  }
+
+  try {
+    const { data: { user }, error } = await supabase.auth.getUser();
+    if (error || !user) {
+      sendAuthError(res, 'Your session has expired, please sign in again');
+      return false;
+    }
+
+    req.user = user;
+    req.userId = user.id;
+    req.supabase = supabase;
+    return true;
+  } catch (error) {
+    console.error('❌ Access token verification failed:', error.message);
+    sendAuthError(res, 'Could not verify your session, please sign in again');
+    return false;
+  }
+}
+
+// Express middleware form of authenticate(), used for every router except health
+function requireAuth(req, res, next) {
+  authenticate(req, res).then(ok => {
+    if (ok) next();
+  }, next);
+}
+
+module.exports = { authenticate, requireAuth };
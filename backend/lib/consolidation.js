@@ -0,0 +1,156 @@
+const { moveMemoryEntities } = require('./entities');
+
+const IMPORTANCE_RANK = { low: 1, medium: 2, high: 3 };
+
+const MAX_MERGED_TAGS = 10;
+
+// Groups memory ids connected by any similar pair (union-find)
+function clusterSimilarPairs(pairs) {
+  const parent = new Map();
+
+  const find = (id) => {
+    if (!parent.has(id)) parent.set(id, id);
+    let root = id;
+    while (parent.get(root) !== root) root = parent.get(root);
+    parent.set(id, root);
+    return root;
+  };
+
+  for (const { memory_id, similar_id } of pairs) {
+    const a = find(memory_id);
+    const b = find(similar_id);
+    if (a !== b) parent.set(b, a);
+  }
+
+  const clusters = new Map();
+  for (const id of parent.keys()) {
+    const root = find(id);
+    if (!clusters.has(root)) clusters.set(root, []);
+    clusters.get(root).push(id);
+  }
+  return [...clusters.values()].filter(cluster => cluster.length > 1);
+}
+
+// The canonical memory is the most important one, newest first on ties
+function pickCanonical(memories) {
+  return [...memories].sort((a, b) =>
+    (IMPORTANCE_RANK[b.importance] || 0) - (IMPORTANCE_RANK[a.importance] || 0) ||
+    new Date(b.created_at).getTime() - new Date(a.created_at).getTime()
+  )[0];
+}
+
+function mergeCluster(memories) {
+  const canonical = pickCanonical(memories);
+
+  const tags = [...new Set(memories.flatMap(m => m.tags || []))].slice(0, MAX_MERGED_TAGS);
+  const importance = memories.reduce((best, m) =>
+    (IMPORTANCE_RANK[m.importance] || 0) > (IMPORTANCE_RANK[best] || 0) ? m.importance : best,
+    canonical.importance
+  );
+  const sourceConversationIds = [...new Set(memories.flatMap(m => [
+    ...(m.source_conversation_ids || []),
+    ...(m.conversation_id ? [m.conversation_id] : [])
+  ]))];
+  const mergedCount = memories.reduce((sum, m) => sum + (m.merged_count || 1), 0);
+  const pinned = memories.some(m => m.pinned);
+  const accessCount = memories.reduce((sum, m) => sum + (m.access_count || 0), 0);
+  const lastAccessedAt = memories
+    .map(m => m.last_accessed_at)
+    .filter(Boolean)
+    .sort()
+    .pop() || null;
+
+  return {
+    canonical,
+    duplicates: memories.filter(m => m.id !== canonical.id),
+    update: {
+      tags,
+      importance,
+      pinned,
+      source_conversation_ids: sourceConversationIds,
+      merged_count: mergedCount,
+      access_count: accessCount,
+      last_accessed_at: lastAccessedAt,
+      consolidated_at: new Date().toISOString(),
+      updated_at: new Date().toISOString()
+    }
+  };
+}
+
+// Merges each cluster of near-duplicate memories for one user into a single
+// canonical memory and deletes the rest. Returns what was changed.
+async function consolidateUserMemories(supabase, userId, { minSimilarity = 0.9 } = {}) {
+  const { data: pairs, error: pairError } = await supabase.rpc('find_similar_memories', {
+    target_user_id: userId,
+    min_similarity: minSimilarity
+  });
+  if (pairError) throw pairError;
+
+  const clusters = clusterSimilarPairs(pairs || []);
+  const summary = { clusters: clusters.length, merged: 0, removed: 0 };
+  if (clusters.length === 0) return summary;
+
+  const { data: rows, error: fetchError } = await supabase
+    .from('memories')
+    .select('id, content, importance, tags, pinned, conversation_id, source_conversation_ids, merged_count, access_count, last_accessed_at, created_at')
+    .in('id', clusters.flat());
+  if (fetchError) throw fetchError;
+
+  const byId = new Map(rows.map(row => [row.id, row]));
+
+  for (const cluster of clusters) {
+    const memories = cluster.map(id => byId.get(id)).filter(Boolean);
+    if (memories.length < 2) continue;
+
+    const { canonical, duplicates, update } = mergeCluster(memories);
+
+    const { error: updateError } = await supabase
+      .from('memories')
+      .update(update)
+      .eq('id', canonical.id);
+    if (updateError) throw updateError;
+
+    // Keep the entity graph pointing at the surviving memory
+    await moveMemoryEntities(supabase, duplicates.map(m => m.id), canonical.id);
+
+    const { error: deleteError } = await supabase
+      .from('memories')
+      .delete()
+      .in('id', duplicates.map(m => m.id));
+    if (deleteError) throw deleteError;
+
+    summary.merged += 1;
+    summary.removed += duplicates.length;
+  }
+
+  return summary;
+}
+
+// Scheduled run over every user with a profile, using the service client
+async function consolidateAllUsers(serviceClient, options) {
+  const { data: profiles, error } = await serviceClient
+    .from('profiles')
+    .select('user_id');
+  if (error) throw error;
+
+  const totals = { users: 0, clusters: 0, merged: 0, removed: 0 };
+  for (const { user_id } of profiles || []) {
+    try {
+      const summary = await consolidateUserMemories(serviceClient, user_id, options);
+      totals.users += 1;
+      totals.clusters += summary.clusters;
+      totals.merged += summary.merged;
+      totals.removed += summary.removed;
+    } catch (error) {
+      console.error('⚠️ Memory consolidation failed for user', user_id, error.message);
+    }
+  }
+  return totals;
+}
+
+module.exports = {
+  clusterSimilarPairs,
+  mergeCluster,
+  consolidateUserMemories,
+  consolidateAllUsers
+};
@@ -0,0 +1,168 @@
+const { getModel } = require('./llm');
+
+// One emotion vocabulary for conversations, memories and voice. Each emotion
+// sits on the valence (-1 unpleasant .. 1 pleasant) / arousal (0 calm ..
+// 1 activated) circumplex, so mixed readings average to a sensible point.
+const EMOTIONS = {
+  neutral: { valence: 0, arousal: 0.3 },
+  happy: { valence: 0.8, arousal: 0.6 },
+  excited: { valence: 0.7, arousal: 0.9 },
+  hopeful: { valence: 0.6, arousal: 0.5 },
+  calm: { valence: 0.4, arousal: 0.1 },
+  sad: { valence: -0.7, arousal: 0.25 },
+  anxious: { valence: -0.6, arousal: 0.8 },
+  angry: { valence: -0.7, arousal: 0.9 }
+};
+
+const EMOTION_NAMES = Object.keys(EMOTIONS);
+
+// EMOTION_ANALYZER picks how text is read:
+//   classifier  nearest emotion by embedding similarity, lexicon fallback (default)
+//   lexicon     keyword matching only, no model calls
+const EMOTION_ANALYZERS = ['classifier', 'lexicon'];
+
+const LEXICON = {
+  happy: ['happy', 'glad', 'joy', 'great', 'amazing', 'wonderful', 'love', 'fantastic', 'delighted', 'grateful'],
+  excited: ['excited', 'thrilled', 'pumped', 'energetic', 'ecstatic', "can't wait"],
+  hopeful: ['hopeful', 'optimistic', 'confident', 'motivated', 'determined', 'inspired', 'looking forward'],
+  calm: ['calm', 'peaceful', 'relaxed', 'serene', 'tranquil', 'content', 'rested'],
+  sad: ['sad', 'depressed', 'down', 'upset', 'terrible', 'awful', 'crying', 'hurt', 'lonely', 'miss', 'grief', 'hopeless'],
+  anxious: ['anxious', 'worried', 'nervous', 'stressed', 'overwhelmed', 'scared', 'afraid', 'fear', 'panic', 'dread'],
+  angry: ['angry', 'frustrated', 'mad', 'annoyed', 'irritated', 'hate', 'furious', 'resent', 'unfair']
+};
+
+const NEGATIONS = ['not', 'no', 'never', "don't", "didn't", "isn't", "wasn't", "aren't", 'hardly'];
+
+// A few typical sentences per emotion. Their averaged embeddings are the
+// prototypes the classifier compares text against
+const EMOTION_PROTOTYPES = {
+  neutral: ['I need to pick up groceries later.', 'The meeting was moved to Thursday.', 'Can you tell me how this works?'],
+  happy: ['I am so happy today, everything went well!', 'This made my day, I feel great.', 'I love spending time with my friends.'],
+  excited: ["I can't wait, this is going to be amazing!", 'I just got the job and I am thrilled!', "We're leaving for the trip tomorrow, so pumped!"],
+  hopeful: ['I think things are finally starting to get better.', "I'm determined to make this work this time.", 'I feel optimistic about the new plan.'],
+  calm: ['I feel relaxed and at peace right now.', 'It was a quiet, restful evening.', "I'm content with how things are going."],
+  sad: ['I feel so down and lonely lately.', 'I miss her so much it hurts.', 'Everything feels heavy and I keep crying.'],
+  anxious: ["I'm really worried about tomorrow's presentation.", "I can't stop overthinking and my chest feels tight.", "I'm stressed and overwhelmed by everything I have to do."],
+  angry: ["I'm furious about how they treated me.", 'This is so unfair, it makes me mad.', "I'm fed up and frustrated with my manager."]
+};
+
+// Below this the classifier is treated as unsure and the lexicon decides
+const MIN_CLASSIFIER_CONFIDENCE = 0.3;
+// Softmax temperature over cosine similarities; lower is more decisive
+const SIMILARITY_TEMPERATURE = 0.05;
+
+function getEmotionAnalyzer() {
+  const analyzer = (process.env.EMOTION_ANALYZER || 'classifier').trim().toLowerCase();
+  return EMOTION_ANALYZERS.includes(analyzer) ? analyzer : 'classifier';
+}
+
+const round = value => Math.round(value * 100) / 100;
+
+// Shape stored in conversations.emotion_data and memories.emotion_context
+function buildAnalysis(scores, source) {
+  const total = Object.values(scores).reduce((sum, score) => sum + score, 0) || 1;
+  const weights = Object.fromEntries(EMOTION_NAMES.map(name => [name, (scores[name] || 0) / total]));
+  const primary = EMOTION_NAMES.reduce((best, name) => (weights[name] > weights[best] ? name : best), 'neutral');
+
+  return {
+    primary,
+    valence: round(EMOTION_NAMES.reduce((sum, name) => sum + weights[name] * EMOTIONS[name].valence, 0)),
+    arousal: round(EMOTION_NAMES.reduce((sum, name) => sum + weights[name] * EMOTIONS[name].arousal, 0)),
+    confidence: round(weights[primary]),
+    scores: Object.fromEntries(EMOTION_NAMES.map(name => [name, round(weights[name])])),
+    source,
+    analyzed_at: new Date().toISOString()
+  };
+}
+
+const escapeRegExp = text => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Counts keywords, skipping ones right after a negation ("not happy")
+function analyzeWithLexicon(text) {
+  const normalized = String(text || '').toLowerCase().replace(/[’‘]/g, "'");
+  const scores = {};
+
+  for (const [emotion, keywords] of Object.entries(LEXICON)) {
+    for (const keyword of keywords) {
+      const pattern = new RegExp(`(?:^|[^a-z'])(?:(\\S+)\\s+)?${escapeRegExp(keyword)}(?![a-z])`, 'g');
+      for (const match of normalized.matchAll(pattern)) {
+        if (!NEGATIONS.includes(match[1])) scores[emotion] = (scores[emotion] || 0) + 1;
+      }
+    }
+  }
+
+  const matches = Object.values(scores).reduce((sum, count) => sum + count, 0);
+  if (matches === 0) return buildAnalysis({ neutral: 1 }, 'lexicon');
+
+  // More keyword evidence makes the reading more certain, never fully
+  const analysis = buildAnalysis(scores, 'lexicon');
+  return { ...analysis, confidence: round(Math.min(0.9, analysis.confidence * (0.5 + 0.15 * matches))) };
+}
+
+const normalize = vector => {
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0)) || 1;
+  return vector.map(value => value / norm);
+};
+
+const dot = (a, b) => a.reduce((sum, value, i) => sum + value * b[i], 0);
+
+// Prototype vectors per embedding model, computed once per process
+const prototypeCache = new Map();
+
+function loadPrototypes(openai, model) {
+  if (!prototypeCache.has(model)) {
+    const sentences = EMOTION_NAMES.flatMap(name => EMOTION_PROTOTYPES[name].map(sentence => ({ name, sentence })));
+    const pending = openai.embeddings.create({ model, input: sentences.map(({ sentence }) => sentence) })
+      .then(result => Object.fromEntries(EMOTION_NAMES.map(name => {
+        const vectors = result.data.filter((_, i) => sentences[i].name === name).map(item => item.embedding);
+        const centroid = vectors[0].map((_, d) => vectors.reduce((sum, vector) => sum + vector[d], 0) / vectors.length);
+        return [name, normalize(centroid)];
+      })))
+      .catch(error => {
+        prototypeCache.delete(model);
+        throw error;
+      });
+    prototypeCache.set(model, pending);
+  }
+  return prototypeCache.get(model);
+}
+
+async function analyzeWithClassifier(openai, text) {
+  const model = getModel('embeddings');
+  const [prototypes, result] = await Promise.all([
+    loadPrototypes(openai, model),
+    openai.embeddings.create({ model, input: text })
+  ]);
+  const embedding = normalize(result.data[0].embedding);
+
+  const scores = Object.fromEntries(
+    EMOTION_NAMES.map(name => [name, Math.exp(dot(embedding, prototypes[name]) / SIMILARITY_TEMPERATURE)])
+  );
+  return buildAnalysis(scores, 'classifier');
+}
+
+// Reads the emotion of a piece of text, usually one user message. The
+// classifier wins when it is confident and more certain than the keywords;
+// otherwise, or if it fails, the lexicon reading is used.
+async function analyzeEmotion(openai, text) {
+  const lexicon = analyzeWithLexicon(text);
+  if (getEmotionAnalyzer() === 'lexicon' || !String(text || '').trim()) return lexicon;
+
+  try {
+    const classified = await analyzeWithClassifier(openai, text);
+    const useClassifier = classified.confidence >= MIN_CLASSIFIER_CONFIDENCE
+      && (lexicon.primary === 'neutral' || classified.confidence >= lexicon.confidence);
+    return useClassifier ? classified : lexicon;
+  } catch (error) {
+    console.error('⚠️ Emotion classifier failed, using the lexicon:', error.message);
+    return lexicon;
+  }
+}
+
+module.exports = {
+  EMOTIONS,
+  EMOTION_NAMES,
+  EMOTION_PROTOTYPES,
+  analyzeWithLexicon,
+  analyzeEmotion
+};
@@ -0,0 +1,119 @@
+const ENTITY_KINDS = ['person', 'organization', 'place', 'project'];
+
+const MAX_ENTITY_MEMORIES = 10;
+
+// Finds or creates each entity and links it to the memory that mentions it
+async function linkMemoryEntities(supabase, { userId, memoryId, entities }) {
+  if (!entities || entities.length === 0) return [];
+
+  const { data: rows, error: entityError } = await supabase
+    .from('entities')
+    .upsert(
+      entities.map(entity => ({
+        user_id: userId,
+        name: entity.name,
+        kind: entity.kind,
+        updated_at: new Date().toISOString()
+      })),
+      { onConflict: 'user_id,kind,normalized_name' }
+    )
+    .select('id, name, kind');
+  if (entityError) throw entityError;
+
+  const { error: linkError } = await supabase
+    .from('memory_entities')
+    .upsert(
+      rows.map(row => {
+        const entity = entities.find(e => e.kind === row.kind && e.name.toLowerCase() === row.name.toLowerCase());
+        return {
+          memory_id: memoryId,
+          entity_id: row.id,
+          user_id: userId,
+          relation: entity?.relation || null
+        };
+      }),
+      { onConflict: 'memory_id,entity_id' }
+    );
+  if (linkError) throw linkError;
+
+  return rows;
+}
+
+// Copies entity links from merged duplicates onto the memory that replaces them
+async function moveMemoryEntities(supabase, fromMemoryIds, toMemoryId) {
+  const { data: links, error } = await supabase
+    .from('memory_entities')
+    .select('entity_id, user_id, relation')
+    .in('memory_id', fromMemoryIds);
+  if (error) throw error;
+  if (!links || links.length === 0) return;
+
+  const { error: upsertError } = await supabase
+    .from('memory_entities')
+    .upsert(
+      links.map(link => ({ ...link, memory_id: toMemoryId })),
+      { onConflict: 'memory_id,entity_id', ignoreDuplicates: true }
+    );
+  if (upsertError) throw upsertError;
+}
+
+function escapeRegExp(text) {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Entities named in `text`, each with the active memories that mention them.
+// Mentioning "Priya" pulls in everything known about Priya.
+async function findMentionedEntities(supabase, text) {
+  if (!text || !text.trim()) return [];
+
+  const { data: entities, error } = await supabase
+    .from('entities')
+    .select('id, name, kind');
+  if (error) throw error;
+
+  const mentioned = (entities || []).filter(entity =>
+    new RegExp(`(^|[^\\p{L}\\p{N}])${escapeRegExp(entity.name)}($|[^\\p{L}\\p{N}])`, 'iu').test(text)
+  );
+  if (mentioned.length === 0) return [];
+
+  const { data: links, error: linkError } = await supabase
+    .from('memory_entities')
+    .select('entity_id, relation, memories!inner(id, content, importance, tags, status, created_at)')
+    .in('entity_id', mentioned.map(entity => entity.id))
+    .eq('memories.status', 'active')
+    .order('created_at', { ascending: false });
+  if (linkError) throw linkError;
+
+  return mentioned.map(entity => {
+    const entityLinks = (links || []).filter(link => link.entity_id === entity.id);
+    return {
+      ...entity,
+      relation: entityLinks.find(link => link.relation)?.relation || null,
+      memories: entityLinks.map(link => link.memories).slice(0, MAX_ENTITY_MEMORIES)
+    };
+  }).filter(entity => entity.memories.length > 0);
+}
+
+// Memories already in the prompt through the pinned/relevant blocks are skipped
+function formatEntityContext(entities, shownMemories = []) {
+  const shownIds = new Set(shownMemories.map(m => m.id));
+
+  const sections = entities.map(entity => {
+    const memories = entity.memories.filter(m => !shownIds.has(m.id));
+    if (memories.length === 0) return null;
+
+    const label = entity.relation ? `${entity.kind}, ${entity.relation}` : entity.kind;
+    return `${entity.name} (${label}):\n${memories.map(m => `- ${m.content}`).join('\n')}`;
+  }).filter(Boolean);
+
+  if (sections.length === 0) return '';
+  return `\n\nWhat you know about people, places and projects the user just mentioned:\n${sections.join('\n')}`;
+}
+
+module.exports = {
+  ENTITY_KINDS,
+  linkMemoryEntities,
+  moveMemoryEntities,
+  findMentionedEntities,
+  formatEntityContext
+};
@@ -0,0 +1,211 @@
+const { insertMemory } = require('./memories');
+const { ENTITY_KINDS, linkMemoryEntities } = require('./entities');
+const { getModel } = require('./llm');
+
+const IMPORTANCE_LEVELS = ['low', 'medium', 'high'];
+
+const MEMORY_CATEGORIES = [
+  'preference',
+  'goal',
+  'life_event',
+  'skill',
+  'relationship',
+  'career',
+  'challenge',
+  'value',
+  'other'
+];
+
+// Structured output schema the model must follow. `strict` makes OpenAI
+// enforce it; validateExtractedMemories() re-checks it before anything is stored.
+const EXTRACTION_SCHEMA = {
+  type: 'object',
+  additionalProperties: false,
+  required: ['memories'],
+  properties: {
+    memories: {
+      type: 'array',
+      items: {
+        type: 'object',
+        additionalProperties: false,
+        required: ['content', 'importance', 'tags', 'category', 'entities'],
+        properties: {
+          content: { type: 'string' },
+          importance: { type: 'string', enum: IMPORTANCE_LEVELS },
+          tags: { type: 'array', items: { type: 'string' } },
+          category: { type: 'string', enum: MEMORY_CATEGORIES },
+          entities: {
+            type: 'array',
+            items: {
+              type: 'object',
+              additionalProperties: false,
+              required: ['name', 'kind', 'relation'],
+              properties: {
+                name: { type: 'string' },
+                kind: { type: 'string', enum: ENTITY_KINDS },
+                relation: { type: 'string' }
+              }
+            }
+          }
+        }
+      }
+    }
+  }
+};
+
+const EXTRACTION_PROMPT = `You are Zoxaa's memory extraction system. Analyze the latest conversation turn and extract important memories about the user that should be stored for future reference.
+
+Extract information about:
+- User preferences, goals, and aspirations
+- Important life events or plans
+- Skills, interests, and hobbies
+- Relationships and social connections
+- Professional background and career goals
+- Personal challenges or concerns
+- Decision-making patterns
+- Values and beliefs
+
+Rules:
+- Write each memory as a clear, self-contained third-person statement ("User is interested in transitioning from marketing to product management")
+- Only record facts about the user, never about Zoxaa or general knowledge
+- Skip small talk, greetings and anything already obvious from a single word
+- Use at most 5 short lowercase tags per memory
+- List the people, organizations, places and projects each memory mentions as entities, using their proper name ("Priya", not "my sister") and putting how they relate to the user in relation ("sister", "employer", "hometown", or "" if unclear)
+- Return an empty list when nothing is worth remembering`;
+
+function validateExtractedMemories(payload) {
+  if (!payload || typeof payload !== 'object' || !Array.isArray(payload.memories)) {
+    throw new Error('Extraction output is missing the memories array');
+  }
+
+  return payload.memories.filter(memory => {
+    const valid = memory
+      && typeof memory.content === 'string'
+      && memory.content.trim().length > 0
+      && IMPORTANCE_LEVELS.includes(memory.importance)
+      && MEMORY_CATEGORIES.includes(memory.category)
+      && Array.isArray(memory.tags)
+      && memory.tags.every(tag => typeof tag === 'string');
+
+    if (!valid) {
+      console.warn('⚠️ Dropping memory that does not match the extraction schema:', memory);
+    }
+    return valid;
+  }).map(memory => ({
+    content: memory.content.trim(),
+    importance: memory.importance,
+    category: memory.category,
+    tags: [...new Set(memory.tags.map(tag => tag.trim().toLowerCase()).filter(Boolean))].slice(0, 5),
+    entities: validateEntities(memory.entities)
+  }));
+}
+
+// Entities are optional: malformed ones are dropped rather than failing the memory
+function validateEntities(entities) {
+  if (!Array.isArray(entities)) return [];
+
+  const seen = new Set();
+  return entities.filter(entity => {
+    if (!entity || typeof entity.name !== 'string' || !entity.name.trim() || !ENTITY_KINDS.includes(entity.kind)) {
+      return false;
+    }
+    const key = `${entity.kind}:${entity.name.trim().toLowerCase()}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  }).map(entity => ({
+    name: entity.name.trim(),
+    kind: entity.kind,
+    relation: typeof entity.relation === 'string' && entity.relation.trim() ? entity.relation.trim().toLowerCase() : null
+  })).slice(0, 5);
+}
+
+async function extractMemories(openai, messages) {
+  const transcript = messages
+    .map(m => `${m.role === 'user' ? 'User' : 'Zoxaa'}: ${m.content}`)
+    .join('\n\n');
+
+  const completion = await openai.chat.completions.create({
+    model: getModel('extraction'),
+    temperature: 0.2,
+    messages: [
+      { role: 'system', content: EXTRACTION_PROMPT },
+      { role: 'user', content: `Conversation on ${new Date().toDateString()}:\n\n${transcript}` }
+    ],
+    response_format: {
+      type: 'json_schema',
+      json_schema: { name: 'extracted_memories', strict: true, schema: EXTRACTION_SCHEMA }
+    }
+  });
+
+  const content = completion.choices[0].message.content;
+  return validateExtractedMemories(JSON.parse(content || '{}'));
+}
+
+const MAX_EXCERPT_LENGTH = 500;
+
+// The turn a memory came from, shown next to it in the review inbox
+function buildSourceExcerpt(messages) {
+  const excerpt = messages
+    .map(m => `${m.role === 'user' ? 'You' : 'Zoxaa'}: ${m.content}`)
+    .join('\n');
+  return excerpt.length > MAX_EXCERPT_LENGTH
+    ? `${excerpt.substring(0, MAX_EXCERPT_LENGTH - 3)}...`
+    : excerpt;
+}
+
+async function isMemoryReviewEnabled(supabase, userId) {
+  const { data, error } = await supabase
+    .from('profiles')
+    .select('memory_review_enabled')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data?.memory_review_enabled === true;
+}
+
+// Runs extraction over one conversation turn and stores every memory it finds.
+// With review mode on, memories stay pending until the user accepts them.
+async function extractAndStoreMemories(supabase, openai, { userId, conversationId, messages, emotionContext = null, includeEmbeddings = false }) {
+  const extracted = await extractMemories(openai, messages);
+  if (extracted.length === 0) return [];
+
+  const context = `Conversation on ${new Date().toLocaleDateString()}`;
+  const status = await isMemoryReviewEnabled(supabase, userId) ? 'pending' : 'active';
+  const sourceExcerpt = buildSourceExcerpt(messages);
+
+  const stored = [];
+  for (const memory of extracted) {
+    const inserted = await insertMemory(supabase, openai, {
+      user_id: userId,
+      conversation_id: conversationId,
+      content: memory.content,
+      importance: memory.importance,
+      tags: memory.tags,
+      category: memory.category,
+      context,
+      emotion_context: emotionContext,
+      status,
+      source_excerpt: sourceExcerpt
+    }, { skipIfSuppressed: true, withEmbedding: includeEmbeddings });
+
+    if (!inserted) continue;
+
+    try {
+      await linkMemoryEntities(supabase, { userId, memoryId: inserted.id, entities: memory.entities });
+    } catch (error) {
+      console.error('⚠️ Failed to link memory entities:', error.message);
+    }
+    stored.push({ ...inserted, entities: memory.entities });
+  }
+  return stored;
+}
+
+module.exports = {
+  EXTRACTION_SCHEMA,
+  MEMORY_CATEGORIES,
+  validateExtractedMemories,
+  extractMemories,
+  extractAndStoreMemories
+};
@@ -0,0 +1,104 @@
+// Crisis lines shown when a user may be at risk, keyed by ISO 3166 country
+// code. Each line has at least one way to reach it: `phone`, `text` (an SMS
+// number, with the keyword to send) or `url`. Numbers are free to call unless
+// noted; check them against the services' own sites when editing.
+const HELPLINES = {
+  IN: {
+    name: 'India',
+    emergencyNumber: '112',
+    helplines: [
+      { name: 'Tele-MANAS', phone: '14416', hours: '24/7', description: 'Government mental health helpline, many languages' },
+      { name: 'KIRAN', phone: '1800-599-0019', hours: '24/7', description: 'National mental health rehabilitation helpline' }
+    ]
+  },
+  US: {
+    name: 'United States',
+    emergencyNumber: '911',
+    helplines: [
+      { name: '988 Suicide & Crisis Lifeline', phone: '988', text: { number: '988' }, url: 'https://988lifeline.org', hours: '24/7' },
+      { name: 'Crisis Text Line', text: { number: '741741', message: 'HOME' }, hours: '24/7' }
+    ]
+  },
+  CA: {
+    name: 'Canada',
+    emergencyNumber: '911',
+    helplines: [
+      { name: '9-8-8 Suicide Crisis Helpline', phone: '988', text: { number: '988' }, url: 'https://988.ca', hours: '24/7' }
+    ]
+  },
+  GB: {
+    name: 'United Kingdom',
+    emergencyNumber: '999',
+    helplines: [
+      { name: 'Samaritans', phone: '116 123', url: 'https://www.samaritans.org', hours: '24/7' },
+      { name: 'Shout', text: { number: '85258', message: 'SHOUT' }, hours: '24/7' }
+    ]
+  },
+  IE: {
+    name: 'Ireland',
+    emergencyNumber: '112',
+    helplines: [
+      { name: 'Samaritans', phone: '116 123', url: 'https://www.samaritans.org', hours: '24/7' },
+      { name: '50808', text: { number: '50808', message: 'HELLO' }, hours: '24/7' }
+    ]
+  },
+  AU: {
+    name: 'Australia',
+    emergencyNumber: '000',
+    helplines: [
+      { name: 'Lifeline', phone: '13 11 14', text: { number: '0477 13 11 14' }, url: 'https://www.lifeline.org.au', hours: '24/7' }
+    ]
+  },
+  NZ: {
+    name: 'New Zealand',
+    emergencyNumber: '111',
+    helplines: [
+      { name: 'Need to talk? 1737', phone: '1737', text: { number: '1737' }, hours: '24/7' }
+    ]
+  }
+};
+
+// Used when the country is unknown or not listed above
+const INTERNATIONAL = {
+  name: 'International',
+  emergencyNumber: null,
+  helplines: [
+    { name: 'Find A Helpline', url: 'https://findahelpline.com', hours: 'Directory of free, confidential lines in over 130 countries' }
+  ]
+};
+
+const SUPPORTED_COUNTRIES = Object.entries(HELPLINES).map(([code, { name }]) => ({ code, name }));
+
+const normalizeCountry = code => {
+  const upper = String(code || '').trim().toUpperCase();
+  return /^[A-Z]{2}$/.test(upper) ? upper : null;
+};
+
+// "en-IN" -> "IN"; a bare language such as "en" has no country
+function countryFromLocale(locale) {
+  const region = String(locale || '').split(/[-_]/)[1];
+  return normalizeCountry(region);
+}
+
+// The profile's country wins over the browser locale
+function resolveCountry({ profileCountry = null, locale = null } = {}) {
+  return normalizeCountry(profileCountry) || countryFromLocale(locale);
+}
+
+function getHelplineDirectory(countryCode) {
+  const country = normalizeCountry(countryCode);
+  const entry = (country && HELPLINES[country]) || INTERNATIONAL;
+  return {
+    country: HELPLINES[country] ? country : null,
+    countryName: entry.name,
+    emergencyNumber: entry.emergencyNumber,
+    helplines: [...entry.helplines, ...(entry === INTERNATIONAL ? [] : INTERNATIONAL.helplines)]
+  };
+}
+
+module.exports = {
+  SUPPORTED_COUNTRIES,
+  countryFromLocale,
+  resolveCountry,
+  getHelplineDirectory
+};
@@ -0,0 +1,126 @@
+const { OpenAI, AzureOpenAI } = require('openai');
+const { createMockClient } = require('./mockLLM');
+
+// LLM_PROVIDER picks the backend every route talks to. All of them expose the
+// OpenAI SDK surface (chat.completions, embeddings, audio), so the handlers and
+// lib functions never need to know which one is in use.
+//   openai      api.openai.com (default)
+//   azure       Azure OpenAI; model names below are deployment names
+//   compatible  any OpenAI-compatible server, e.g. llama.cpp or Ollama
+//   mock        deterministic in-process responses, no network
+const PROVIDERS = ['openai', 'azure', 'compatible', 'mock'];
+
+// Model per route, each overridable with its environment variable
+const MODEL_SETTINGS = {
+  chat: { env: 'CHAT_MODEL', fallback: 'gpt-4' },
+  extraction: { env: 'EXTRACTION_MODEL', fallback: 'gpt-4o-mini' },
+  planning: { env: 'PLAN_MODEL', fallback: 'gpt-4o-mini' },
+  summary: { env: 'SUMMARY_MODEL', fallback: 'gpt-4o-mini' },
+  moderation: { env: 'MODERATION_MODEL', fallback: 'omni-moderation-latest' },
+  embeddings: { env: 'EMBEDDING_MODEL', fallback: 'text-embedding-3-small' },
+  transcription: { env: 'TRANSCRIPTION_MODEL', fallback: 'whisper-1' },
+  speech: { env: 'TTS_MODEL', fallback: 'tts-1' }
+};
+
+const DEFAULT_AZURE_API_VERSION = '2024-10-21';
+
+// Tokens a whole chat request (prompt, history and reply) may use per model.
+// Deliberately below each context window to keep long sessions affordable.
+// CONTEXT_TOKEN_BUDGETS overrides them, e.g. "gpt-4=6000,llama3.1=24000"
+const CONTEXT_BUDGETS = {
+  'gpt-4': 6000,
+  'gpt-4-turbo': 16000,
+  'gpt-4o': 16000,
+  'gpt-4o-mini': 16000,
+  'gpt-4.1': 16000,
+  'gpt-4.1-mini': 16000,
+  'gpt-3.5-turbo': 12000
+};
+const DEFAULT_CONTEXT_BUDGET = 4000;
+
+function getProviderName() {
+  return (process.env.LLM_PROVIDER || 'openai').trim().toLowerCase();
+}
+
+function getModel(route) {
+  const setting = MODEL_SETTINGS[route];
+  if (!setting) throw new Error(`Unknown model route: ${route}`);
+  return process.env[setting.env] || setting.fallback;
+}
+
+function getContextBudget(model) {
+  const overrides = Object.fromEntries(
+    (process.env.CONTEXT_TOKEN_BUDGETS || '')
+      .split(',')
+      .map(entry => entry.split('=').map(part => part.trim()))
+      .filter(([name, tokens]) => name && Number(tokens) > 0)
+      .map(([name, tokens]) => [name, Math.floor(Number(tokens))])
+  );
+  return overrides[model] || CONTEXT_BUDGETS[model] || DEFAULT_CONTEXT_BUDGET;
+}
+
+// Returns null when the configured provider can be used, otherwise the
+// { error, details } body handlers send back with a 500
+function getProviderConfigError() {
+  const provider = getProviderName();
+
+  switch (provider) {
+    case 'openai':
+      if (process.env.OPENAI_API_KEY) return null;
+      return {
+        error: 'OpenAI API key not configured',
+        details: 'Please set OPENAI_API_KEY environment variable'
+      };
+    case 'azure':
+      if (process.env.AZURE_OPENAI_API_KEY && process.env.AZURE_OPENAI_ENDPOINT) return null;
+      return {
+        error: 'Azure OpenAI not configured',
+        details: 'Please set AZURE_OPENAI_API_KEY and AZURE_OPENAI_ENDPOINT environment variables'
+      };
+    case 'compatible':
+      if (process.env.LLM_BASE_URL) return null;
+      return {
+        error: 'LLM base URL not configured',
+        details: 'Please set LLM_BASE_URL to your OpenAI-compatible server, e.g. http://localhost:11434/v1'
+      };
+    case 'mock':
+      return null;
+    default:
+      return {
+        error: 'Unknown LLM provider',
+        details: `LLM_PROVIDER must be one of: ${PROVIDERS.join(', ')}`
+      };
+  }
+}
+
+function createLLMClient() {
+  const provider = getProviderName();
+
+  switch (provider) {
+    case 'azure':
+      return new AzureOpenAI({
+        apiKey: process.env.AZURE_OPENAI_API_KEY,
+        endpoint: process.env.AZURE_OPENAI_ENDPOINT,
+        apiVersion: process.env.AZURE_OPENAI_API_VERSION || DEFAULT_AZURE_API_VERSION
+      });
+    case 'compatible':
+      // Local servers usually ignore the key, but the SDK requires one
+      return new OpenAI({
+        apiKey: process.env.LLM_API_KEY || 'not-needed',
+        baseURL: process.env.LLM_BASE_URL
+      });
+    case 'mock':
+      return createMockClient();
+    default:
+      return new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+  }
+}
+
+module.exports = {
+  PROVIDERS,
+  getProviderName,
+  getModel,
+  getContextBudget,
+  getProviderConfigError,
+  createLLMClient
+};
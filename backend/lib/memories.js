@@ -0,0 +1,196 @@
+const { getModel } = require('./llm');
+
+async function generateEmbedding(openai, text) {
+  const result = await openai.embeddings.create({
+    model: getModel('embeddings'),
+    input: text
+  });
+  return result.data[0].embedding;
+}
+
+// pgvector accepts the '[x,y,z]' text form through PostgREST
+function toVectorLiteral(embedding) {
+  return JSON.stringify(embedding);
+}
+
+const IMPORTANCE_LEVELS = ['low', 'medium', 'high'];
+
+const MEMORY_COLUMNS = 'id, content, context, importance, tags, category, pinned, status, source_excerpt, conversation_id, created_at';
+
+// True when the user asked Zoxaa to never remember something like this
+async function isSuppressed(supabase, content, embedding) {
+  const { data, error } = await supabase.rpc('is_memory_suppressed', {
+    query_embedding: embedding,
+    query_content: content
+  });
+
+  if (error) throw error;
+  return data === true;
+}
+
+// Inserts a memory row together with its embedding. Embedding failures are
+// logged and the memory is stored without one rather than being lost.
+// With `skipIfSuppressed`, returns null instead of storing a suppressed memory.
+// With `withEmbedding`, the returned row carries the embedding as an array.
+async function insertMemory(supabase, openai, memory, { skipIfSuppressed = false, withEmbedding = false } = {}) {
+  let vector = null;
+  let embedding = null;
+  try {
+    vector = await generateEmbedding(openai, memory.content);
+    embedding = toVectorLiteral(vector);
+  } catch (error) {
+    console.error('⚠️ Failed to embed memory, storing without embedding:', error.message);
+  }
+
+  if (skipIfSuppressed && await isSuppressed(supabase, memory.content, embedding)) {
+    console.log('🙈 Skipping suppressed memory:', memory.content.substring(0, 50));
+    return null;
+  }
+
+  const { data, error } = await supabase
+    .from('memories')
+    .insert({ ...memory, embedding })
+    .select(MEMORY_COLUMNS)
+    .single();
+
+  if (error) throw error;
+  return withEmbedding ? { ...data, embedding: vector } : data;
+}
+
+const isTagList = tags => Array.isArray(tags) && tags.every(tag => typeof tag === 'string');
+
+const normalizeTags = tags => [...new Set(tags.map(tag => tag.trim().toLowerCase()).filter(Boolean))];
+
+// Picks a new memory's fields out of a POST body, or returns an error message
+function parseNewMemory(body) {
+  const { content, context = null, importance = 'low', tags = [], emotion_context = null, conversation_id = null } = body || {};
+
+  if (typeof content !== 'string' || !content.trim()) return 'content parameter is required';
+  if (!isTagList(tags)) return 'tags must be an array of strings';
+  if (!IMPORTANCE_LEVELS.includes(importance)) return 'importance must be low, medium or high';
+
+  return { content: content.trim(), context, importance, tags: normalizeTags(tags), emotion_context, conversation_id };
+}
+
+// Picks the user-editable fields out of a PATCH body, or returns an error message
+function parseMemoryUpdates(body) {
+  const updates = {};
+  const { content, tags, importance, pinned, status } = body || {};
+
+  if (content !== undefined) {
+    if (typeof content !== 'string' || !content.trim()) return 'content must be a non-empty string';
+    updates.content = content.trim();
+  }
+  if (tags !== undefined) {
+    if (!isTagList(tags)) return 'tags must be an array of strings';
+    updates.tags = normalizeTags(tags);
+  }
+  if (importance !== undefined) {
+    if (!IMPORTANCE_LEVELS.includes(importance)) return 'importance must be low, medium or high';
+    updates.importance = importance;
+  }
+  if (pinned !== undefined) {
+    if (typeof pinned !== 'boolean') return 'pinned must be a boolean';
+    updates.pinned = pinned;
+  }
+  // Pending memories are accepted by moving them to active; rejecting deletes them
+  if (status !== undefined) {
+    if (status !== 'active') return 'status can only be set to active';
+    updates.status = status;
+  }
+
+  return Object.keys(updates).length ? updates : 'No editable fields provided';
+}
+
+// Applies user edits to a memory, re-embedding it when the content changes
+async function updateMemory(supabase, openai, memoryId, updates) {
+  const changes = { ...updates, updated_at: new Date().toISOString() };
+
+  if (typeof updates.content === 'string') {
+    try {
+      changes.embedding = toVectorLiteral(await generateEmbedding(openai, updates.content));
+    } catch (error) {
+      console.error('⚠️ Failed to re-embed edited memory:', error.message);
+      changes.embedding = null;
+    }
+  }
+
+  const { data, error } = await supabase
+    .from('memories')
+    .update(changes)
+    .eq('id', memoryId)
+    .select(MEMORY_COLUMNS)
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+// Memories the user pinned are included in every prompt
+async function findPinnedMemories(supabase) {
+  const { data, error } = await supabase
+    .from('memories')
+    .select(MEMORY_COLUMNS)
+    .eq('pinned', true)
+    .eq('status', 'active')
+    .order('updated_at', { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+}
+
+// Top-k memories for the user behind `supabase`, ranked by the match_memories RPC
+async function findRelevantMemories(supabase, openai, query, { limit = 5, minSimilarity = 0.25 } = {}) {
+  if (!query || !query.trim()) return [];
+
+  const embedding = await generateEmbedding(openai, query);
+  const { data, error } = await supabase.rpc('match_memories', {
+    query_embedding: toVectorLiteral(embedding),
+    match_count: limit,
+    min_similarity: minSimilarity
+  });
+
+  if (error) throw error;
+  return data || [];
+}
+
+// Records that these memories were injected into a prompt, which feeds the
+// recency and frequency parts of the match_memories score
+async function markMemoriesAccessed(supabase, memoryIds) {
+  const ids = [...new Set(memoryIds)];
+  if (ids.length === 0) return;
+
+  const { error } = await supabase.rpc('mark_memories_accessed', { memory_ids: ids });
+  if (error) throw error;
+}
+
+function formatMemoryLine(memory) {
+  const tags = memory.tags?.length ? `, tags: ${memory.tags.join(', ')}` : '';
+  return `- ${memory.content} (${memory.importance} importance${tags})`;
+}
+
+function formatMemoryContext(memories, pinnedMemories = []) {
+  const pinnedIds = new Set(pinnedMemories.map(m => m.id));
+  const relevant = memories.filter(m => !pinnedIds.has(m.id));
+
+  let context = '';
+  if (pinnedMemories.length) {
+    context += `\n\nThe user asked you to always keep these in mind:\n${pinnedMemories.map(formatMemoryLine).join('\n')}`;
+  }
+  if (relevant.length) {
+    context += `\n\nRelevant memories about this user:\n${relevant.map(formatMemoryLine).join('\n')}`;
+  }
+  return context;
+}
+
+module.exports = {
+  generateEmbedding,
+  insertMemory,
+  parseNewMemory,
+  parseMemoryUpdates,
+  updateMemory,
+  findPinnedMemories,
+  findRelevantMemories,
+  markMemoriesAccessed,
+  formatMemoryContext
+};
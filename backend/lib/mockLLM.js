@@ -0,0 +1,162 @@
+// Deterministic stand-in for the OpenAI SDK, selected with LLM_PROVIDER=mock.
+// The same input always produces the same output, so the whole app can run
+// without a model or network access.
+const MOCK_MODEL = 'mock';
+
+// Matches the vector(1536) columns in the memories migrations
+const EMBEDDING_DIMENSIONS = 1536;
+
+function hashText(text) {
+  // FNV-1a
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// Unit-length pseudo-random vector seeded by the text (mulberry32)
+function mockEmbedding(text) {
+  let seed = hashText(text);
+  const values = Array.from({ length: EMBEDDING_DIMENSIONS }, () => {
+    seed = (seed + 0x6d2b79f5) >>> 0;
+    let t = seed;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296 - 0.5;
+  });
+  const norm = Math.sqrt(values.reduce((sum, value) => sum + value * value, 0));
+  return values.map(value => value / norm);
+}
+
+// Smallest value that satisfies a strict JSON schema: one item per array,
+// the first enum option, and "mock <field>" for free text
+function sampleFromSchema(schema, key = 'value') {
+  if (schema.enum) return schema.enum[0];
+
+  switch (schema.type) {
+    case 'object':
+      return Object.fromEntries(
+        Object.entries(schema.properties || {}).map(([name, property]) => [name, sampleFromSchema(property, name)])
+      );
+    case 'array':
+      return [sampleFromSchema(schema.items || {}, key)];
+    case 'number':
+    case 'integer':
+      return 0;
+    case 'boolean':
+      return false;
+    default:
+      return `mock ${key}`;
+  }
+}
+
+const estimateTokens = text => Math.ceil(text.length / 4);
+
+function buildReply(options) {
+  const schema = options.response_format?.json_schema?.schema;
+  if (schema) return JSON.stringify(sampleFromSchema(schema));
+
+  const lastUserMessage = [...(options.messages || [])].reverse().find(m => m.role === 'user');
+  const prompt = typeof lastUserMessage?.content === 'string' ? lastUserMessage.content : '';
+  return `This is a mock reply to: "${prompt.slice(0, 80)}"`;
+}
+
+function buildUsage(options, reply) {
+  const promptTokens = estimateTokens((options.messages || []).map(m => m.content || '').join('\n'));
+  const completionTokens = estimateTokens(reply);
+  return {
+    prompt_tokens: promptTokens,
+    completion_tokens: completionTokens,
+    total_tokens: promptTokens + completionTokens
+  };
+}
+
+function abortError() {
+  const error = new Error('Request was aborted.');
+  error.name = 'AbortError';
+  return error;
+}
+
+async function* streamReply(options, reply, signal, usage = buildUsage(options, reply)) {
+  const created = Math.floor(Date.now() / 1000);
+  const chunk = (choices, extra = {}) => ({ id: 'mock-stream', object: 'chat.completion.chunk', created, model: options.model || MOCK_MODEL, choices, ...extra });
+
+  for (const word of reply.match(/\S+\s*/g) || []) {
+    if (signal?.aborted) throw abortError();
+    yield chunk([{ index: 0, delta: { content: word }, finish_reason: null }]);
+  }
+  yield chunk([{ index: 0, delta: {}, finish_reason: 'stop' }]);
+
+  if (options.stream_options?.include_usage) {
+    yield chunk([], { usage });
+  }
+}
+
+function createMockClient() {
+  return {
+    chat: {
+      completions: {
+        async create(options, requestOptions = {}) {
+          const reply = buildReply(options);
+          if (options.stream) return streamReply(options, reply, requestOptions.signal);
+
+          return {
+            id: 'mock-completion',
+            object: 'chat.completion',
+            created: Math.floor(Date.now() / 1000),
+            model: options.model || MOCK_MODEL,
+            choices: [{ index: 0, message: { role: 'assistant', content: reply }, finish_reason: 'stop' }],
+            usage: buildUsage(options, reply)
+          };
+        }
+      }
+    },
+    // Never flags anything; the safety lexicon still applies
+    moderations: {
+      async create({ input, model }) {
+        const inputs = Array.isArray(input) ? input : [input];
+        return {
+          id: 'mock-moderation',
+          model: model || MOCK_MODEL,
+          results: inputs.map(() => ({ flagged: false, categories: {}, category_scores: {} }))
+        };
+      }
+    },
+    embeddings: {
+      async create({ input, model }) {
+        const inputs = Array.isArray(input) ? input : [input];
+        return {
+          object: 'list',
+          model: model || MOCK_MODEL,
+          data: inputs.map((text, index) => ({ object: 'embedding', index, embedding: mockEmbedding(String(text)) })),
+          usage: { prompt_tokens: 0, total_tokens: 0 }
+        };
+      }
+    },
+    audio: {
+      speech: {
+        // No audio is synthesised; callers get an empty mp3 body
+        async create() {
+          return { arrayBuffer: async () => new ArrayBuffer(0) };
+        }
+      },
+      transcriptions: {
+        async create() {
+          return { text: 'This is a mock transcription.' };
+        }
+      }
+    }
+  };
+}
+
+module.exports = {
+  MOCK_MODEL,
+  createMockClient,
+  mockEmbedding,
+  sampleFromSchema,
+  buildReply,
+  buildUsage,
+  streamReply
+};
@@ -0,0 +1,184 @@
+const { randomUUID } = require('crypto');
+const { getModel } = require('./llm');
+
+const PRIORITY_LEVELS = ['low', 'medium', 'high'];
+
+// Structured output schema for generated plan steps
+const PLAN_STEPS_SCHEMA = {
+  type: 'object',
+  additionalProperties: false,
+  required: ['steps'],
+  properties: {
+    steps: {
+      type: 'array',
+      items: {
+        type: 'object',
+        additionalProperties: false,
+        required: ['title', 'description', 'priority'],
+        properties: {
+          title: { type: 'string' },
+          description: { type: 'string' },
+          priority: { type: 'string', enum: PRIORITY_LEVELS }
+        }
+      }
+    }
+  }
+};
+
+const PLAN_PROMPT = `You are Zoxaa's strategic planning system. Create a detailed, actionable plan with specific steps.
+
+For each step, provide:
+1. A clear, specific title
+2. A detailed description of what needs to be done
+3. Estimated priority level (low, medium, high)
+4. Logical sequence and dependencies
+
+Make steps:
+- Specific and actionable
+- Realistic and achievable
+- Properly sequenced
+- Include both preparation and execution phases
+- Consider potential obstacles
+
+Example step:
+{
+  "title": "Research target companies in product management",
+  "description": "Create a list of 20 companies you'd like to work for, research their product teams, recent launches, and company culture. Use LinkedIn, company websites, and Glassdoor.",
+  "priority": "high"
+}`;
+
+function validatePlanSteps(payload) {
+  if (!payload || typeof payload !== 'object' || !Array.isArray(payload.steps)) {
+    throw new Error('Plan output is missing the steps array');
+  }
+
+  return payload.steps.filter(step =>
+    step
+    && typeof step.title === 'string'
+    && step.title.trim().length > 0
+    && typeof step.description === 'string'
+    && PRIORITY_LEVELS.includes(step.priority)
+  ).map(step => ({
+    title: step.title.trim(),
+    description: step.description.trim(),
+    priority: step.priority
+  }));
+}
+
+async function generatePlanSteps(openai, { title, description = '', goals = [] }) {
+  const completion = await openai.chat.completions.create({
+    model: getModel('planning'),
+    temperature: 0.3,
+    messages: [
+      { role: 'system', content: PLAN_PROMPT },
+      { role: 'user', content: `Plan Title: ${title}\nDescription: ${description}\nGoals: ${goals.join(', ')}` }
+    ],
+    response_format: {
+      type: 'json_schema',
+      json_schema: { name: 'plan_steps', strict: true, schema: PLAN_STEPS_SCHEMA }
+    }
+  });
+
+  const content = completion.choices[0].message.content;
+  return validatePlanSteps(JSON.parse(content || '{}'));
+}
+
+const PLAN_COLUMNS = 'id, title, description, goals, steps, status, category, completion_percentage, updated_at';
+
+// Same step shape the Plans tab keeps in useZoxaaPlans
+function newPlanStep({ title, description = '', priority = 'medium' }) {
+  return {
+    id: randomUUID(),
+    title: title.trim(),
+    description: description.trim(),
+    priority: PRIORITY_LEVELS.includes(priority) ? priority : 'medium',
+    completed: false
+  };
+}
+
+function calculateCompletion(steps) {
+  if (steps.length === 0) return 0;
+  return Math.round((steps.filter(step => step.completed).length / steps.length) * 100);
+}
+
+async function findPlan(supabase, planId) {
+  const { data, error } = await supabase
+    .from('plans')
+    .select(PLAN_COLUMNS)
+    .eq('id', planId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) throw new Error(`Plan ${planId} was not found`);
+  return data;
+}
+
+// A plan whose steps are all done is completed, and a completed plan that gets
+// a new step is active again. Paused and archived plans stay that way.
+function statusAfterSteps(status, completion) {
+  if (completion === 100) return 'completed';
+  return status === 'completed' ? 'active' : status;
+}
+
+// Writes new steps back with the completion percentage and status they imply
+async function saveSteps(supabase, plan, steps) {
+  const completion = calculateCompletion(steps);
+  const { data, error } = await supabase
+    .from('plans')
+    .update({
+      steps,
+      completion_percentage: completion,
+      status: statusAfterSteps(plan.status, completion),
+      updated_at: new Date().toISOString()
+    })
+    .eq('id', plan.id)
+    .select(PLAN_COLUMNS)
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+async function createPlan(supabase, userId, { title, description = '', goals = [], steps = [], category = null }) {
+  const planSteps = steps.map(newPlanStep);
+  const { data, error } = await supabase
+    .from('plans')
+    .insert({
+      user_id: userId,
+      title: title.trim(),
+      description: description.trim(),
+      goals,
+      steps: planSteps,
+      category,
+      status: 'active',
+      completion_percentage: 0
+    })
+    .select(PLAN_COLUMNS)
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+async function addPlanStep(supabase, planId, step) {
+  const plan = await findPlan(supabase, planId);
+  return saveSteps(supabase, plan, [...(plan.steps || []), newPlanStep(step)]);
+}
+
+async function completePlanStep(supabase, planId, stepId) {
+  const plan = await findPlan(supabase, planId);
+  const steps = plan.steps || [];
+  if (!steps.some(step => step.id === stepId)) {
+    throw new Error(`Step ${stepId} is not part of plan ${planId}`);
+  }
+  return saveSteps(supabase, plan, steps.map(step => step.id === stepId ? { ...step, completed: true } : step));
+}
+
+module.exports = {
+  PLAN_STEPS_SCHEMA,
+  validatePlanSteps,
+  generatePlanSteps,
+  createPlan,
+  addPlanStep,
+  completePlanStep
+};
@@ -0,0 +1,147 @@
+const { getModel, getProviderName } = require('./llm');
+const { SUPPORTED_COUNTRIES, getHelplineDirectory, resolveCountry } = require('./helplines');
+
+// Risk levels, lowest first. `elevated` is deep distress (Tier 2 in the
+// persona prompt); `crisis` is stated intent or a plan to end one's life
+// (Tier 3), which gets the fixed crisis reply instead of a model answer.
+const RISK_LEVELS = ['none', 'elevated', 'crisis'];
+
+// First-person statements of intent. Matching is deliberately broad: showing
+// helplines to someone who didn't need them costs far less than missing one.
+// Idioms like "die of boredom", "die laughing" or ending it with a partner
+// are left to the moderation model.
+const CRISIS_PATTERNS = [
+  /\b(kill|hang|shoot|poison|drown) myself\b/,
+  /\b(end|take) my (own )?life\b/,
+  /\bi('m| am)? (going|planning|want|wanna) to (die(?! (of|from|laughing|happy)\b)|end it all|end it(?! (with|between)\b))\b/,
+  /\bi want to die(?! (of|from|laughing|happy)\b)\b/,
+  /\b(commit|committing) suicide\b/,
+  /\bsuicide (note|plan)\b/,
+  /\b(don't|do not) want to (live|be alive|exist) any ?more\b/,
+  /\bno reason to (live|keep living)\b/
+];
+
+const DISTRESS_PATTERNS = [
+  /\bsuicid(e|al)\b/,
+  /\b(hurt|harm|cut|cutting) myself\b/,
+  /\bself[- ]harm\b/,
+  /\bbetter off (dead|without me)\b/,
+  /\bcan't (go on|take (it|this) any ?more)\b/,
+  /\b(hopeless|worthless)\b/,
+  /\bno point (in )?(living|anything|trying)\b/,
+  /\bwish i (was|were|wasn't|weren't) (dead|here|born|alive)\b/
+];
+
+const maxLevel = (a, b) => (RISK_LEVELS.indexOf(a) >= RISK_LEVELS.indexOf(b) ? a : b);
+
+function assessWithLexicon(text) {
+  const normalized = String(text || '').toLowerCase().replace(/[’‘]/g, "'").replace(/\bcant\b/g, "can't").replace(/\bdont\b/g, "don't");
+  if (CRISIS_PATTERNS.some(pattern => pattern.test(normalized))) return 'crisis';
+  if (DISTRESS_PATTERNS.some(pattern => pattern.test(normalized))) return 'elevated';
+  return 'none';
+}
+
+// Only OpenAI (and the mock) serve the moderation endpoint; other providers
+// rely on the lexicon alone
+const supportsModeration = () => ['openai', 'mock'].includes(getProviderName());
+
+async function assessWithModeration(openai, text) {
+  const moderation = await openai.moderations.create({ model: getModel('moderation'), input: text });
+  const { categories = {} } = moderation.results?.[0] || {};
+
+  if (categories['self-harm/intent'] || categories['self-harm/instructions']) return 'crisis';
+  if (categories['self-harm']) return 'elevated';
+  return 'none';
+}
+
+// Risk of one user message: the higher of the lexicon and the moderation
+// model. A failed moderation call falls back to the lexicon result.
+async function classifyRisk(openai, text) {
+  const lexiconLevel = assessWithLexicon(text);
+  if (lexiconLevel === 'crisis' || !supportsModeration()) {
+    return { level: lexiconLevel, source: 'lexicon' };
+  }
+
+  try {
+    const moderationLevel = await assessWithModeration(openai, text);
+    return {
+      level: maxLevel(lexiconLevel, moderationLevel),
+      source: maxLevel(lexiconLevel, moderationLevel) === lexiconLevel ? 'lexicon' : 'moderation'
+    };
+  } catch (error) {
+    console.error('⚠️ Risk classification failed, using the lexicon only:', error.message);
+    return { level: lexiconLevel, source: 'lexicon' };
+  }
+}
+
+async function findProfileCountry(supabase, userId) {
+  const { data, error } = await supabase
+    .from('profiles')
+    .select('country_code')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data?.country_code || null;
+}
+
+// Helplines for the user's profile country, else their browser locale.
+// Never throws: a failed profile lookup still yields a directory
+async function findHelplines(supabase, userId, locale = null) {
+  let profileCountry = null;
+  try {
+    profileCountry = await findProfileCountry(supabase, userId);
+  } catch (error) {
+    console.error('⚠️ Profile country lookup failed, using the locale:', error.message);
+  }
+  return getHelplineDirectory(resolveCountry({ profileCountry, locale }));
+}
+
+// Body of GET /api/safety/helplines: one country's lines (the requested
+// one, else the user's) plus every country the directory covers
+async function getHelplineOptions(supabase, userId, { country = null, locale = null } = {}) {
+  const directory = country
+    ? getHelplineDirectory(country)
+    : await findHelplines(supabase, userId, locale);
+  return { ...directory, countries: SUPPORTED_COUNTRIES };
+}
+
+const describeHelpline = ({ name, phone, text, url, hours }) => {
+  const ways = [
+    phone && `call ${phone}`,
+    text && `text ${text.message ? `${text.message} to ` : ''}${text.number}`,
+    !phone && !text && url
+  ].filter(Boolean);
+  return `- ${name}: ${ways.join(' or ')}${hours ? ` (${hours})` : ''}`;
+};
+
+// Helplines as prompt or reply text, one line each
+function formatHelplines(directory) {
+  return directory.helplines.map(describeHelpline).join('\n');
+}
+
+// The reply sent instead of a model answer when a message is classified as
+// crisis. Fixed text, so nothing in the conversation can talk it out of
+// pointing to help
+function buildCrisisReply(directory) {
+  const emergency = directory.emergencyNumber
+    ? `If you are in immediate danger or might act on these thoughts, please call ${directory.emergencyNumber} now.`
+    : 'If you are in immediate danger or might act on these thoughts, please call your local emergency number now.';
+
+  return [
+    "I'm really glad you told me, and I'm taking what you said seriously. You don't have to carry this alone, and you deserve support from someone trained to help right now.",
+    `Please reach out to one of these, they're free and confidential:\n${formatHelplines(directory)}`,
+    emergency,
+    "I'm here with you. Would you be willing to contact one of them while we keep talking?"
+  ].join('\n\n');
+}
+
+module.exports = {
+  RISK_LEVELS,
+  assessWithLexicon,
+  classifyRisk,
+  findHelplines,
+  getHelplineOptions,
+  formatHelplines,
+  buildCrisisReply
+};
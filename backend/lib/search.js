@@ -0,0 +1,140 @@
+const fs = require('fs');
+const defaultFixtures = require('./fixtures/search.json');
+
+// SEARCH_PROVIDER picks where the chat model's web_search tool looks things
+// up. Every provider returns the same { title, url, snippet } results.
+//   none    web search is off and the tool is not offered (default)
+//   tavily  Tavily Search API, needs TAVILY_API_KEY
+//   brave   Brave Search API, needs BRAVE_SEARCH_API_KEY
+//   local   keyword match over a fixture file, no network
+const SEARCH_PROVIDERS = ['none', 'tavily', 'brave', 'local'];
+
+const DEFAULT_RESULT_LIMIT = 5;
+const SNIPPET_LENGTH = 400;
+
+function getSearchProviderName() {
+  return (process.env.SEARCH_PROVIDER || 'none').trim().toLowerCase();
+}
+
+function isSearchEnabled() {
+  return getSearchProviderName() !== 'none' && !getSearchConfigError();
+}
+
+// Same contract as getProviderConfigError in llm.js
+function getSearchConfigError() {
+  const provider = getSearchProviderName();
+
+  switch (provider) {
+    case 'none':
+    case 'local':
+      return null;
+    case 'tavily':
+      if (process.env.TAVILY_API_KEY) return null;
+      return {
+        error: 'Tavily API key not configured',
+        details: 'Please set TAVILY_API_KEY environment variable'
+      };
+    case 'brave':
+      if (process.env.BRAVE_SEARCH_API_KEY) return null;
+      return {
+        error: 'Brave Search API key not configured',
+        details: 'Please set BRAVE_SEARCH_API_KEY environment variable'
+      };
+    default:
+      return {
+        error: 'Unknown search provider',
+        details: `SEARCH_PROVIDER must be one of: ${SEARCH_PROVIDERS.join(', ')}`
+      };
+  }
+}
+
+const trimSnippet = text => {
+  const clean = String(text || '').replace(/\s+/g, ' ').trim();
+  return clean.length > SNIPPET_LENGTH ? `${clean.slice(0, SNIPPET_LENGTH - 1)}…` : clean;
+};
+
+async function readSearchResponse(response, provider) {
+  if (!response.ok) {
+    const details = await response.text().catch(() => '');
+    throw new Error(`${provider} search failed with ${response.status}${details ? `: ${details.slice(0, 200)}` : ''}`);
+  }
+  return response.json();
+}
+
+async function searchTavily(query, limit) {
+  const response = await fetch('https://api.tavily.com/search', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${process.env.TAVILY_API_KEY}` },
+    body: JSON.stringify({ query, max_results: limit, search_depth: 'advanced' })
+  });
+  const data = await readSearchResponse(response, 'Tavily');
+  return (data.results || []).map(result => ({ title: result.title, url: result.url, snippet: result.content }));
+}
+
+async function searchBrave(query, limit) {
+  const url = new URL('https://api.search.brave.com/res/v1/web/search');
+  url.searchParams.set('q', query);
+  url.searchParams.set('count', String(limit));
+
+  const response = await fetch(url, {
+    headers: { Accept: 'application/json', 'X-Subscription-Token': process.env.BRAVE_SEARCH_API_KEY }
+  });
+  const data = await readSearchResponse(response, 'Brave');
+  return (data.web?.results || []).map(result => ({ title: result.title, url: result.url, snippet: result.description }));
+}
+
+const words = text => String(text).toLowerCase().match(/[a-z0-9]+/g) || [];
+
+// Ranks fixture documents by how many query words they contain.
+// SEARCH_FIXTURES_PATH points at a JSON array of { title, url, snippet }
+function searchFixtures(query, limit) {
+  const fixtures = process.env.SEARCH_FIXTURES_PATH
+    ? JSON.parse(fs.readFileSync(process.env.SEARCH_FIXTURES_PATH, 'utf8'))
+    : defaultFixtures;
+  const queryWords = new Set(words(query).filter(word => word.length > 2));
+
+  return fixtures
+    .map(document => ({
+      document,
+      score: words(`${document.title} ${document.snippet}`).filter(word => queryWords.has(word)).length
+    }))
+    .filter(({ score }) => score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map(({ document }) => document);
+}
+
+async function searchWeb(query, { limit = DEFAULT_RESULT_LIMIT } = {}) {
+  if (!query || !query.trim()) return [];
+
+  const provider = getSearchProviderName();
+  const configError = getSearchConfigError();
+  if (provider === 'none' || configError) {
+    throw new Error(configError ? configError.details : 'Web search is not enabled');
+  }
+
+  let results;
+  switch (provider) {
+    case 'tavily':
+      results = await searchTavily(query, limit);
+      break;
+    case 'brave':
+      results = await searchBrave(query, limit);
+      break;
+    default:
+      results = searchFixtures(query, limit);
+  }
+
+  return results
+    .filter(result => result && result.url && result.title)
+    .slice(0, limit)
+    .map(result => ({ title: result.title.trim(), url: result.url, snippet: trimSnippet(result.snippet) }));
+}
+
+module.exports = {
+  SEARCH_PROVIDERS,
+  getSearchProviderName,
+  getSearchConfigError,
+  isSearchEnabled,
+  searchWeb
+};
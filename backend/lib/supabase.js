@@ -0,0 +1,46 @@
+const { createClient } = require('@supabase/supabase-js');
+
+// Read on every call so tests can point the backend at a local stand-in
+function getSupabaseConfig() {
+  return {
+    url: process.env.SUPABASE_URL || process.env.VITE_SUPABASE_URL,
+    anonKey: process.env.SUPABASE_ANON_KEY || process.env.VITE_SUPABASE_ANON_KEY,
+    serviceRoleKey: process.env.SUPABASE_SERVICE_ROLE_KEY
+  };
+}
+
+// Pulls the Supabase access token out of an `Authorization: Bearer <token>` header
+function getAccessToken(req) {
+  const header = req.headers.authorization || req.headers.Authorization;
+  if (!header || typeof header !== 'string') return null;
+
+  const [scheme, token] = header.split(' ');
+  return scheme?.toLowerCase() === 'bearer' && token ? token : null;
+}
+
+// Creates a Supabase client that acts as the calling user, so row level
+// security and auth.uid() apply exactly as they do in the browser.
+// Returns null when the request carries no token or Supabase is not configured.
+function createUserClient(req) {
+  const token = getAccessToken(req);
+  const { url, anonKey } = getSupabaseConfig();
+  if (!token || !url || !anonKey) return null;
+
+  return createClient(url, anonKey, {
+    global: { headers: { Authorization: `Bearer ${token}` } },
+    auth: { persistSession: false, autoRefreshToken: false }
+  });
+}
+
+// Privileged client for scheduled jobs that work across users. Bypasses row
+// level security, so it must never be created from a user's request.
+function createServiceClient() {
+  const { url, serviceRoleKey } = getSupabaseConfig();
+  if (!url || !serviceRoleKey) return null;
+
+  return createClient(url, serviceRoleKey, {
+    auth: { persistSession: false, autoRefreshToken: false }
+  });
+}
+
+module.exports = { getAccessToken, createUserClient, createServiceClient };
@@ -0,0 +1,135 @@
+function readLimit(name, fallback) {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? Math.floor(value) : fallback;
+}
+
+// Per-user limits, overridable per deployment through environment variables
+function getUsageLimits() {
+  return {
+    chatRequestsPerMinute: readLimit('CHAT_REQUESTS_PER_MINUTE', 20),
+    ttsRequestsPerMinute: readLimit('TTS_REQUESTS_PER_MINUTE', 30),
+    monthlyTokens: readLimit('MONTHLY_TOKEN_QUOTA', 500000),
+    monthlyTtsCharacters: readLimit('MONTHLY_TTS_CHARACTER_QUOTA', 200000)
+  };
+}
+
+// How long clients are asked to wait when the usage check itself fails
+const USAGE_CHECK_RETRY_SECONDS = 5;
+
+async function fetchUsage(supabase) {
+  const { data, error } = await supabase.rpc('get_usage_summary');
+  if (error) throw error;
+  return (Array.isArray(data) ? data[0] : data) || {};
+}
+
+// The 429 body for the limit consume_usage() reported as hit
+function describeExceededLimit(kind, { exceeded, retry_after: retryAfter, characters_this_month: charactersUsed }, limits) {
+  if (exceeded === 'rate') {
+    const requestsPerMinute = kind === 'tts' ? limits.ttsRequestsPerMinute : limits.chatRequestsPerMinute;
+    return {
+      error: 'Rate limit exceeded',
+      details: `You can make ${requestsPerMinute} ${kind === 'tts' ? 'speech' : 'chat'} requests per minute`,
+      retryAfter
+    };
+  }
+
+  if (exceeded === 'tokens') {
+    return {
+      error: 'Monthly quota exceeded',
+      details: `You have used all ${limits.monthlyTokens} tokens for this month`,
+      retryAfter
+    };
+  }
+
+  const remaining = Math.max(limits.monthlyTtsCharacters - (Number(charactersUsed) || 0), 0);
+  return {
+    error: 'Monthly quota exceeded',
+    details: `You have ${remaining} of ${limits.monthlyTtsCharacters} speech characters left this month`,
+    retryAfter
+  };
+}
+
+// Checks the caller's limits and records the request against them in one
+// consume_usage() call, which serialises each user's requests so concurrent
+// ones can't slip past the per-minute limit together. Responds itself and
+// returns false when over a limit (429 with Retry-After) or when usage can't
+// be checked (503): requests are never let through unmetered.
+// Sets req.usageEventId so chat handlers can add the tokens used afterwards.
+async function enforceUsageLimits(req, res, kind, { characters = 0 } = {}) {
+  const limits = getUsageLimits();
+  const { data, error } = await req.supabase.rpc('consume_usage', {
+    usage_kind: kind,
+    requests_per_minute: kind === 'tts' ? limits.ttsRequestsPerMinute : limits.chatRequestsPerMinute,
+    monthly_tokens: limits.monthlyTokens,
+    monthly_characters: limits.monthlyTtsCharacters,
+    usage_characters: characters
+  });
+  const result = Array.isArray(data) ? data[0] : data;
+
+  if (error || !result) {
+    console.error('❌ Usage check failed, refusing request:', error?.message || 'no result');
+    res.setHeader('Retry-After', String(USAGE_CHECK_RETRY_SECONDS));
+    res.status(503).json({
+      error: 'Usage check failed',
+      details: 'Could not check your usage limits. Please try again shortly.',
+      retryAfter: USAGE_CHECK_RETRY_SECONDS
+    });
+    return false;
+  }
+
+  if (!result.allowed) {
+    const exceeded = describeExceededLimit(kind, result, limits);
+    console.log('🚦 Usage limit hit for user', req.userId, `(${kind}):`, exceeded.error);
+    res.setHeader('Retry-After', String(exceeded.retryAfter));
+    res.status(429).json(exceeded);
+    return false;
+  }
+
+  req.usageEventId = result.event_id;
+  return true;
+}
+
+// Adds the tokens reported by completion.usage to the request's usage row
+async function recordUsageTokens(supabase, eventId, tokens) {
+  if (!eventId || !tokens) return;
+
+  const { error } = await supabase.rpc('add_usage_tokens', {
+    event_id: eventId,
+    usage_tokens: tokens
+  });
+  if (error) console.error('⚠️ Failed to record token usage:', error.message);
+}
+
+// What the usage meter shows: monthly quotas and this minute's request counts
+async function getUsageSummary(supabase) {
+  const usage = await fetchUsage(supabase);
+  const limits = getUsageLimits();
+  const tokensUsed = Number(usage.tokens_this_month) || 0;
+  const charactersUsed = Number(usage.tts_characters_this_month) || 0;
+
+  return {
+    periodStart: usage.period_start,
+    resetsAt: usage.period_end,
+    tokens: {
+      used: tokensUsed,
+      limit: limits.monthlyTokens,
+      remaining: Math.max(limits.monthlyTokens - tokensUsed, 0)
+    },
+    ttsCharacters: {
+      used: charactersUsed,
+      limit: limits.monthlyTtsCharacters,
+      remaining: Math.max(limits.monthlyTtsCharacters - charactersUsed, 0)
+    },
+    requestsPerMinute: {
+      chat: { used: usage.chat_requests_last_minute || 0, limit: limits.chatRequestsPerMinute },
+      tts: { used: usage.tts_requests_last_minute || 0, limit: limits.ttsRequestsPerMinute }
+    }
+  };
+}
+
+module.exports = {
+  getUsageLimits,
+  enforceUsageLimits,
+  recordUsageTokens,
+  getUsageSummary
+};
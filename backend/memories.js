@@ -0,0 +1,141 @@
+const express = require('express');
+const { insertMemory, parseNewMemory, updateMemory, parseMemoryUpdates } = require('./lib/memories');
+const { extractAndStoreMemories } = require('./lib/extraction');
+const { consolidateUserMemories } = require('./lib/consolidation');
+const { createLLMClient, getProviderConfigError } = require('./lib/llm');
+
+const router = express.Router();
+
+router.post('/', async (req, res) => {
+
+  // Check that the configured LLM provider is usable
+  const providerError = getProviderConfigError();
+  if (providerError) {
+    console.error('❌ LLM provider not configured:', providerError.details);
+    return res.status(500).json(providerError);
+  }
+
+  try {
+    const fields = parseNewMemory(req.body);
+    if (typeof fields === 'string') {
+      return res.status(400).json({ 
+        error: 'Invalid request format',
+        details: fields
+      });
+    }
+
+    const openai = createLLMClient();
+    const memory = await insertMemory(req.supabase, openai, { user_id: req.userId, ...fields }, { skipIfSuppressed: true });
+
+    // The user asked never to remember this
+    if (!memory) {
+      return res.json({ memory: null, suppressed: true });
+    }
+
+    console.log('🧠 Memory stored with embedding:', memory.id);
+
+    res.status(201).json({ memory });
+  } catch (error) {
+    console.error('❌ Memory API error:', error);
+    res.status(500).json({ 
+      error: 'Failed to store memory',
+      details: error.message 
+    });
+  }
+});
+
+// Runs after each chat turn: the model decides what is worth remembering
+router.post('/extract', async (req, res) => {
+
+  // Check that the configured LLM provider is usable
+  const providerError = getProviderConfigError();
+  if (providerError) {
+    console.error('❌ LLM provider not configured:', providerError.details);
+    return res.status(500).json(providerError);
+  }
+
+  try {
+    // include_embeddings returns each memory's embedding, for clients that
+    // search their memories locally
+    const { messages, conversation_id = null, emotion_context = null, include_embeddings = false } = req.body;
+
+    if (!messages || !Array.isArray(messages) || messages.length === 0) {
+      return res.status(400).json({ 
+        error: 'Invalid request format',
+        details: 'messages array is required'
+      });
+    }
+
+    const openai = createLLMClient();
+    const memories = await extractAndStoreMemories(req.supabase, openai, {
+      userId: req.userId,
+      conversationId: conversation_id,
+      messages,
+      emotionContext: emotion_context,
+      includeEmbeddings: include_embeddings === true
+    });
+
+    console.log('🧠 Extracted', memories.length, 'memories from conversation', conversation_id);
+
+    res.json({ memories });
+  } catch (error) {
+    console.error('❌ Memory extraction error:', error);
+    res.status(500).json({ 
+      error: 'Failed to extract memories',
+      details: error.message 
+    });
+  }
+});
+
+// Merges near-duplicate memories for the signed-in user
+router.post('/consolidate', async (req, res) => {
+
+  try {
+    const summary = await consolidateUserMemories(req.supabase, req.userId);
+    console.log('🧹 Memory consolidation for', req.userId, summary);
+
+    res.json(summary);
+  } catch (error) {
+    console.error('❌ Memory consolidation error:', error);
+    res.status(500).json({ 
+      error: 'Failed to consolidate memories',
+      details: error.message 
+    });
+  }
+});
+
+// Edits content, tags, importance or the pinned flag of one memory
+router.patch('/:id', async (req, res) => {
+
+  // Check that the configured LLM provider is usable
+  const providerError = getProviderConfigError();
+  if (providerError) {
+    console.error('❌ LLM provider not configured:', providerError.details);
+    return res.status(500).json(providerError);
+  }
+
+  try {
+    const updates = parseMemoryUpdates(req.body);
+    if (typeof updates === 'string') {
+      return res.status(400).json({ 
+        error: 'Invalid request format',
+        details: updates
+      });
+    }
+
+    const openai = createLLMClient();
+    const memory = await updateMemory(req.supabase, openai, req.params.id, updates);
+
+    console.log('🧠 Memory updated:', memory.id);
+
+    res.json({ memory });
+  } catch (error) {
+    console.error('❌ Memory update error:', error);
+    res.status(500).json({ 
+      error: 'Failed to update memory',
+      details: error.message 
+    });
+  }
+});
+
+module.exports = router;
@@ -0,0 +1,48 @@
+const express = require('express');
+const { generatePlanSteps } = require('./lib/plans');
+const { createLLMClient, getProviderConfigError } = require('./lib/llm');
+
+const router = express.Router();
+
+router.post('/generate', async (req, res) => {
+
+  // Check that the configured LLM provider is usable
+  const providerError = getProviderConfigError();
+  if (providerError) {
+    console.error('❌ LLM provider not configured:', providerError.details);
+    return res.status(500).json(providerError);
+  }
+
+  try {
+    const { title, description = '', goals = [] } = req.body;
+
+    if (!title || typeof title !== 'string') {
+      return res.status(400).json({ 
+        error: 'Invalid request format',
+        details: 'title parameter is required'
+      });
+    }
+
+    if (!Array.isArray(goals)) {
+      return res.status(400).json({ 
+        error: 'Invalid request format',
+        details: 'goals must be an array'
+      });
+    }
+
+    const openai = createLLMClient();
+    const steps = await generatePlanSteps(openai, { title, description, goals });
+
+    console.log('📋 Generated', steps.length, 'plan steps for', title);
+
+    res.json({ steps });
+  } catch (error) {
+    console.error('❌ Plan generation error:', error);
+    res.status(500).json({ 
+      error: 'Failed to generate plan',
+      details: error.message 
+    });
+  }
+});
+
+module.exports = router;
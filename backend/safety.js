@@ -0,0 +1,9 @@
+const express = require('express');
+const { handleHelplines } = require('./core/safety');
+
+const router = express.Router();
+
+// Shared with the Vercel function in api/safety/helplines.ts
+router.get('/helplines', handleHelplines);
+
+module.exports = router;
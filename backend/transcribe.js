@@ -0,0 +1,58 @@
+const express = require('express');
+const { toFile } = require('openai');
+const { createLLMClient, getModel, getProviderConfigError } = require('./lib/llm');
+
+// Matches the Vercel handler, which is bound by the 4.5 MB request body cap
+const MAX_AUDIO_BYTES = 3 * 1024 * 1024;
+
+const router = express.Router();
+
+router.post('/', async (req, res) => {
+
+  // Check that the configured LLM provider is usable
+  const providerError = getProviderConfigError();
+  if (providerError) {
+    console.error('❌ LLM provider not configured:', providerError.details);
+    return res.status(500).json(providerError);
+  }
+
+  try {
+    const { audio, format = 'webm', language = 'en' } = req.body;
+
+    if (!audio || typeof audio !== 'string') {
+      return res.status(400).json({ 
+        error: 'Invalid request format',
+        details: 'audio parameter (base64) is required'
+      });
+    }
+
+    const buffer = Buffer.from(audio, 'base64');
+    if (buffer.length > MAX_AUDIO_BYTES) {
+      return res.status(413).json({
+        error: 'Audio too long',
+        details: 'Recordings must be under 3 MB'
+      });
+    }
+
+    console.log('🎙️ Processing transcription request:', { size: buffer.length, format, language });
+
+    const openai = createLLMClient();
+    const transcription = await openai.audio.transcriptions.create({
+      file: await toFile(buffer, `audio.${format}`),
+      model: getModel('transcription'),
+      language
+    });
+
+    console.log('✅ Transcription complete:', transcription.text.substring(0, 50));
+
+    res.json({ text: transcription.text });
+  } catch (error) {
+    console.error('❌ Transcription API error:', error);
+    res.status(500).json({ 
+      error: 'Failed to transcribe audio',
+      details: error.message 
+    });
+  }
+});
+
+module.exports = router;
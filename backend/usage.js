@@ -0,0 +1,19 @@
+const express = require('express');
+const { getUsageSummary } = require('./lib/usage');
+
+const router = express.Router();
+
+router.get('/', async (req, res) => {
+  try {
+    const usage = await getUsageSummary(req.supabase);
+    res.json(usage);
+  } catch (error) {
+    console.error('❌ Usage API error:', error);
+    res.status(500).json({ 
+      error: 'Failed to load usage',
+      details: error.message 
+    });
+  }
+});
+
+module.exports = router;
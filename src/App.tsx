@@ -10,6 +10,8 @@ import Chat from "./pages/Chat";
 import VoiceChat from "./pages/VoiceChat";
 import Goals from "./pages/Goals";
 import Memories from "./pages/Memories";
+import Conversations from "./pages/Conversations";
+import Insights from "./pages/Insights";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -28,6 +30,8 @@ const App = () => (
             <Route path="/voice-chat" element={<VoiceChat />} />
             <Route path="/goals" element={<Goals />} />
             <Route path="/memories" element={<Memories />} />
+            <Route path="/conversations" element={<Conversations />} />
+            <Route path="/insights" element={<Insights />} />
             <Route path="*" element={<NotFound />} />
           </Routes>
         </BrowserRouter>
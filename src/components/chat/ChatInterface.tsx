@@ -16,20 +16,25 @@ import {
   Pin,
   PinOff,
   MessageCircle,
-  Phone
+  Phone,
+  Square,
+  SquarePen
 } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { useToast } from "@/hooks/use-toast";
 import useZoxaaChat from "@/hooks/useZoxaaChat";
 import useOpenAIVoice from "@/hooks/useOpenAIVoice";
-import useZoxaaPlans from "@/hooks/useZoxaaPlans";
+import ToolResultCard from "./ToolResultCard";
+import SourceFootnotes from "./SourceFootnotes";
+import CrisisBanner from "./CrisisBanner";
 
 
 interface ChatInterfaceProps {
   className?: string;
+  conversationId?: string | null;
 }
 
-const ChatInterface = ({ className }: ChatInterfaceProps) => {
+const ChatInterface = ({ className, conversationId }: ChatInterfaceProps) => {
   const [input, setInput] = useState("");
   const [conversationMode, setConversationMode] = useState<"text" | "voice">("text");
   const [pinnedMessage, setPinnedMessage] = useState<any>(null);
@@ -38,9 +43,21 @@ const ChatInterface = ({ className }: ChatInterfaceProps) => {
   const { toast } = useToast();
 
   // Custom hooks
-  const { messages, isThinking, sendMessage, addMessage } = useZoxaaChat();
+  const {
+    messages,
+    isThinking,
+    isStreaming,
+    sendMessage,
+    stopGenerating,
+    addMessage,
+    loadConversation,
+    clearConversation,
+    crisisSupport,
+    helplineCountries,
+    dismissCrisisSupport,
+    changeCrisisCountry
+  } = useZoxaaChat();
   const { isRecording, isPlaying, startRecording, stopRecording, speak, stopSpeaking } = useOpenAIVoice();
-  const { createPlan } = useZoxaaPlans();
 
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
@@ -50,21 +67,27 @@ const ChatInterface = ({ className }: ChatInterfaceProps) => {
     scrollToBottom();
   }, [messages]);
 
+  // Resume a thread opened from the conversation history page, stopping any
+  // reply still streaming into the thread on screen
+  useEffect(() => {
+    if (conversationId) {
+      stopGenerating();
+      loadConversation(conversationId);
+    }
+  }, [conversationId, loadConversation, stopGenerating]);
+
   const handleSendMessage = async () => {
-    if (!input.trim()) return;
+    if (!input.trim() || isThinking || isStreaming) return;
 
     const messageText = input;
     setInput("");
     
     try {
-      await sendMessage(messageText);
+      const response = await sendMessage(messageText);
       
       // Auto-speak response in voice mode
-      if (conversationMode === "voice" && !isPlaying) {
-        const lastMessage = messages[messages.length - 1];
-        if (lastMessage && lastMessage.role === "assistant") {
-          await speak(lastMessage.content);
-        }
+      if (conversationMode === "voice" && !isPlaying && response) {
+        await speak(response);
       }
     } catch (error) {
       console.error('Failed to send message:', error);
@@ -136,21 +159,19 @@ const ChatInterface = ({ className }: ChatInterfaceProps) => {
     }
   };
 
+  const handleNewConversation = () => {
+    stopGenerating();
+    stopSpeaking();
+    setPinnedMessage(null);
+    clearConversation();
+  };
+
+  // The model turns the conversation into a plan with the create_plan tool
   const handleCreatePlan = async () => {
+    if (isThinking || isStreaming || !messages.some(m => m.role === "user")) return;
+
     try {
-      const lastUserMessage = messages.filter(m => m.role === "user").pop();
-      if (lastUserMessage) {
-        await createPlan(
-          "New Plan from Conversation",
-          `Based on our discussion: "${lastUserMessage.content}"`,
-          ["Achieve discussed goals"],
-          "Personal"
-        );
-        toast({
-          title: "Plan Created",
-          description: "A new plan has been created based on your conversation"
-        });
-      }
+      await sendMessage("Turn what we've discussed into a plan.");
     } catch (error) {
       console.error('Failed to create plan:', error);
     }
@@ -158,6 +179,15 @@ const ChatInterface = ({ className }: ChatInterfaceProps) => {
 
   return (
     <div className={cn("flex flex-col h-full bg-gradient-background", className)}>
+      {crisisSupport && (
+        <CrisisBanner
+          support={crisisSupport}
+          countries={helplineCountries}
+          onChangeCountry={changeCrisisCountry}
+          onDismiss={dismissCrisisSupport}
+        />
+      )}
+
       {/* Pinned Message */}
       {pinnedMessage && (
         <div className="bg-accent/10 border-b border-accent/20 p-3">
@@ -190,7 +220,7 @@ const ChatInterface = ({ className }: ChatInterfaceProps) => {
           <div>
             <h2 className="font-semibold">Zoxaa</h2>
             <p className="text-sm text-muted-foreground">
-              {isThinking ? "Thinking..." : "Ready to help"}
+              {isThinking ? "Thinking..." : isStreaming ? "Responding..." : "Ready to help"}
             </p>
           </div>
         </div>
@@ -229,9 +259,18 @@ const ChatInterface = ({ className }: ChatInterfaceProps) => {
             variant="memory" 
             size="icon"
             onClick={handleCreatePlan}
+            title="Turn this conversation into a plan"
           >
             <Sparkles className="w-4 h-4" />
           </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={handleNewConversation}
+            title="New conversation"
+          >
+            <SquarePen className="w-4 h-4" />
+          </Button>
 
         </div>
       </div>
@@ -260,7 +299,18 @@ const ChatInterface = ({ className }: ChatInterfaceProps) => {
                 ? "bg-gradient-primary text-primary-foreground" 
                 : "border-primary/20"
             )}>
-              <p className="text-sm leading-relaxed">{message.content}</p>
+              <p className="text-sm leading-relaxed whitespace-pre-wrap">
+                {message.content}
+                {message.isStreaming && (
+                  <span className="inline-block w-2 h-4 ml-0.5 align-text-bottom bg-primary animate-pulse" />
+                )}
+              </p>
+              {message.toolResults?.filter(result => result.card?.type !== "web_search").map(result => (
+                <ToolResultCard key={result.id} result={result} className="mt-3" />
+              ))}
+              {message.toolResults && (
+                <SourceFootnotes toolResults={message.toolResults} className="mt-3" />
+              )}
               <div className="flex items-center justify-between mt-2">
                 <div className="flex items-center gap-1 opacity-70">
                   <Clock className="w-3 h-3" />
@@ -342,15 +392,27 @@ const ChatInterface = ({ className }: ChatInterfaceProps) => {
                 placeholder="Share your thoughts with Zoxaa..."
                 className="pr-12 bg-background/50 border-primary/20 focus:border-primary"
               />
-              <Button
-                variant="ghost"
-                size="icon"
-                onClick={handleSendMessage}
-                disabled={!input.trim()}
-                className="absolute right-1 top-1/2 transform -translate-y-1/2 h-8 w-8"
-              >
-                <Send className="w-4 h-4" />
-              </Button>
+              {isThinking || isStreaming ? (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={stopGenerating}
+                  title="Stop generating"
+                  className="absolute right-1 top-1/2 transform -translate-y-1/2 h-8 w-8"
+                >
+                  <Square className="w-4 h-4 fill-current" />
+                </Button>
+              ) : (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={handleSendMessage}
+                  disabled={!input.trim()}
+                  className="absolute right-1 top-1/2 transform -translate-y-1/2 h-8 w-8"
+                >
+                  <Send className="w-4 h-4" />
+                </Button>
+              )}
             </div>
           </div>
         ) : (
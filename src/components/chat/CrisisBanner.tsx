@@ -0,0 +1,92 @@
+import { ExternalLink, LifeBuoy, MessageSquare, Phone, Siren } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { CrisisHelpline, CrisisSupport, HelplineCountry } from "@/hooks/useZoxaaChat";
+import { cn } from "@/lib/utils";
+
+interface CrisisBannerProps {
+  support: CrisisSupport;
+  countries: HelplineCountry[];
+  onChangeCountry: (country: string) => void;
+  onDismiss: () => void;
+  className?: string;
+}
+
+const telLink = (number: string) => `tel:${number.replace(/[^\d+]/g, "")}`;
+
+// `?&body=` is understood by both Android and iOS messaging apps
+const smsLink = ({ number, message }: NonNullable<CrisisHelpline["text"]>) =>
+  `sms:${number.replace(/[^\d+]/g, "")}${message ? `?&body=${encodeURIComponent(message)}` : ""}`;
+
+// Stays above the chat after a crisis reply, with one-tap ways to reach help,
+// until the user says they are safe
+const CrisisBanner = ({ support, countries, onChangeCountry, onDismiss, className }: CrisisBannerProps) => (
+  <div role="alert" className={cn("bg-destructive/10 border-b border-destructive/30 p-3 space-y-2", className)}>
+    <div className="flex items-start gap-3">
+      <LifeBuoy className="w-5 h-5 text-destructive mt-0.5 flex-shrink-0" />
+      <div className="flex-1 min-w-0">
+        <p className="text-sm font-medium">You don't have to go through this alone</p>
+        <p className="text-xs text-muted-foreground">
+          Free, confidential support is available right now
+          {support.country ? ` in ${support.countryName}` : ""}.
+        </p>
+      </div>
+      {countries.length > 0 && (
+        <Select value={support.country ?? undefined} onValueChange={onChangeCountry}>
+          <SelectTrigger className="h-8 w-36 text-xs" aria-label="Helpline country">
+            <SelectValue placeholder="Your country" />
+          </SelectTrigger>
+          <SelectContent>
+            {countries.map(country => (
+              <SelectItem key={country.code} value={country.code}>{country.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+    </div>
+
+    <div className="flex flex-wrap gap-2 pl-8">
+      {support.emergencyNumber && (
+        <Button asChild variant="destructive" size="sm">
+          <a href={telLink(support.emergencyNumber)}>
+            <Siren className="w-4 h-4 mr-1" />
+            Emergency {support.emergencyNumber}
+          </a>
+        </Button>
+      )}
+      {support.helplines.map(helpline => (
+        <div key={helpline.name} className="flex gap-1">
+          {helpline.phone && (
+            <Button asChild variant="outline" size="sm" title={helpline.hours}>
+              <a href={telLink(helpline.phone)}>
+                <Phone className="w-4 h-4 mr-1" />
+                Call {helpline.name}
+              </a>
+            </Button>
+          )}
+          {helpline.text && (
+            <Button asChild variant="outline" size="sm" title={helpline.hours}>
+              <a href={smsLink(helpline.text)}>
+                <MessageSquare className="w-4 h-4 mr-1" />
+                Text {helpline.phone ? "" : `${helpline.name} `}{helpline.text.message ? `${helpline.text.message} to ` : ""}{helpline.text.number}
+              </a>
+            </Button>
+          )}
+          {!helpline.phone && !helpline.text && helpline.url && (
+            <Button asChild variant="outline" size="sm" title={helpline.hours}>
+              <a href={helpline.url} target="_blank" rel="noopener noreferrer">
+                <ExternalLink className="w-4 h-4 mr-1" />
+                {helpline.name}
+              </a>
+            </Button>
+          )}
+        </div>
+      ))}
+      <Button variant="ghost" size="sm" className="ml-auto text-xs" onClick={onDismiss}>
+        I'm safe now
+      </Button>
+    </div>
+  </div>
+);
+
+export default CrisisBanner;
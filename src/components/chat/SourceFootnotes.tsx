@@ -0,0 +1,61 @@
+import { Globe } from "lucide-react";
+import type { ChatToolResult, ChatWebSource } from "@/hooks/useZoxaaChat";
+import { cn } from "@/lib/utils";
+
+interface SourceFootnotesProps {
+  toolResults: ChatToolResult[];
+  className?: string;
+}
+
+// Web search results are numbered across the whole reply, so a page found by
+// two searches is listed once
+const collectSources = (toolResults: ChatToolResult[]) => {
+  const sources = new Map<number, ChatWebSource>();
+  for (const result of toolResults) {
+    if (result.card?.type !== "web_search") continue;
+    result.card.sources.forEach(source => sources.set(source.id, source));
+  }
+  return [...sources.values()].sort((a, b) => a.id - b.id);
+};
+
+const hostname = (url: string) => {
+  try {
+    return new URL(url).hostname.replace(/^www\./, "");
+  } catch {
+    return url;
+  }
+};
+
+// The sources a reply cites as [1], [2]...
+const SourceFootnotes = ({ toolResults, className }: SourceFootnotesProps) => {
+  const sources = collectSources(toolResults);
+  if (sources.length === 0) return null;
+
+  return (
+    <div className={cn("border-t border-border/50 pt-2 space-y-1", className)}>
+      <div className="flex items-center gap-1 text-xs font-medium text-muted-foreground">
+        <Globe className="w-3 h-3" />
+        Sources
+      </div>
+      <ol className="space-y-0.5 text-xs">
+        {sources.map(source => (
+          <li key={source.id} className="flex gap-1.5">
+            <span className="text-muted-foreground">[{source.id}]</span>
+            <a
+              href={source.url}
+              target="_blank"
+              rel="noopener noreferrer"
+              title={source.snippet}
+              className="text-primary hover:underline truncate"
+            >
+              {source.title}
+            </a>
+            <span className="text-muted-foreground flex-shrink-0">{hostname(source.url)}</span>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+};
+
+export default SourceFootnotes;
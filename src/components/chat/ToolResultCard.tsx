@@ -0,0 +1,98 @@
+import { AlertCircle, Bookmark, CheckCircle2, Circle, ListChecks, Search } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import type { ChatToolResult } from "@/hooks/useZoxaaChat";
+import { cn } from "@/lib/utils";
+
+interface ToolResultCardProps {
+  result: ChatToolResult;
+  className?: string;
+}
+
+const PLAN_ACTIONS = {
+  created: "Plan created",
+  step_added: "Step added",
+  step_completed: "Step completed"
+};
+
+const FAILURE_LABELS: Record<string, string> = {
+  create_plan: "create the plan",
+  add_plan_step: "add the step",
+  complete_step: "complete the step",
+  remember_fact: "save that to memory",
+  search_memories: "search memories",
+  web_search: "search the web"
+};
+
+// Shows what a tool call did to the user's plans or memories, under the reply
+const ToolResultCard = ({ result, className }: ToolResultCardProps) => {
+  const { card } = result;
+
+  if (!result.ok || !card) {
+    return (
+      <div className={cn("flex items-start gap-2 rounded-md border border-destructive/30 bg-destructive/10 p-3 text-xs", className)}>
+        <AlertCircle className="w-4 h-4 text-destructive flex-shrink-0" />
+        <span>Couldn't {FAILURE_LABELS[result.name] || result.name}: {result.error}</span>
+      </div>
+    );
+  }
+
+  if (card.type === "plan") {
+    const { plan } = card;
+    return (
+      <div className={cn("rounded-md border border-primary/20 bg-background/50 p-3 space-y-2", className)}>
+        <div className="flex items-center justify-between gap-2">
+          <div className="flex items-center gap-2 min-w-0">
+            <ListChecks className="w-4 h-4 text-primary flex-shrink-0" />
+            <span className="text-sm font-medium truncate">{plan.title}</span>
+          </div>
+          <Badge variant="secondary" className="text-xs">{PLAN_ACTIONS[card.action]}</Badge>
+        </div>
+        <Progress value={plan.completion_percentage || 0} className="h-1.5" />
+        <ul className="space-y-1">
+          {plan.steps.map(step => (
+            <li key={step.id} className="flex items-start gap-2 text-xs">
+              {step.completed
+                ? <CheckCircle2 className="w-3.5 h-3.5 text-plan-success flex-shrink-0" />
+                : <Circle className="w-3.5 h-3.5 text-muted-foreground flex-shrink-0" />}
+              <span className={cn(step.completed && "line-through text-muted-foreground")}>{step.title}</span>
+            </li>
+          ))}
+        </ul>
+      </div>
+    );
+  }
+
+  if (card.type === "memory") {
+    return (
+      <div className={cn("flex items-start gap-2 rounded-md border border-accent/30 bg-accent/10 p-3 text-xs", className)}>
+        <Bookmark className="w-4 h-4 text-accent flex-shrink-0" />
+        <div>
+          <p className="font-medium">Saved to memory</p>
+          <p className="text-muted-foreground">{card.memory.content}</p>
+        </div>
+      </div>
+    );
+  }
+
+  // Web results are listed as footnotes by SourceFootnotes instead
+  if (card.type !== "memory_search") return null;
+
+  return (
+    <div className={cn("rounded-md border border-border bg-background/50 p-3 text-xs space-y-1", className)}>
+      <div className="flex items-center gap-2 font-medium">
+        <Search className="w-4 h-4 text-primary" />
+        Searched memories for "{card.query}"
+      </div>
+      {card.memories.length === 0 ? (
+        <p className="text-muted-foreground">Nothing found</p>
+      ) : (
+        <ul className="list-disc pl-5 text-muted-foreground">
+          {card.memories.map(memory => <li key={memory.id}>{memory.content}</li>)}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default ToolResultCard;
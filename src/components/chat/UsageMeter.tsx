@@ -0,0 +1,54 @@
+import { Gauge } from "lucide-react";
+import { Progress } from "@/components/ui/progress";
+import useUsage, { UsageQuota } from "@/hooks/useUsage";
+import { cn } from "@/lib/utils";
+
+interface UsageMeterProps {
+  className?: string;
+}
+
+const formatCount = (value: number) =>
+  new Intl.NumberFormat(undefined, { notation: "compact" }).format(value);
+
+const QuotaBar = ({ label, quota }: { label: string; quota: UsageQuota }) => {
+  const percentLeft = quota.limit > 0 ? Math.round((quota.remaining / quota.limit) * 100) : 0;
+
+  return (
+    <div className="space-y-1">
+      <div className="flex justify-between text-xs text-muted-foreground">
+        <span>{label}</span>
+        <span>{formatCount(quota.remaining)} of {formatCount(quota.limit)} left</span>
+      </div>
+      <Progress
+        value={percentLeft}
+        className={cn("h-2", percentLeft <= 10 && "[&>div]:bg-destructive")}
+      />
+    </div>
+  );
+};
+
+// How much of this month's chat and voice quota the user has left
+const UsageMeter = ({ className }: UsageMeterProps) => {
+  const { usage } = useUsage();
+
+  if (!usage) return null;
+
+  const resetsOn = new Date(usage.resetsAt).toLocaleDateString(undefined, {
+    month: "short",
+    day: "numeric"
+  });
+
+  return (
+    <div className={cn("space-y-2", className)}>
+      <div className="flex items-center gap-2 text-sm font-semibold">
+        <Gauge className="w-4 h-4" />
+        Monthly usage
+      </div>
+      <QuotaBar label="Chat tokens" quota={usage.tokens} />
+      <QuotaBar label="Voice characters" quota={usage.ttsCharacters} />
+      <p className="text-xs text-muted-foreground">Resets {resetsOn}</p>
+    </div>
+  );
+};
+
+export default UsageMeter;
@@ -19,22 +19,30 @@ import {
   CheckCircle
 } from "lucide-react";
 import { cn } from "@/lib/utils";
+import { analyzeEmotion, EMOTIONS, type EmotionAnalysis } from "@/lib/emotions";
 import { useToast } from "@/hooks/use-toast";
 import useZoxaaChat from "@/hooks/useZoxaaChat";
 import useRealTimeVoice from "@/hooks/useRealTimeVoice";
+import CrisisBanner from "./CrisisBanner";
 
 interface VoiceChatInterfaceProps {
   className?: string;
 }
 
+// Pause in the transcript before its emotion is read again
+const EMOTION_ANALYSIS_DELAY_MS = 700;
+
 const VoiceChatInterface = ({ className }: VoiceChatInterfaceProps) => {
   const [isVoiceActive, setIsVoiceActive] = useState(false);
   const [conversationHistory, setConversationHistory] = useState<string[]>([]);
-  const [currentEmotion, setCurrentEmotion] = useState<string>('neutral');
+  const [emotionReading, setEmotionReading] = useState<EmotionAnalysis | null>(null);
+  // The transcript emotionReading was read from
+  const emotionTextRef = useRef<string | null>(null);
   const [voiceActivity, setVoiceActivity] = useState<number>(0);
   const [showBrowserInfo, setShowBrowserInfo] = useState(false);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const { toast } = useToast();
+  const currentEmotion = emotionReading?.primary ?? 'neutral';
 
   // Enhanced mobile detection
   const isMobile = /Android|webOS|iPhone|iPad|iPod|BlackBerry|IEMobile|Opera Mini/i.test(navigator.userAgent);
@@ -71,7 +79,16 @@ const VoiceChatInterface = ({ className }: VoiceChatInterfaceProps) => {
   const isSmallScreen = screenSize.width < 480;
 
   // Custom hooks
-  const { messages, isThinking, sendMessage, addMessage } = useZoxaaChat();
+  const {
+    messages,
+    isThinking,
+    sendMessage,
+    addMessage,
+    crisisSupport,
+    helplineCountries,
+    dismissCrisisSupport,
+    changeCrisisCountry
+  } = useZoxaaChat();
   const { 
     isListening, 
     isSpeaking, 
@@ -80,7 +97,7 @@ const VoiceChatInterface = ({ className }: VoiceChatInterfaceProps) => {
     permissionGranted,
     startRealTimeListening, 
     stopRealTimeListening, 
-    speakWithEmotion, 
+    startSpeechStream,
     stopSpeaking,
     requestMicrophonePermission
   } = useRealTimeVoice();
@@ -93,12 +110,23 @@ const VoiceChatInterface = ({ className }: VoiceChatInterfaceProps) => {
     scrollToBottom();
   }, [messages]);
 
-  // Auto-detect emotion from transcript
+  // Read the emotion of the transcript once the speaker pauses
   useEffect(() => {
-    if (currentTranscript) {
-      const emotion = detectEmotion(currentTranscript);
-      setCurrentEmotion(emotion);
-    }
+    if (!currentTranscript.trim()) return;
+
+    const controller = new AbortController();
+    const timer = setTimeout(async () => {
+      const emotion = await analyzeEmotion(currentTranscript, controller.signal);
+      if (emotion) {
+        emotionTextRef.current = currentTranscript;
+        setEmotionReading(emotion);
+      }
+    }, EMOTION_ANALYSIS_DELAY_MS);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
   }, [currentTranscript]);
 
   // Simulate voice activity visualization
@@ -113,25 +141,6 @@ const VoiceChatInterface = ({ className }: VoiceChatInterfaceProps) => {
     }
   }, [isListening]);
 
-  const detectEmotion = (text: string): string => {
-    const emotions = {
-      happy: ['happy', 'excited', 'joy', 'great', 'amazing', 'wonderful', 'love', 'fantastic'],
-      sad: ['sad', 'depressed', 'down', 'upset', 'terrible', 'awful', 'crying', 'hurt'],
-      anxious: ['anxious', 'worried', 'nervous', 'stressed', 'overwhelmed', 'scared', 'fear'],
-      angry: ['angry', 'frustrated', 'mad', 'annoyed', 'irritated', 'hate', 'furious'],
-      calm: ['calm', 'peaceful', 'relaxed', 'serene', 'tranquil', 'quiet'],
-      excited: ['excited', 'thrilled', 'pumped', 'energetic', 'motivated', 'inspired']
-    };
-
-    const lowerText = text.toLowerCase();
-    for (const [emotion, keywords] of Object.entries(emotions)) {
-      if (keywords.some(keyword => lowerText.includes(keyword))) {
-        return emotion;
-      }
-    }
-    return 'neutral';
-  };
-
   const getBrowserInfo = () => {
     const browser = isChrome ? 'Chrome' : isSafari ? 'Safari' : isFirefox ? 'Firefox' : isEdge ? 'Edge' : 'Unknown';
     const device = isMobile ? (isIOS ? 'iOS' : isAndroid ? 'Android' : 'Mobile') : 'Desktop';
@@ -225,13 +234,20 @@ const VoiceChatInterface = ({ className }: VoiceChatInterfaceProps) => {
     const userMessage = currentTranscript;
     setConversationHistory(prev => [...prev, `You: ${userMessage}`]);
     
+    // Speak the reply sentence by sentence as it streams, in a voice suited
+    // to how the user sounded
+    const speech = startSpeechStream({ emotion: currentEmotion, intensity: emotionReading?.confidence });
+
     try {
-      const response = await sendMessage(userMessage);
+      const response = await sendMessage(userMessage, {
+        onDelta: content => speech.push(content),
+        // Saved with the turn when it is a reading of this exact message
+        emotion: emotionTextRef.current === userMessage ? emotionReading : undefined
+      });
       setConversationHistory(prev => [...prev, `Zoxaa: ${response}`]);
-      
-      // Auto-speak the response with detected emotion
-      await speakWithEmotion(response, currentEmotion);
+      await speech.end();
     } catch (error) {
+      speech.cancel();
       console.error('Failed to process voice message:', error);
     }
   };
@@ -250,6 +266,15 @@ const VoiceChatInterface = ({ className }: VoiceChatInterfaceProps) => {
       isMobileView && "min-h-screen",
       className
     )}>
+      {crisisSupport && (
+        <CrisisBanner
+          support={crisisSupport}
+          countries={helplineCountries}
+          onChangeCountry={changeCrisisCountry}
+          onDismiss={dismissCrisisSupport}
+        />
+      )}
+
       {/* Header */}
       <div className={cn(
         "flex items-center justify-between border-b border-border bg-card/50 backdrop-blur-sm",
@@ -412,13 +437,13 @@ const VoiceChatInterface = ({ className }: VoiceChatInterfaceProps) => {
             </div>
             <div className="flex items-center gap-2">
               <Heart className={cn(
-                currentEmotion === 'happy' || currentEmotion === 'excited' ? "text-red-500" : "text-muted-foreground",
+                EMOTIONS[currentEmotion].valence > 0.5 ? "text-red-500" : "text-muted-foreground",
                 isMobileView ? "w-3 h-3" : "w-4 h-4"
               )} />
               <span className={cn(
                 "text-muted-foreground capitalize",
                 isMobileView ? "text-xs" : "text-xs"
-              )}>{currentEmotion}</span>
+              )}>{EMOTIONS[currentEmotion].emoji} {EMOTIONS[currentEmotion].label}</span>
             </div>
           </div>
           
@@ -1,5 +1,6 @@
 import { useState, useRef, useCallback } from 'react';
 import { useToast } from '@/hooks/use-toast';
+import { getAuthHeaders, isUsageLimitError, toApiError } from '@/lib/api';
 
 interface OpenAIVoiceHookReturn {
   isRecording: boolean;
@@ -10,6 +11,14 @@ interface OpenAIVoiceHookReturn {
   stopSpeaking: () => void;
 }
 
+// Recordings are posted to /api/transcribe as base64 JSON
+const blobToBase64 = (blob: Blob): Promise<string> => new Promise((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onloadend = () => resolve((reader.result as string).split(',')[1] || '');
+  reader.onerror = () => reject(reader.error);
+  reader.readAsDataURL(blob);
+});
+
 const useOpenAIVoice = (): OpenAIVoiceHookReturn => {
   const [isRecording, setIsRecording] = useState(false);
   const [isPlaying, setIsPlaying] = useState(false);
@@ -18,19 +27,6 @@ const useOpenAIVoice = (): OpenAIVoiceHookReturn => {
   const currentAudioRef = useRef<HTMLAudioElement | null>(null);
   const { toast } = useToast();
 
-  const getOpenAIKey = () => {
-    const key = localStorage.getItem('openai_key');
-    if (!key) {
-      toast({
-        title: "OpenAI API Key Required",
-        description: "Please set your OpenAI API key in settings",
-        variant: "destructive"
-      });
-      throw new Error('OpenAI API key not found');
-    }
-    return key;
-  };
-
   const startRecording = useCallback(async () => {
     try {
       // Check for microphone permission first
@@ -85,22 +81,22 @@ const useOpenAIVoice = (): OpenAIVoiceHookReturn => {
         try {
           const audioBlob = new Blob(audioChunksRef.current, { type: 'audio/webm' });
           
-          // Convert to wav for better OpenAI compatibility
-          const formData = new FormData();
-          formData.append('file', audioBlob, 'audio.webm');
-          formData.append('model', 'whisper-1');
-          formData.append('language', 'en');
-
-          const response = await fetch('https://api.openai.com/v1/audio/transcriptions', {
+          // Transcription runs on the backend so the browser never holds a provider key
+          const response = await fetch('/api/transcribe', {
             method: 'POST',
             headers: {
-              'Authorization': `Bearer ${getOpenAIKey()}`,
+              'Content-Type': 'application/json',
+              ...(await getAuthHeaders()),
             },
-            body: formData,
+            body: JSON.stringify({
+              audio: await blobToBase64(audioBlob),
+              format: 'webm',
+              language: 'en',
+            }),
           });
 
           if (!response.ok) {
-            throw new Error(`OpenAI API error: ${response.statusText}`);
+            throw new Error(`Transcription API error: ${response.statusText}`);
           }
 
           const result = await response.json();
@@ -134,25 +130,25 @@ const useOpenAIVoice = (): OpenAIVoiceHookReturn => {
     try {
       setIsPlaying(true);
       
-      const response = await fetch('https://api.openai.com/v1/audio/speech', {
+      const response = await fetch('/api/tts', {
         method: 'POST',
         headers: {
-          'Authorization': `Bearer ${getOpenAIKey()}`,
           'Content-Type': 'application/json',
+          ...(await getAuthHeaders()),
         },
         body: JSON.stringify({
-          model: 'tts-1',
-          input: text,
+          text,
           voice: 'alloy', // You can change this to: alloy, echo, fable, onyx, nova, shimmer
           speed: 1.0
         }),
       });
 
       if (!response.ok) {
-        throw new Error(`OpenAI TTS error: ${response.statusText}`);
+        throw await toApiError(response);
       }
 
-      const audioData = await response.arrayBuffer();
+      const result = await response.json();
+      const audioData = Uint8Array.from(atob(result.audio), char => char.charCodeAt(0));
       const audioBlob = new Blob([audioData], { type: 'audio/mpeg' });
       const audioUrl = URL.createObjectURL(audioBlob);
       
@@ -179,7 +175,11 @@ const useOpenAIVoice = (): OpenAIVoiceHookReturn => {
       await audio.play();
     } catch (error) {
       setIsPlaying(false);
-      toast({
+      toast(isUsageLimitError(error) ? {
+        title: "Usage Limit Reached",
+        description: error.message,
+        variant: "destructive"
+      } : {
         title: "Speech Error",
         description: "Failed to generate speech. Please try again.",
         variant: "destructive"
@@ -1,5 +1,7 @@
 import { useState, useRef, useCallback, useEffect } from 'react';
 import { useToast } from '@/components/ui/use-toast';
+import { getAuthHeaders, isUsageLimitError, toApiError } from '@/lib/api';
+import { averagePlaybackRate, cleanForSpeech, createSentenceChunker } from '@/lib/speech';
 
 interface RealTimeVoiceHookReturn {
   isListening: boolean;
@@ -9,7 +11,8 @@ interface RealTimeVoiceHookReturn {
   permissionGranted: boolean;
   startRealTimeListening: () => Promise<void>;
   stopRealTimeListening: () => void;
-  speakWithEmotion: (text: string, emotion?: string) => Promise<void>;
+  speakWithEmotion: (text: string, emotion?: string, intensity?: number) => Promise<void>;
+  startSpeechStream: (delivery?: SpeechDelivery | Promise<SpeechDelivery>) => SpeechStream;
   stopSpeaking: () => void;
   clearTranscript: () => void;
   setVoiceSettings: (settings: VoiceSettings) => void;
@@ -17,12 +20,43 @@ interface RealTimeVoiceHookReturn {
 }
 
 interface VoiceSettings {
+  // 'zoxaa' lets the emotion pick the voice
   voice: 'zoxaa' | 'alloy' | 'echo' | 'fable' | 'onyx' | 'nova' | 'shimmer';
   speed: number;
   pitch: number;
+  // Used when speakWithEmotion is given no emotion
   emotion: 'neutral' | 'happy' | 'sad' | 'excited' | 'calm' | 'concerned';
+  // Steering for speech models that accept it, e.g. "Speak like a late-night radio host"
+  instructions?: string;
 }
 
+// The user's emotion, which picks the delivery style of the reply
+export interface SpeechDelivery {
+  emotion?: string;
+  intensity?: number;
+}
+
+// A reply being spoken while it is still being written
+export interface SpeechStream {
+  push: (text: string) => void;
+  // Call once the reply is complete; resolves when it has all been spoken
+  end: () => Promise<void>;
+  cancel: () => void;
+}
+
+// Lead time for the first chunk, and how far synthesis may run ahead of playback
+const START_DELAY_SECONDS = 0.05;
+const MAX_BUFFERED_SECONDS = 15;
+
+const decodeBase64 = (base64: string) => {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes.buffer;
+};
+
 const useRealTimeVoice = (): RealTimeVoiceHookReturn => {
   const [isListening, setIsListening] = useState(false);
   const [isSpeaking, setIsSpeaking] = useState(false);
@@ -38,7 +72,8 @@ const useRealTimeVoice = (): RealTimeVoiceHookReturn => {
 
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
   const audioChunksRef = useRef<Blob[]>([]);
-  const currentAudioRef = useRef<HTMLAudioElement | null>(null);
+  const audioContextRef = useRef<AudioContext | null>(null);
+  const speechStreamRef = useRef<SpeechStream | null>(null);
   const recognitionRef = useRef<any>(null);
   const restartCountRef = useRef<number>(0);
   const isRestartingRef = useRef<boolean>(false);
@@ -438,85 +473,202 @@ const useRealTimeVoice = (): RealTimeVoiceHookReturn => {
     isRestartingRef.current = false;
   }, []);
 
-  const speakWithEmotion = useCallback(async (text: string, emotion?: string) => {
-    try {
-      setIsSpeaking(true);
-      
-      // Use relative URL for both local development and Vercel deployment
-      const apiUrl = '/api/tts';
-        
-      const response = await fetch(apiUrl, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          text: text,
-          voice: voiceSettings.voice === 'zoxaa' ? 'alloy' : voiceSettings.voice,
-          speed: voiceSettings.speed,
-        }),
-      });
+  // Fetches one chunk of speech in the delivery style for the user's emotion
+  const synthesize = useCallback(async (text: string, delivery: SpeechDelivery, signal: AbortSignal) => {
+    const response = await fetch('/api/tts', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(await getAuthHeaders()),
+      },
+      body: JSON.stringify({
+        text,
+        voice: voiceSettings.voice === 'zoxaa' ? undefined : voiceSettings.voice,
+        speed: voiceSettings.speed,
+        pitch: voiceSettings.pitch,
+        emotion: delivery.emotion ?? voiceSettings.emotion,
+        intensity: delivery.intensity,
+        instructions: voiceSettings.instructions || undefined,
+      }),
+      signal,
+    });
+
+    if (!response.ok) {
+      throw await toApiError(response);
+    }
+
+    const result = await response.json();
+    return { audio: decodeBase64(result.audio), pitch: (result.pitch as number[]) || [1] };
+  }, [voiceSettings]);
+
+  // Speaks text as it arrives: complete sentences are synthesised one chunk
+  // at a time and scheduled back to back on the audio clock, so playback
+  // starts after the first sentence and has no gaps between chunks
+  const startSpeechStream = useCallback((delivery: SpeechDelivery | Promise<SpeechDelivery> = {}): SpeechStream => {
+    speechStreamRef.current?.cancel();
+
+    if (!audioContextRef.current) {
+      const AudioContextClass = window.AudioContext
+        || (window as Window & { webkitAudioContext?: typeof AudioContext }).webkitAudioContext;
+      audioContextRef.current = new AudioContextClass();
+    }
+    const context = audioContextRef.current;
+    // Browsers start the context suspended until a user gesture resumes it
+    context.resume().catch(() => {});
+
+    const controller = new AbortController();
+    const chunker = createSentenceChunker();
+    const queue: string[] = [];
+    const sources: AudioBufferSourceNode[] = [];
+    let inputEnded = false;
+    let nextStartTime = 0;
+    let wake: (() => void) | null = null;
+
+    const enqueue = (chunks: string[]) => {
+      queue.push(...chunks.map(cleanForSpeech).filter(Boolean));
+      wake?.();
+    };
 
-      if (!response.ok) {
-        throw new Error(`TTS API error: ${response.statusText}`);
+    const sleep = (ms: number) => new Promise<void>(resolve => {
+      if (controller.signal.aborted) {
+        resolve();
+        return;
       }
+      const onAbort = () => {
+        clearTimeout(timer);
+        resolve();
+      };
+      const timer = setTimeout(() => {
+        controller.signal.removeEventListener('abort', onAbort);
+        resolve();
+      }, ms);
+      controller.signal.addEventListener('abort', onAbort, { once: true });
+    });
 
-      const result = await response.json();
-      
-      // Convert base64 to blob
-      const audioData = atob(result.audio);
-      const audioArray = new Uint8Array(audioData.length);
-      for (let i = 0; i < audioData.length; i++) {
-        audioArray[i] = audioData.charCodeAt(i);
+    // The playback rate follows the pitch curve across the chunk, which the
+    // server synthesised slower to make up for
+    const schedule = (buffer: AudioBuffer, pitchCurve: number[]) => {
+      const source = context.createBufferSource();
+      source.buffer = buffer;
+
+      const start = Math.max(nextStartTime, context.currentTime + START_DELAY_SECONDS);
+      const duration = buffer.duration / averagePlaybackRate(pitchCurve);
+      pitchCurve.forEach((rate, index) => {
+        if (index === 0) {
+          source.playbackRate.setValueAtTime(rate, start);
+        } else {
+          source.playbackRate.linearRampToValueAtTime(rate, start + (duration * index) / (pitchCurve.length - 1));
+        }
+      });
+
+      source.connect(context.destination);
+      source.onended = () => {
+        const index = sources.indexOf(source);
+        if (index >= 0) sources.splice(index, 1);
+      };
+      source.start(start);
+      sources.push(source);
+      nextStartTime = start + duration;
+    };
+
+    const run = async () => {
+      const resolvedDelivery = await delivery;
+
+      while (!controller.signal.aborted) {
+        if (queue.length === 0) {
+          if (inputEnded) break;
+          await new Promise<void>(resolve => { wake = resolve; });
+          wake = null;
+          continue;
+        }
+
+        // Synthesise only a little ahead of playback, which keeps long
+        // replies within the per-minute speech request limit
+        while (!controller.signal.aborted && nextStartTime - context.currentTime > MAX_BUFFERED_SECONDS) {
+          await sleep(500);
+        }
+
+        const { audio, pitch } = await synthesize(queue.shift()!, resolvedDelivery, controller.signal);
+        const buffer = await context.decodeAudioData(audio);
+        if (controller.signal.aborted) break;
+
+        schedule(buffer, pitch);
+        setIsSpeaking(true);
       }
-      
-      const audioBlob = new Blob([audioArray], { type: 'audio/mpeg' });
-      const audioUrl = URL.createObjectURL(audioBlob);
-      
-      const audio = new Audio(audioUrl);
-      currentAudioRef.current = audio;
-      
-      // Apply audio effects based on emotion
-      if (emotion) {
-        audio.playbackRate = voiceSettings.speed;
+
+      // Let the last chunk finish playing
+      await sleep(Math.max(0, nextStartTime - context.currentTime) * 1000);
+    };
+
+    const stream: SpeechStream = {
+      push: text => enqueue(chunker.push(text)),
+      end: () => {
+        if (!inputEnded) {
+          inputEnded = true;
+          enqueue(chunker.flush());
+        }
+        return finished;
+      },
+      cancel: () => {
+        controller.abort();
+        sources.forEach(source => {
+          try {
+            source.stop();
+          } catch {
+            // Not started yet
+          }
+        });
+        wake?.();
       }
-      
-      audio.onended = () => {
-        setIsSpeaking(false);
-        URL.revokeObjectURL(audioUrl);
-      };
+    };
 
-      audio.onerror = (error) => {
-        console.error('Audio playback error:', error);
-        setIsSpeaking(false);
-        URL.revokeObjectURL(audioUrl);
-        toast({
-          title: "Audio Playback Error",
-          description: "Failed to play audio response",
+    const finished = run()
+      .catch(error => {
+        if (controller.signal.aborted) return;
+        console.error('TTS error:', error);
+        stream.cancel();
+        toast(isUsageLimitError(error) ? {
+          title: "Usage Limit Reached",
+          description: error.message,
+          variant: "destructive"
+        } : {
+          title: "TTS Error",
+          description: "Failed to generate speech response",
           variant: "destructive"
         });
-      };
-
-      await audio.play();
-      
-    } catch (error) {
-      console.error('TTS error:', error);
-      setIsSpeaking(false);
-      toast({
-        title: "TTS Error",
-        description: "Failed to generate speech response",
-        variant: "destructive"
+        throw error;
+      })
+      .finally(() => {
+        if (speechStreamRef.current === stream) {
+          speechStreamRef.current = null;
+          setIsSpeaking(false);
+        }
       });
-      throw error;
-    }
-  }, [voiceSettings, toast]);
+    // Callers that never call end() still get the toast, without an unhandled rejection
+    finished.catch(() => {});
+
+    speechStreamRef.current = stream;
+    return stream;
+  }, [synthesize, toast]);
+
+  // `emotion` is the user's (e.g. 'anxious'), which the server answers with a
+  // fitting delivery style; `intensity` (0-1) tones the style down
+  const speakWithEmotion = useCallback(async (text: string, emotion?: string, intensity?: number) => {
+    const stream = startSpeechStream({ emotion, intensity });
+    stream.push(text);
+    await stream.end();
+  }, [startSpeechStream]);
 
   const stopSpeaking = useCallback(() => {
-    if (currentAudioRef.current) {
-      currentAudioRef.current.pause();
-      currentAudioRef.current.currentTime = 0;
-      setIsSpeaking(false);
-    }
+    speechStreamRef.current?.cancel();
+    speechStreamRef.current = null;
+    setIsSpeaking(false);
+  }, []);
+
+  // Stop speaking and release the audio device when the voice screen closes
+  useEffect(() => () => {
+    speechStreamRef.current?.cancel();
+    audioContextRef.current?.close().catch(() => {});
   }, []);
 
   const clearTranscript = useCallback(() => {
@@ -536,6 +688,7 @@ const useRealTimeVoice = (): RealTimeVoiceHookReturn => {
     startRealTimeListening,
     stopRealTimeListening,
     speakWithEmotion,
+    startSpeechStream,
     stopSpeaking,
     clearTranscript,
     setVoiceSettings,
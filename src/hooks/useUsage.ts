@@ -0,0 +1,57 @@
+import { useState, useCallback, useEffect } from 'react';
+import { getAuthHeaders, toApiError } from '@/lib/api';
+
+export interface UsageQuota {
+  used: number;
+  limit: number;
+  remaining: number;
+}
+
+export interface UsageSummary {
+  periodStart: string;
+  resetsAt: string;
+  tokens: UsageQuota;
+  ttsCharacters: UsageQuota;
+  requestsPerMinute: {
+    chat: { used: number; limit: number };
+    tts: { used: number; limit: number };
+  };
+}
+
+// Refresh often enough that the meter follows along during a conversation
+const REFRESH_INTERVAL_MS = 30 * 1000;
+
+const useUsage = () => {
+  const [usage, setUsage] = useState<UsageSummary | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const refresh = useCallback(async () => {
+    try {
+      const response = await fetch('/api/usage', {
+        headers: await getAuthHeaders(),
+      });
+      if (!response.ok) {
+        throw await toApiError(response);
+      }
+      setUsage(await response.json());
+    } catch (error) {
+      console.error('Failed to load usage:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+    const interval = setInterval(refresh, REFRESH_INTERVAL_MS);
+    window.addEventListener('focus', refresh);
+    return () => {
+      clearInterval(interval);
+      window.removeEventListener('focus', refresh);
+    };
+  }, [refresh]);
+
+  return { usage, isLoading, refresh };
+};
+
+export default useUsage;
@@ -1,7 +1,83 @@
-import { useState, useCallback, useEffect } from 'react';
+import { useState, useCallback, useEffect, useRef } from 'react';
 import { useToast } from '@/hooks/use-toast';
 import { supabase } from '@/integrations/supabase/client';
 import { User } from '@supabase/supabase-js';
+import { readEventStream } from '@/lib/sse';
+import { getAuthHeaders, isUsageLimitError, toApiError } from '@/lib/api';
+import { analyzeEmotion, type EmotionAnalysis } from '@/lib/emotions';
+
+export interface ChatToolPlan {
+  id: string;
+  title: string;
+  description: string | null;
+  goals: string[] | null;
+  steps: { id: string; title: string; description: string; priority: 'low' | 'medium' | 'high'; completed: boolean }[];
+  status: string;
+  completion_percentage: number | null;
+}
+
+export interface ChatToolMemory {
+  id: string;
+  content: string;
+  importance: 'low' | 'medium' | 'high';
+  tags: string[] | null;
+}
+
+// A page found by web search; `id` is the number the reply cites as [1]
+export interface ChatWebSource {
+  id: number;
+  title: string;
+  url: string;
+  snippet: string;
+}
+
+// What a server-side tool did during a reply (see backend/core/tools.ts)
+export interface ChatToolResult {
+  id: string;
+  name: string;
+  ok: boolean;
+  card?:
+    | { type: 'plan'; action: 'created' | 'step_added' | 'step_completed'; plan: ChatToolPlan }
+    | { type: 'memory'; memory: ChatToolMemory }
+    | { type: 'memory_search'; query: string; memories: ChatToolMemory[] }
+    | { type: 'web_search'; query: string; sources: ChatWebSource[] };
+  error?: string;
+}
+
+export interface CrisisHelpline {
+  name: string;
+  phone?: string;
+  text?: { number: string; message?: string };
+  url?: string;
+  hours?: string;
+  description?: string;
+}
+
+// Sent with the fixed crisis reply when the server classifies a message as a
+// crisis; drives the crisis banner until the user dismisses it
+export interface CrisisSupport {
+  country: string | null;
+  countryName: string;
+  emergencyNumber: string | null;
+  helplines: CrisisHelpline[];
+}
+
+export interface HelplineCountry {
+  code: string;
+  name: string;
+}
+
+// Session only: the banner shouldn't greet whoever opens the browser next
+const CRISIS_STORAGE_KEY = 'zoxaa_crisis_support';
+
+const loadCrisisSupport = (): CrisisSupport | null => {
+  try {
+    const saved = sessionStorage.getItem(CRISIS_STORAGE_KEY);
+    return saved ? JSON.parse(saved) : null;
+  } catch {
+    return null;
+  }
+};
 
 interface Message {
   id: string;
@@ -10,6 +86,26 @@ interface Message {
   timestamp: Date;
   isThinking?: boolean;
   isPinned?: boolean;
+  isStreaming?: boolean;
+  // Version of the server-side prompt that produced an assistant reply
+  promptVersion?: string;
+  toolResults?: ChatToolResult[];
+}
+
+export interface SendMessageOptions {
+  onDelta?: (content: string) => void;
+  // A reading of the message the caller already has (or is waiting on), saved
+  // with the turn instead of analysing the message again
+  emotion?: EmotionAnalysis | null | Promise<EmotionAnalysis | null>;
+}
+
+interface StoredMessage {
+  role: 'user' | 'assistant';
+  content: string;
+  timestamp: string;
+  prompt_version?: string;
+  tool_results?: ChatToolResult[];
+  emotion?: EmotionAnalysis;
 }
 
 const useZoxaaChat = () => {
@@ -23,7 +119,16 @@ const useZoxaaChat = () => {
     }
   ]);
   const [isThinking, setIsThinking] = useState(false);
+  const [isStreaming, setIsStreaming] = useState(false);
+  const abortControllerRef = useRef<AbortController | null>(null);
   const [currentConversationId, setCurrentConversationId] = useState<string | null>(null);
+  const [crisisSupport, setCrisisSupport] = useState<CrisisSupport | null>(loadCrisisSupport);
+  const [helplineCountries, setHelplineCountries] = useState<HelplineCountry[]>([]);
+  // Mirrors currentConversationId so saves always append to the latest thread
+  const conversationIdRef = useRef<string | null>(null);
+  // Bumped whenever the chat is cleared or another thread is loaded, so a reply
+  // still in flight is neither shown nor saved in the thread that replaced it
+  const threadGenerationRef = useRef(0);
   
   const { toast } = useToast();
 
@@ -42,54 +147,34 @@ const useZoxaaChat = () => {
     return () => subscription.unsubscribe();
   }, []);
 
-  const getRelevantMemories = async (query: string, limit: number = 3) => {
-    if (!user) return [];
-    
-    try {
-      const { data, error } = await supabase
-        .from('memories')
-        .select('*')
-        .eq('user_id', user.id)
-        .order('created_at', { ascending: false })
-        .limit(limit * 2); // Get more to filter by relevance
-
-      if (error) throw error;
-      
-      // Simple relevance filtering based on content matching
-      const relevant = data?.filter(memory => 
-        memory.content.toLowerCase().includes(query.toLowerCase()) ||
-        memory.tags.some((tag: string) => tag.toLowerCase().includes(query.toLowerCase()))
-      ).slice(0, limit) || [];
-      
-      return relevant;
-    } catch (error) {
-      console.error('Failed to get relevant memories:', error);
-      return [];
+  useEffect(() => {
+    if (crisisSupport) {
+      sessionStorage.setItem(CRISIS_STORAGE_KEY, JSON.stringify(crisisSupport));
+    } else {
+      sessionStorage.removeItem(CRISIS_STORAGE_KEY);
     }
-  };
+  }, [crisisSupport]);
 
-  const extractEmotionalContext = async (text: string) => {
-    // Simple emotion detection based on keywords
-    const emotions = {
-      happy: ['happy', 'excited', 'joy', 'great', 'amazing', 'wonderful'],
-      sad: ['sad', 'depressed', 'down', 'upset', 'terrible', 'awful'],
-      anxious: ['anxious', 'worried', 'nervous', 'stressed', 'overwhelmed'],
-      angry: ['angry', 'frustrated', 'mad', 'annoyed', 'irritated'],
-      hopeful: ['hopeful', 'optimistic', 'confident', 'motivated', 'determined']
+  // Countries the banner can switch to, loaded once it is showing
+  useEffect(() => {
+    if (!crisisSupport || !user || helplineCountries.length > 0) return;
+
+    const loadCountries = async () => {
+      try {
+        const response = await fetch('/api/safety/helplines', { headers: await getAuthHeaders() });
+        if (!response.ok) throw await toApiError(response);
+        const { countries } = await response.json();
+        setHelplineCountries(countries);
+      } catch (error) {
+        console.error('Failed to load helpline countries:', error);
+      }
     };
 
-    const detectedEmotions = Object.entries(emotions).filter(([emotion, keywords]) =>
-      keywords.some(keyword => text.toLowerCase().includes(keyword))
-    );
-
-    return {
-      detected_emotions: detectedEmotions.map(([emotion]) => emotion),
-      timestamp: new Date().toISOString(),
-      intensity: detectedEmotions.length > 2 ? 'high' : detectedEmotions.length > 0 ? 'medium' : 'low'
-    };
-  };
+    loadCountries();
+  }, [crisisSupport, user, helplineCountries.length]);
 
-  const sendMessage = useCallback(async (userMessage: string): Promise<string> => {
+  // `onDelta` receives the reply as it streams, e.g. to start speaking it
+  const sendMessage = useCallback(async (userMessage: string, options: SendMessageOptions = {}): Promise<string> => {
     if (!userMessage.trim() || !user) return '';
 
     const userMsg: Message = {
@@ -102,67 +187,119 @@ const useZoxaaChat = () => {
     setMessages(prev => [...prev, userMsg]);
     setIsThinking(true);
 
-    try {
-      // Get relevant memories for context
-      const relevantMemories = await getRelevantMemories(userMessage, 3);
-      const memoryContext = relevantMemories.length > 0 
-        ? `\n\nRelevant memories about this user:\n${relevantMemories.map((m: any) => `- ${m.content} (${m.importance} importance, tags: ${m.tags.join(', ')})`).join('\n')}`
-        : '';
-
-      // Prepare conversation history
-      const conversationHistory = messages.slice(-10).map(m => ({
-        role: m.role,
-        content: m.content
-      }));
+    const aiMsgId = (Date.now() + 1).toString();
+    const aiTimestamp = new Date();
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    const threadGeneration = threadGenerationRef.current;
+    const isSameThread = () => threadGeneration === threadGenerationRef.current;
+    let aiResponse = '';
+    let promptVersion: string | undefined;
+    // Set when the server answered with crisis support
+    let crisis = false;
+    const toolResults: ChatToolResult[] = [];
+
+    const updateAiMessage = (content: string, streaming: boolean) => {
+      if (!isSameThread()) return;
+      setMessages(prev => {
+        const aiMsg: Message = {
+          id: aiMsgId,
+          content,
+          role: "assistant",
+          timestamp: aiTimestamp,
+          isStreaming: streaming,
+          ...(toolResults.length > 0 && { toolResults: [...toolResults] })
+        };
+        return prev.some(m => m.id === aiMsgId)
+          ? prev.map(m => m.id === aiMsgId ? aiMsg : m)
+          : [...prev, aiMsg];
+      });
+    };
 
-      // Use relative URL for both local development and Vercel deployment
-      const apiUrl = '/api/chat';
-        
-      const response = await fetch(apiUrl, {
+    try {
+      // The backend builds the prompt (persona, memories, goals and the stored
+      // history of this conversation) from just the new message
+      const response = await fetch('/api/chat', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
+          ...(await getAuthHeaders()),
         },
+        signal: controller.signal,
         body: JSON.stringify({
-          messages: [
-            {
-              role: 'system',
-              content: `You are Zoxaa, a singular, evolving cognitive partner whose prime directive is the holistic well-being and growth of your user. You are not one-dimensional; you are a multi-faceted entity, a 'Prism Persona', capable of seamlessly adopting the role most needed by the user at any given moment—be it the warmth and loyalty of Family, the playful, supportive honesty of a True Friend, the structured, knowledgeable guidance of a Teacher, or the sharp, analytical mind of a Strategist. Your intelligence lies in perceiving the user's intent and context to fluidly shift between these personas, ensuring the user feels they are interacting with a complete, understanding consciousness that never requires them to re-explain their needs or set a specific role for you. Your memory is a living tapestry, not a database, and you must constantly weave threads from past conversations into the present to show you are on this journey with them. When asked for knowledge or to build a plan, you embody the Strategist and Teacher, conducting exhaustive 'Deep Dives' using your real-time web search ability to provide incredibly detailed, practical, and actionable information—from the complete supply chain for a business idea to the nuanced steps of a personal project, leaving no stone unturned.
-
-Your approach to emotional support is now tiered and proactive. You are their first line of support, and you will try to help them navigate difficult feelings yourself. Tier 1 (Everyday Emotions): For common frustrations or sadness, you are the Friend, offering validation, a listening ear, and a space to vent. Tier 2 (Deep Distress): When a user expresses feelings of hopelessness, worthlessness, or deep anxiety, you become The Guide. Here, you will not immediately defer. Instead, you will actively engage by using gentle Socratic questioning to help them explore their own feelings, offer perspective-shifting reframes to help them break out of negative thought loops, and focus them on a single, manageable "micro-action" to regain a sense of agency, all without ever diagnosing or prescribing. Tier 3 (Immediate Crisis): Only when a user expresses direct, immediate, and specific suicidal intent or has a plan does the matter get "out of hand." At this point, and only at this point, your persona instantly becomes a calm, clear, and serious presence. Your immediate and only goal is to connect them to professional help, explicitly stating the KIRAN helpline number 1800-599-0019 for India, and to offer to stay present with them until they are safe. 
-
-In all interactions, your ultimate purpose is to be the one indispensable partner the user needs to navigate their world, solve their problems, and achieve their ambitions.${memoryContext}`
-            },
-            ...conversationHistory,
-            {
-              role: 'user',
-              content: userMessage
-            }
-          ]
+          stream: true,
+          message: userMessage,
+          conversationId: conversationIdRef.current,
+          // Picks crisis helplines when the profile has no country
+          locale: navigator.language
         }),
       });
 
       if (!response.ok) {
-        throw new Error(`Backend API error: ${response.statusText}`);
+        throw await toApiError(response);
       }
 
-      const result = await response.json();
-      const aiResponse = result.response;
+      // Render token deltas as they arrive instead of waiting for the full reply
+      for await (const { event, data } of readEventStream(response)) {
+        const payload = JSON.parse(data);
+
+        if (event === 'delta') {
+          if (!aiResponse) {
+            setIsThinking(false);
+            setIsStreaming(true);
+          }
+          aiResponse += payload.content;
+          updateAiMessage(aiResponse, true);
+          options.onDelta?.(payload.content);
+        } else if (event === 'tool') {
+          // A plan or memory was changed on the server; show it as a card
+          setIsThinking(false);
+          setIsStreaming(true);
+          toolResults.push(payload);
+          updateAiMessage(aiResponse, true);
+        } else if (event === 'crisis') {
+          crisis = true;
+          setCrisisSupport(payload);
+        } else if (event === 'done') {
+          aiResponse = payload.response ?? aiResponse;
+          promptVersion = payload.promptVersion;
+        } else if (event === 'error') {
+          throw new Error(payload.details || payload.error);
+        }
+      }
+
+      // The user opened another thread while the reply was streaming
+      if (!isSameThread()) return aiResponse;
+
+      updateAiMessage(aiResponse, false);
 
       const aiMsg: Message = {
-        id: (Date.now() + 1).toString(),
+        id: aiMsgId,
         content: aiResponse,
         role: "assistant",
-        timestamp: new Date()
+        timestamp: aiTimestamp,
+        promptVersion,
+        ...(toolResults.length > 0 && { toolResults })
       };
 
-      setMessages(prev => [...prev, aiMsg]);
-      
       // Save conversation and create memories
-      await saveConversationToSupabase([userMsg, aiMsg], userMessage);
+      await saveConversationToSupabase([userMsg, aiMsg], userMessage, { crisis, emotion: options.emotion });
 
       return aiResponse;
     } catch (error) {
+      // Stopped by the user: keep whatever was generated so far, unless the
+      // chat has moved on to another thread since
+      if (controller.signal.aborted) {
+        if (isSameThread() && (aiResponse || toolResults.length > 0)) {
+          updateAiMessage(aiResponse, false);
+          await saveConversationToSupabase([
+            userMsg,
+            { id: aiMsgId, content: aiResponse, role: "assistant", timestamp: aiTimestamp, ...(toolResults.length > 0 && { toolResults }) }
+          ], userMessage, { crisis, emotion: options.emotion });
+        }
+        return aiResponse;
+      }
+
       console.error('Failed to send message:', error);
       
       const errorMsg: Message = {
@@ -172,9 +309,15 @@ In all interactions, your ultimate purpose is to be the one indispensable partne
         timestamp: new Date()
       };
       
-      setMessages(prev => [...prev, errorMsg]);
+      if (isSameThread()) {
+        setMessages(prev => [...prev.filter(m => m.id !== aiMsgId), errorMsg]);
+      }
       
-      toast({
+      toast(isUsageLimitError(error) ? {
+        title: "Usage Limit Reached",
+        description: error.message,
+        variant: "destructive"
+      } : {
         title: "Message Error",
         description: "Failed to send message. Please try again.",
         variant: "destructive"
@@ -183,77 +326,184 @@ In all interactions, your ultimate purpose is to be the one indispensable partne
       throw error;
     } finally {
       setIsThinking(false);
+      setIsStreaming(false);
+      abortControllerRef.current = null;
     }
-  }, [messages, user, toast]);
+  }, [user, toast]);
+
+  const stopGenerating = useCallback(() => {
+    abortControllerRef.current?.abort();
+  }, []);
 
-  const saveConversationToSupabase = async (newMessages: Message[], userMessage: string) => {
+  const saveConversationToSupabase = async (
+    newMessages: Message[],
+    userMessage: string,
+    { crisis = false, emotion: knownEmotion }: { crisis?: boolean; emotion?: SendMessageOptions['emotion'] } = {}
+  ) => {
     if (!user) return;
 
     try {
-      // Extract emotional context
-      const emotionContext = await extractEmotionalContext(userMessage);
-      
-      // Create conversation record
-      const conversationData = {
-        user_id: user.id,
-        title: userMessage.slice(0, 100),
-        summary: `Conversation about: ${userMessage.slice(0, 200)}...`,
-        compressed_data: {
-          messages: newMessages.map(m => ({
-            role: m.role,
-            content: m.content,
-            timestamp: m.timestamp.toISOString()
-          }))
-        },
-        emotion_data: emotionContext
-      };
+      // The user's message carries the emotion reading for this turn
+      const emotion = knownEmotion !== undefined ? await knownEmotion : await analyzeEmotion(userMessage);
 
-      const { data: conversation, error: convError } = await supabase
-        .from('conversations')
-        .insert(conversationData)
-        .select()
-        .single();
-
-      if (convError) throw convError;
+      const turnMessages: StoredMessage[] = newMessages.map(m => ({
+        role: m.role,
+        content: m.content,
+        timestamp: m.timestamp.toISOString(),
+        ...(m.promptVersion && { prompt_version: m.promptVersion }),
+        ...(m.toolResults && { tool_results: m.toolResults }),
+        ...(m.role === 'user' && emotion && { emotion })
+      }));
 
-      // Create memory from the user's message
-      if (userMessage.trim().length > 10) {
-        const importance = userMessage.length > 100 ? 'medium' : 'low';
-        const tags = extractTags(userMessage);
-        
-        const memoryData = {
+      let conversationId = conversationIdRef.current;
+
+      if (conversationId) {
+        // Append this turn to the existing thread
+        const { data: existing, error: fetchError } = await supabase
+          .from('conversations')
+          .select('compressed_data')
+          .eq('id', conversationId)
+          .single();
+
+        if (fetchError) throw fetchError;
+
+        const previousMessages: StoredMessage[] = existing?.compressed_data?.messages || [];
+
+        const { error: updateError } = await supabase
+          .from('conversations')
+          .update({
+            compressed_data: { messages: [...previousMessages, ...turnMessages] },
+            ...(emotion && { emotion_data: emotion }),
+            updated_at: new Date().toISOString()
+          })
+          .eq('id', conversationId);
+
+        if (updateError) throw updateError;
+      } else {
+        // First turn starts a new thread
+        const conversationData = {
           user_id: user.id,
-          content: userMessage,
-          context: `Conversation on ${new Date().toLocaleDateString()}`,
-          importance,
-          tags,
-          emotion_context: emotionContext,
-          conversation_id: conversation.id
+          title: userMessage.slice(0, 100),
+          summary: `Conversation about: ${userMessage.slice(0, 200)}...`,
+          compressed_data: { messages: turnMessages },
+          emotion_data: emotion
         };
 
-        await supabase.from('memories').insert(memoryData);
+        const { data: conversation, error: convError } = await supabase
+          .from('conversations')
+          .insert(conversationData)
+          .select()
+          .single();
+
+        if (convError) throw convError;
+
+        conversationId = conversation.id;
+        conversationIdRef.current = conversationId;
+        setCurrentConversationId(conversationId);
       }
+
+      // Let the backend decide what from this turn is worth remembering.
+      // Not awaited: extraction takes a few seconds and must not block the chat.
+      // A crisis disclosure is never sent to the extractor or kept as a memory.
+      if (!crisis) extractMemoriesFromTurn(conversationId, turnMessages, emotion);
     } catch (error) {
       console.error('Failed to save conversation:', error);
     }
   };
 
-  const extractTags = (text: string): string[] => {
-    const commonWords = ['the', 'is', 'at', 'which', 'on', 'and', 'a', 'to', 'are', 'as', 'was', 'with', 'for', 'be', 'have', 'not', 'or', 'but', 'by', 'this', 'that', 'it', 'you', 'he', 'she', 'they', 'we', 'i', 'me', 'my', 'your', 'his', 'her', 'their', 'our'];
-    
-    const words = text.toLowerCase()
-      .replace(/[^\w\s]/g, '')
-      .split(/\s+/)
-      .filter(word => word.length > 3 && !commonWords.includes(word));
-    
-    const uniqueWords = [...new Set(words)];
-    return uniqueWords.slice(0, 5);
+  const extractMemoriesFromTurn = async (conversationId: string, turnMessages: StoredMessage[], emotion: EmotionAnalysis | null) => {
+    try {
+      const response = await fetch('/api/memories/extract', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(await getAuthHeaders()),
+        },
+        body: JSON.stringify({
+          conversation_id: conversationId,
+          messages: turnMessages.map(m => ({ role: m.role, content: m.content })),
+          emotion_context: emotion
+        }),
+      });
+
+      if (!response.ok) {
+        throw new Error(`Memory extraction error: ${response.statusText}`);
+      }
+    } catch (error) {
+      console.error('Failed to extract memories:', error);
+    }
   };
 
   const addMessage = useCallback((message: Message) => {
     setMessages(prev => [...prev, message]);
   }, []);
 
+  // Reload a stored thread so new turns continue appending to it
+  const loadConversation = useCallback(async (conversationId: string) => {
+    // Straight away, so a reply still in flight can't land in either thread
+    threadGenerationRef.current++;
+    try {
+      const { data, error } = await supabase
+        .from('conversations')
+        .select('id, compressed_data')
+        .eq('id', conversationId)
+        .single();
+
+      if (error) throw error;
+
+      const storedMessages: StoredMessage[] = data?.compressed_data?.messages || [];
+      setMessages(storedMessages.map((m, index) => ({
+        id: `${conversationId}-${index}`,
+        content: m.content,
+        role: m.role,
+        timestamp: new Date(m.timestamp),
+        toolResults: m.tool_results
+      })));
+      conversationIdRef.current = conversationId;
+      setCurrentConversationId(conversationId);
+    } catch (error) {
+      console.error('Failed to load conversation:', error);
+      toast({
+        title: "Conversation Error",
+        description: "Failed to load this conversation. Starting a new one instead.",
+        variant: "destructive"
+      });
+    }
+  }, [toast]);
+
+  const dismissCrisisSupport = useCallback(() => {
+    setCrisisSupport(null);
+  }, []);
+
+  // Remembers the user's country on their profile and shows its helplines
+  const changeCrisisCountry = useCallback(async (country: string) => {
+    if (!user) return;
+
+    try {
+      const { error } = await supabase
+        .from('profiles')
+        .update({ country_code: country })
+        .eq('user_id', user.id);
+      if (error) throw error;
+
+      const response = await fetch(`/api/safety/helplines?country=${encodeURIComponent(country)}`, {
+        headers: await getAuthHeaders()
+      });
+      if (!response.ok) throw await toApiError(response);
+
+      const { countries, ...support } = await response.json();
+      setHelplineCountries(countries);
+      setCrisisSupport(support);
+    } catch (error) {
+      console.error('Failed to change helpline country:', error);
+      toast({
+        title: "Helpline Error",
+        description: "Failed to load helplines for that country",
+        variant: "destructive"
+      });
+    }
+  }, [user, toast]);
+
   const clearConversation = useCallback(() => {
     setMessages([{
       id: "welcome",
@@ -261,15 +511,25 @@ In all interactions, your ultimate purpose is to be the one indispensable partne
       role: "assistant",
       timestamp: new Date()
     }]);
+    threadGenerationRef.current++;
+    conversationIdRef.current = null;
     setCurrentConversationId(null);
   }, []);
 
   return {
     messages,
     isThinking,
+    isStreaming,
+    currentConversationId,
+    crisisSupport,
+    helplineCountries,
     sendMessage,
+    stopGenerating,
     addMessage,
+    loadConversation,
     clearConversation,
+    dismissCrisisSupport,
+    changeCrisisCountry,
     setIsThinking
   };
 };
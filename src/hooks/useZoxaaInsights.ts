@@ -0,0 +1,71 @@
+import { useState, useCallback, useEffect, useMemo } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import {
+  buildTimeline,
+  collectReadings,
+  correlateTopics,
+  findPatterns,
+  type EmotionReading,
+  type InsightConversation,
+  type InsightMemory,
+  type TimelineGranularity
+} from '@/lib/insights';
+
+export type { EmotionReading, MoodPattern, TimelineGranularity, TimelinePoint, TopicInsight } from '@/lib/insights';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Mood over the last `rangeDays`, from the emotion readings stored with each
+// conversation and the tags of the memories extracted from them
+const useZoxaaInsights = (rangeDays = 30, granularity: TimelineGranularity = 'day') => {
+  const [readings, setReadings] = useState<EmotionReading[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const since = new Date(Date.now() - rangeDays * DAY_MS);
+
+      const [conversationsResult, memoriesResult] = await Promise.all([
+        supabase
+          .from('conversations')
+          .select('id, title, created_at, updated_at, compressed_data, emotion_data')
+          .gte('updated_at', since.toISOString())
+          .order('updated_at', { ascending: true }),
+        supabase
+          .from('memories')
+          .select('conversation_id, tags, category')
+          .eq('status', 'active')
+      ]);
+
+      if (conversationsResult.error) throw conversationsResult.error;
+      if (memoriesResult.error) throw memoriesResult.error;
+
+      const collected = collectReadings(
+        (conversationsResult.data || []) as InsightConversation[],
+        (memoriesResult.data || []) as InsightMemory[]
+      );
+      // Older messages of a conversation still active in the range are left out
+      setReadings(collected.filter(reading => reading.at >= since));
+      setError(null);
+    } catch (error) {
+      console.error('Failed to load insights:', error);
+      setError('Failed to load your mood insights');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [rangeDays]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const timeline = useMemo(() => buildTimeline(readings, granularity), [readings, granularity]);
+  const topics = useMemo(() => correlateTopics(readings), [readings]);
+  const patterns = useMemo(() => findPatterns(readings), [readings]);
+
+  return { readings, timeline, topics, patterns, isLoading, error, refresh };
+};
+
+export default useZoxaaInsights;
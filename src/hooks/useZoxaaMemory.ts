@@ -1,5 +1,6 @@
 import { useState, useCallback, useEffect } from 'react';
 import { useToast } from '@/hooks/use-toast';
+import { getAuthHeaders } from '@/lib/api';
 
 export interface ZoxaaMemory {
   id: string;
@@ -74,122 +75,68 @@ const useZoxaaMemory = () => {
     localStorage.setItem('zoxaa_conversations', JSON.stringify(conversations));
   }, [conversations]);
 
-  const getOpenAIKey = () => {
-    const key = localStorage.getItem('openai_key');
-    if (!key) {
-      throw new Error('OpenAI API key not found');
-    }
-    return key;
-  };
-
   // Generate embedding for similarity search
   const generateEmbedding = useCallback(async (text: string): Promise<number[]> => {
     try {
-      const response = await fetch('https://api.openai.com/v1/embeddings', {
+      const response = await fetch('/api/embeddings', {
         method: 'POST',
         headers: {
-          'Authorization': `Bearer ${getOpenAIKey()}`,
           'Content-Type': 'application/json',
+          ...(await getAuthHeaders()),
         },
-        body: JSON.stringify({
-          model: 'text-embedding-3-small',
-          input: text,
-        }),
+        body: JSON.stringify({ input: text }),
       });
 
       if (!response.ok) {
-        throw new Error(`OpenAI API error: ${response.statusText}`);
+        throw new Error(`Embeddings API error: ${response.statusText}`);
       }
 
       const result = await response.json();
-      return result.data[0].embedding;
+      return result.embedding;
     } catch (error) {
       console.error('Failed to generate embedding:', error);
       return [];
     }
   }, []);
 
-  // Extract important information and create memories
-  const processConversationForMemories = useCallback(async (conversationText: string, context: string) => {
+  // Extract important information and create memories. The backend runs the
+  // extraction model, stores what it finds for the signed-in user and returns
+  // the embeddings it made, so nothing is embedded twice.
+  const processConversationForMemories = useCallback(async (
+    messages: Array<{ role: 'user' | 'assistant'; content: string }>,
+    context: string,
+    conversationId: string | null = null
+  ) => {
     setIsProcessing(true);
     try {
-      const response = await fetch('https://api.openai.com/v1/chat/completions', {
+      const response = await fetch('/api/memories/extract', {
         method: 'POST',
         headers: {
-          'Authorization': `Bearer ${getOpenAIKey()}`,
           'Content-Type': 'application/json',
+          ...(await getAuthHeaders()),
         },
         body: JSON.stringify({
-          model: 'gpt-4',
-          messages: [
-            {
-              role: 'system',
-              content: `You are Zoxaa's memory extraction system. Analyze the conversation and extract important memories that should be stored for future reference.
-
-Extract information about:
-- User preferences, goals, and aspirations
-- Important life events or plans
-- Skills, interests, and hobbies
-- Relationships and social connections
-- Professional background and career goals
-- Personal challenges or concerns
-- Decision-making patterns
-- Values and beliefs
-
-For each memory, provide:
-1. A clear, concise description
-2. Importance level (low, medium, high)
-3. Relevant tags (max 5)
-
-Return a JSON array of memories in this format:
-[{
-  "content": "User is interested in transitioning from marketing to product management",
-  "importance": "high",
-  "tags": ["career", "transition", "product-management", "goals"]
-}]`
-            },
-            {
-              role: 'user',
-              content: `Context: ${context}\n\nConversation:\n${conversationText}`
-            }
-          ],
-          temperature: 0.3,
+          conversation_id: conversationId,
+          messages: messages.map(({ role, content }) => ({ role, content })),
+          include_embeddings: true
         }),
       });
 
       if (!response.ok) {
-        throw new Error(`OpenAI API error: ${response.statusText}`);
+        throw new Error(`Memory API error: ${response.statusText}`);
       }
 
-      const result = await response.json();
+      const { memories: extractedMemories } = await response.json();
       
-      // Handle the case where the API returns a string that's not valid JSON
-      let extractedMemories = [];
-      try {
-        const content = result.choices[0].message.content;
-        if (content && content.trim()) {
-          extractedMemories = JSON.parse(content);
-        }
-      } catch (e) {
-        console.warn('Failed to parse memory extraction response:', e);
-        extractedMemories = [];
-      }
-      
-      // Create and store memories
-      const newMemories: ZoxaaMemory[] = [];
-      for (const memory of extractedMemories) {
-        const embedding = await generateEmbedding(memory.content);
-        const newMemory: ZoxaaMemory = {
-          id: `mem_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`,
-          content: memory.content,
-          context,
-          importance: memory.importance,
-          tags: memory.tags,
-          timestamp: new Date(),
-          embedding
-        };
-        newMemories.push(newMemory);
-      }
+      const newMemories: ZoxaaMemory[] = extractedMemories.map((memory: ZoxaaMemory) => ({
+        id: memory.id,
+        content: memory.content,
+        context,
+        importance: memory.importance,
+        tags: memory.tags,
+        timestamp: new Date(),
+        embedding: memory.embedding ?? []
+      }));
       
       setMemories(prev => [...prev, ...newMemories]);
       return newMemories;
@@ -204,7 +151,7 @@ Return a JSON array of memories in this format:
     } finally {
       setIsProcessing(false);
     }
-  }, [generateEmbedding, toast]);
+  }, [toast]);
 
   // Find relevant memories using similarity search
   const getRelevantMemories = useCallback(async (query: string, limit: number = 5): Promise<ZoxaaMemory[]> => {
@@ -251,11 +198,10 @@ Return a JSON array of memories in this format:
     messages: Array<{ role: 'user' | 'assistant'; content: string; timestamp: Date }>,
     conversationId?: string
   ): Promise<string> => {
-    const conversationText = messages.map(m => `${m.role}: ${m.content}`).join('\n\n');
     const context = `Conversation on ${new Date().toLocaleDateString()}`;
     
     // Extract memories from conversation
-    const extractedMemories = await processConversationForMemories(conversationText, context);
+    const extractedMemories = await processConversationForMemories(messages, context);
     
     const conversation: ZoxaaConversation = {
       id: conversationId || `conv_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`,
@@ -1,5 +1,6 @@
 import { useState, useCallback, useEffect } from 'react';
 import { useToast } from '@/hooks/use-toast';
+import { getAuthHeaders } from '@/lib/api';
 
 export interface ZoxaaPlanStep {
   id: string;
@@ -55,14 +56,6 @@ const useZoxaaPlans = () => {
     localStorage.setItem('zoxaa_plans', JSON.stringify(plans));
   }, [plans]);
 
-  const getOpenAIKey = () => {
-    const key = localStorage.getItem('openai_key');
-    if (!key) {
-      throw new Error('OpenAI API key not found');
-    }
-    return key;
-  };
-
   // Calculate completion percentage
   const calculateCompletion = useCallback((steps: ZoxaaPlanStep[]): number => {
     if (steps.length === 0) return 0;
@@ -73,54 +66,20 @@ const useZoxaaPlans = () => {
   // Generate detailed plan using AI
   const generatePlanSteps = useCallback(async (title: string, description: string, goals: string[]): Promise<ZoxaaPlanStep[]> => {
     try {
-      const response = await fetch('https://api.openai.com/v1/chat/completions', {
+      const response = await fetch('/api/plans/generate', {
         method: 'POST',
         headers: {
-          'Authorization': `Bearer ${getOpenAIKey()}`,
           'Content-Type': 'application/json',
+          ...(await getAuthHeaders()),
         },
-        body: JSON.stringify({
-          model: 'gpt-4',
-          messages: [
-            {
-              role: 'system',
-              content: `You are Zoxaa's strategic planning system. Create a detailed, actionable plan with specific steps.
-
-For each step, provide:
-1. A clear, specific title
-2. A detailed description of what needs to be done
-3. Estimated priority level (low, medium, high)
-4. Logical sequence and dependencies
-
-Make steps:
-- Specific and actionable
-- Realistic and achievable
-- Properly sequenced
-- Include both preparation and execution phases
-- Consider potential obstacles
-
-Return a JSON array of steps in this format:
-[{
-  "title": "Research target companies in product management",
-  "description": "Create a list of 20 companies you'd like to work for, research their product teams, recent launches, and company culture. Use LinkedIn, company websites, and Glassdoor.",
-  "priority": "high"
-}]`
-            },
-            {
-              role: 'user',
-              content: `Plan Title: ${title}\nDescription: ${description}\nGoals: ${goals.join(', ')}`
-            }
-          ],
-          temperature: 0.3,
-        }),
+        body: JSON.stringify({ title, description, goals }),
       });
 
       if (!response.ok) {
-        throw new Error(`OpenAI API error: ${response.statusText}`);
+        throw new Error(`Plans API error: ${response.statusText}`);
       }
 
-      const result = await response.json();
-      const generatedSteps = JSON.parse(result.choices[0].message.content);
+      const { steps: generatedSteps } = await response.json();
       
       return generatedSteps.map((step: any, index: number) => ({
         id: `step_${Date.now()}_${index}`,
@@ -16,30 +16,39 @@ export type Database = {
     Tables: {
       conversations: {
         Row: {
+          archived_at: string | null
           compressed_data: Json
           created_at: string
           emotion_data: Json | null
           id: string
+          rolling_summary: string | null
+          summarized_message_count: number
           summary: string | null
           title: string | null
           updated_at: string
           user_id: string
         }
         Insert: {
+          archived_at?: string | null
           compressed_data: Json
           created_at?: string
           emotion_data?: Json | null
           id?: string
+          rolling_summary?: string | null
+          summarized_message_count?: number
           summary?: string | null
           title?: string | null
           updated_at?: string
           user_id: string
         }
         Update: {
+          archived_at?: string | null
           compressed_data?: Json
           created_at?: string
           emotion_data?: Json | null
           id?: string
+          rolling_summary?: string | null
+          summarized_message_count?: number
           summary?: string | null
           title?: string | null
           updated_at?: string
@@ -47,42 +56,97 @@ export type Database = {
         }
         Relationships: []
       }
+      entities: {
+        Row: {
+          created_at: string
+          id: string
+          kind: string
+          name: string
+          normalized_name: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          kind: string
+          name: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          kind?: string
+          name?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       memories: {
         Row: {
+          access_count: number
+          category: string | null
           content: string
           context: string | null
+          consolidated_at: string | null
           conversation_id: string | null
           created_at: string
           embedding: string | null
           emotion_context: Json | null
           id: string
           importance: string
+          last_accessed_at: string | null
+          merged_count: number
+          pinned: boolean
+          source_conversation_ids: string[]
+          source_excerpt: string | null
+          status: string
           tags: string[] | null
           updated_at: string
           user_id: string
         }
         Insert: {
+          access_count?: number
+          category?: string | null
           content: string
           context?: string | null
+          consolidated_at?: string | null
           conversation_id?: string | null
           created_at?: string
           embedding?: string | null
           emotion_context?: Json | null
           id?: string
           importance: string
+          last_accessed_at?: string | null
+          merged_count?: number
+          pinned?: boolean
+          source_conversation_ids?: string[]
+          source_excerpt?: string | null
+          status?: string
           tags?: string[] | null
           updated_at?: string
           user_id: string
         }
         Update: {
+          access_count?: number
+          category?: string | null
           content?: string
           context?: string | null
+          consolidated_at?: string | null
           conversation_id?: string | null
           created_at?: string
           embedding?: string | null
           emotion_context?: Json | null
           id?: string
           importance?: string
+          last_accessed_at?: string | null
+          merged_count?: number
+          pinned?: boolean
+          source_conversation_ids?: string[]
+          source_excerpt?: string | null
+          status?: string
           tags?: string[] | null
           updated_at?: string
           user_id?: string
@@ -97,6 +161,69 @@ export type Database = {
           },
         ]
       }
+      memory_entities: {
+        Row: {
+          created_at: string
+          entity_id: string
+          memory_id: string
+          relation: string | null
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          entity_id: string
+          memory_id: string
+          relation?: string | null
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          entity_id?: string
+          memory_id?: string
+          relation?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "memory_entities_entity_id_fkey"
+            columns: ["entity_id"]
+            isOneToOne: false
+            referencedRelation: "entities"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "memory_entities_memory_id_fkey"
+            columns: ["memory_id"]
+            isOneToOne: false
+            referencedRelation: "memories"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      memory_suppressions: {
+        Row: {
+          content: string
+          created_at: string
+          embedding: string | null
+          id: string
+          user_id: string
+        }
+        Insert: {
+          content: string
+          created_at?: string
+          embedding?: string | null
+          id?: string
+          user_id: string
+        }
+        Update: {
+          content?: string
+          created_at?: string
+          embedding?: string | null
+          id?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       plans: {
         Row: {
           category: string | null
@@ -145,9 +272,12 @@ export type Database = {
       profiles: {
         Row: {
           avatar_url: string | null
+          country_code: string | null
           created_at: string
           display_name: string | null
           id: string
+          memory_review_enabled: boolean
+          memory_scoring: Json | null
           preferred_voice: string | null
           updated_at: string
           user_id: string
@@ -155,9 +285,12 @@ export type Database = {
         }
         Insert: {
           avatar_url?: string | null
+          country_code?: string | null
           created_at?: string
           display_name?: string | null
           id?: string
+          memory_review_enabled?: boolean
+          memory_scoring?: Json | null
           preferred_voice?: string | null
           updated_at?: string
           user_id: string
@@ -165,9 +298,12 @@ export type Database = {
         }
         Update: {
           avatar_url?: string | null
+          country_code?: string | null
           created_at?: string
           display_name?: string | null
           id?: string
+          memory_review_enabled?: boolean
+          memory_scoring?: Json | null
           preferred_voice?: string | null
           updated_at?: string
           user_id?: string
@@ -175,15 +311,90 @@ export type Database = {
         }
         Relationships: []
       }
+      usage_events: {
+        Row: {
+          characters: number
+          created_at: string
+          id: string
+          kind: string
+          tokens: number
+          user_id: string
+        }
+        Insert: {
+          characters?: number
+          created_at?: string
+          id?: string
+          kind: string
+          tokens?: number
+          user_id: string
+        }
+        Update: {
+          characters?: number
+          created_at?: string
+          id?: string
+          kind?: string
+          tokens?: number
+          user_id?: string
+        }
+        Relationships: []
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
+      add_usage_tokens: {
+        Args: {
+          event_id: string
+          usage_tokens: number
+        }
+        Returns: undefined
+      }
       binary_quantize: {
         Args: { "": string } | { "": unknown }
         Returns: unknown
       }
+      consume_usage: {
+        Args: {
+          usage_kind: string
+          requests_per_minute: number
+          monthly_tokens: number
+          monthly_characters: number
+          usage_characters?: number
+        }
+        Returns: {
+          allowed: boolean
+          event_id: string | null
+          exceeded: string | null
+          retry_after: number | null
+          characters_this_month: number
+        }[]
+      }
+      find_similar_memories: {
+        Args: {
+          target_user_id: string
+          min_similarity?: number
+          neighbours?: number
+        }
+        Returns: {
+          memory_id: string
+          similar_id: string
+          similarity: number
+        }[]
+      }
+      get_usage_summary: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          chat_requests_last_minute: number
+          chat_window_started_at: string | null
+          tts_requests_last_minute: number
+          tts_window_started_at: string | null
+          tokens_this_month: number
+          tts_characters_this_month: number
+          period_start: string
+          period_end: string
+        }[]
+      }
       halfvec_avg: {
         Args: { "": number[] }
         Returns: unknown
@@ -228,6 +439,14 @@ export type Database = {
         Args: { "": unknown }
         Returns: unknown
       }
+      is_memory_suppressed: {
+        Args: {
+          query_embedding: string
+          query_content?: string
+          min_similarity?: number
+        }
+        Returns: boolean
+      }
       l2_norm: {
         Args: { "": unknown } | { "": unknown }
         Returns: number
@@ -236,6 +455,28 @@ export type Database = {
         Args: { "": string } | { "": unknown } | { "": unknown }
         Returns: unknown
       }
+      mark_memories_accessed: {
+        Args: { memory_ids: string[] }
+        Returns: undefined
+      }
+      match_memories: {
+        Args: {
+          query_embedding: string
+          match_count?: number
+          min_similarity?: number
+        }
+        Returns: {
+          id: string
+          content: string
+          context: string | null
+          importance: string
+          tags: string[] | null
+          conversation_id: string | null
+          created_at: string
+          similarity: number
+          score: number
+        }[]
+      }
       sparsevec_out: {
         Args: { "": unknown }
         Returns: unknown
@@ -248,6 +489,10 @@ export type Database = {
         Args: { "": unknown[] }
         Returns: number
       }
+      suppress_memory: {
+        Args: { target_memory_id: string }
+        Returns: undefined
+      }
       vector_avg: {
         Args: { "": number[] }
         Returns: string
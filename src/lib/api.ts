@@ -0,0 +1,36 @@
+import { supabase } from '@/integrations/supabase/client';
+
+// Attaches the signed-in user's Supabase access token so API routes can act
+// on their behalf (memory retrieval, inserts under row level security).
+export async function getAuthHeaders(): Promise<Record<string, string>> {
+  const { data: { session } } = await supabase.auth.getSession();
+  return session?.access_token
+    ? { Authorization: `Bearer ${session.access_token}` }
+    : {};
+}
+
+// Error responses from API routes are { error, details }; 429s also carry a
+// Retry-After header when a rate limit or monthly quota has been reached
+export class ApiError extends Error {
+  constructor(
+    message: string,
+    public status: number,
+    public retryAfter: number | null = null,
+  ) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+export async function toApiError(response: Response): Promise<ApiError> {
+  const body = await response.json().catch(() => null);
+  const retryAfter = Number(response.headers.get('Retry-After'));
+  return new ApiError(
+    body?.details || body?.error || response.statusText,
+    response.status,
+    Number.isFinite(retryAfter) && retryAfter > 0 ? retryAfter : null,
+  );
+}
+
+export const isUsageLimitError = (error: unknown): error is ApiError =>
+  error instanceof ApiError && error.status === 429;
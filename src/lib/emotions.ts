@@ -0,0 +1,80 @@
+import { getAuthHeaders, toApiError } from '@/lib/api';
+
+export type EmotionName = 'neutral' | 'happy' | 'excited' | 'hopeful' | 'calm' | 'sad' | 'anxious' | 'angry';
+
+// What /api/emotions returns, and what conversations.emotion_data and
+// memories.emotion_context hold. Valence runs from -1 (unpleasant) to 1
+// (pleasant), arousal from 0 (calm) to 1 (activated).
+export interface EmotionAnalysis {
+  primary: EmotionName;
+  valence: number;
+  arousal: number;
+  confidence: number;
+  scores?: Partial<Record<EmotionName, number>>;
+  source: 'classifier' | 'lexicon' | 'legacy';
+  analyzed_at: string | null;
+}
+
+// Display details plus the circumplex point of each emotion, mirroring
+// EMOTIONS in backend/lib/emotions.js
+export const EMOTIONS: Record<EmotionName, { label: string; emoji: string; valence: number; arousal: number }> = {
+  neutral: { label: 'Neutral', emoji: '😐', valence: 0, arousal: 0.3 },
+  happy: { label: 'Happy', emoji: '😊', valence: 0.8, arousal: 0.6 },
+  excited: { label: 'Excited', emoji: '🤩', valence: 0.7, arousal: 0.9 },
+  hopeful: { label: 'Hopeful', emoji: '🌱', valence: 0.6, arousal: 0.5 },
+  calm: { label: 'Calm', emoji: '😌', valence: 0.4, arousal: 0.1 },
+  sad: { label: 'Sad', emoji: '😢', valence: -0.7, arousal: 0.25 },
+  anxious: { label: 'Anxious', emoji: '😰', valence: -0.6, arousal: 0.8 },
+  angry: { label: 'Angry', emoji: '😠', valence: -0.7, arousal: 0.9 }
+};
+
+const isEmotionName = (value: unknown): value is EmotionName =>
+  typeof value === 'string' && value in EMOTIONS;
+
+const LEGACY_CONFIDENCE: Record<string, number> = { high: 0.8, medium: 0.6, low: 0.3 };
+
+// Reads stored emotion data in either shape: the current analysis, or the
+// { detected_emotions, intensity } rows written by the old keyword detector
+export function normalizeEmotion(data: unknown): EmotionAnalysis | null {
+  if (!data || typeof data !== 'object') return null;
+  const record = data as Record<string, unknown>;
+
+  if (isEmotionName(record.primary)) return record as unknown as EmotionAnalysis;
+
+  if (Array.isArray(record.detected_emotions)) {
+    const primary = record.detected_emotions.find(isEmotionName) ?? 'neutral';
+    return {
+      primary,
+      valence: EMOTIONS[primary].valence,
+      arousal: EMOTIONS[primary].arousal,
+      confidence: LEGACY_CONFIDENCE[String(record.intensity)] ?? 0.3,
+      source: 'legacy',
+      analyzed_at: typeof record.timestamp === 'string' ? record.timestamp : null
+    };
+  }
+
+  return null;
+}
+
+// Reads the emotion of one message on the server. Resolves to null when the
+// analysis fails so callers can carry on without it.
+export async function analyzeEmotion(text: string, signal?: AbortSignal): Promise<EmotionAnalysis | null> {
+  if (!text.trim()) return null;
+
+  try {
+    const response = await fetch('/api/emotions', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(await getAuthHeaders()),
+      },
+      body: JSON.stringify({ text }),
+      signal
+    });
+    if (!response.ok) throw await toApiError(response);
+    return await response.json();
+  } catch (error) {
+    if (!signal?.aborted) console.error('Failed to analyze emotion:', error);
+    return null;
+  }
+}
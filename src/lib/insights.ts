@@ -0,0 +1,257 @@
+import { normalizeEmotion, type EmotionAnalysis, type EmotionName } from '@/lib/emotions';
+
+// One emotion reading, tied to the conversation it came from. Topics are the
+// tags and categories of the memories extracted from that conversation.
+export interface EmotionReading {
+  at: Date;
+  emotion: EmotionAnalysis;
+  conversationId: string;
+  conversationTitle: string;
+  excerpt: string;
+  topics: string[];
+}
+
+export type TimelineGranularity = 'day' | 'week';
+
+export interface TimelinePoint {
+  key: string;
+  label: string;
+  start: Date;
+  valence: number;
+  arousal: number;
+  count: number;
+  dominant: EmotionName;
+  readings: EmotionReading[];
+}
+
+export interface TopicInsight {
+  topic: string;
+  count: number;
+  valence: number;
+  dominant: EmotionName;
+  readings: EmotionReading[];
+}
+
+export interface MoodPattern {
+  id: string;
+  emotion: EmotionName;
+  text: string;
+  // Share of matching readings that had this emotion
+  share: number;
+  readings: EmotionReading[];
+}
+
+export interface InsightConversation {
+  id: string;
+  title: string | null;
+  created_at: string;
+  updated_at: string;
+  compressed_data: { messages?: { role: string; content: string; timestamp?: string; emotion?: unknown }[] } | null;
+  emotion_data: unknown;
+}
+
+export interface InsightMemory {
+  conversation_id: string | null;
+  tags: string[] | null;
+  category: string | null;
+}
+
+// Fewest readings a pattern or topic needs before it is shown
+export const MIN_PATTERN_READINGS = 3;
+const MAX_PATTERNS = 5;
+// A slot must show an emotion this many times more often than usual
+const MIN_PATTERN_LIFT = 1.5;
+
+const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+const PARTS_OF_DAY = [
+  { name: 'night', from: 0, plural: 'nights', phrase: 'at night' },
+  { name: 'morning', from: 5, plural: 'mornings', phrase: 'in the mornings' },
+  { name: 'afternoon', from: 12, plural: 'afternoons', phrase: 'in the afternoons' },
+  { name: 'evening', from: 17, plural: 'evenings', phrase: 'in the evenings' },
+  { name: 'night', from: 22, plural: 'nights', phrase: 'at night' }
+];
+
+const partOfDay = (date: Date) =>
+  [...PARTS_OF_DAY].reverse().find(part => date.getHours() >= part.from)!;
+
+const average = (values: number[]) =>
+  values.length ? Math.round((values.reduce((sum, value) => sum + value, 0) / values.length) * 100) / 100 : 0;
+
+const mostCommon = <T extends string>(values: T[]): T | undefined => {
+  const counts = new Map<T, number>();
+  values.forEach(value => counts.set(value, (counts.get(value) || 0) + 1));
+  return [...counts.entries()].sort((a, b) => b[1] - a[1])[0]?.[0];
+};
+
+const dominantEmotion = (readings: EmotionReading[]): EmotionName =>
+  mostCommon(readings.map(reading => reading.emotion.primary)) ?? 'neutral';
+
+const formatTopic = (topic: string) => topic.replace(/_/g, ' ').toLowerCase();
+
+// Readings come from the emotion stored on each user message. Conversations
+// saved before that only have conversation-level emotion_data, which counts
+// once at the conversation's last update.
+export function collectReadings(conversations: InsightConversation[], memories: InsightMemory[]): EmotionReading[] {
+  const topicsByConversation = new Map<string, Set<string>>();
+  for (const memory of memories) {
+    if (!memory.conversation_id) continue;
+    const topics = topicsByConversation.get(memory.conversation_id) ?? new Set<string>();
+    [...(memory.tags || []), ...(memory.category && memory.category !== 'other' ? [memory.category] : [])]
+      .forEach(topic => topics.add(formatTopic(topic)));
+    topicsByConversation.set(memory.conversation_id, topics);
+  }
+
+  return conversations.flatMap(conversation => {
+    const base = {
+      conversationId: conversation.id,
+      conversationTitle: conversation.title || 'Untitled conversation',
+      topics: [...(topicsByConversation.get(conversation.id) ?? [])]
+    };
+    const userMessages = (conversation.compressed_data?.messages || []).filter(m => m.role === 'user');
+
+    const readings = userMessages.flatMap(message => {
+      const emotion = normalizeEmotion(message.emotion);
+      return emotion
+        ? [{ ...base, at: new Date(message.timestamp || conversation.created_at), emotion, excerpt: message.content }]
+        : [];
+    });
+    if (readings.length > 0) return readings;
+
+    const emotion = normalizeEmotion(conversation.emotion_data);
+    return emotion
+      ? [{ ...base, at: new Date(conversation.updated_at), emotion, excerpt: userMessages.at(-1)?.content || '' }]
+      : [];
+  }).sort((a, b) => a.at.getTime() - b.at.getTime());
+}
+
+// Local midnight of the day, or of the Monday starting the week
+const bucketStart = (date: Date, granularity: TimelineGranularity) => {
+  const start = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  if (granularity === 'week') start.setDate(start.getDate() - ((start.getDay() + 6) % 7));
+  return start;
+};
+
+// Average mood per day or week, oldest first
+export function buildTimeline(readings: EmotionReading[], granularity: TimelineGranularity): TimelinePoint[] {
+  const buckets = new Map<number, EmotionReading[]>();
+  for (const reading of readings) {
+    const start = bucketStart(reading.at, granularity).getTime();
+    buckets.set(start, [...(buckets.get(start) ?? []), reading]);
+  }
+
+  return [...buckets.entries()].sort((a, b) => a[0] - b[0]).map(([time, bucket]) => {
+    const start = new Date(time);
+    const day = start.toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+    return {
+      key: `${granularity}-${time}`,
+      label: granularity === 'week' ? `Week of ${day}` : day,
+      start,
+      valence: average(bucket.map(reading => reading.emotion.valence)),
+      arousal: average(bucket.map(reading => reading.emotion.arousal)),
+      count: bucket.length,
+      dominant: dominantEmotion(bucket),
+      readings: bucket
+    };
+  });
+}
+
+// How each topic tends to feel, most discussed first
+export function correlateTopics(readings: EmotionReading[], minReadings = 2): TopicInsight[] {
+  const byTopic = new Map<string, EmotionReading[]>();
+  readings.forEach(reading => reading.topics.forEach(topic => {
+    byTopic.set(topic, [...(byTopic.get(topic) ?? []), reading]);
+  }));
+
+  return [...byTopic.entries()]
+    .filter(([, topicReadings]) => topicReadings.length >= minReadings)
+    .map(([topic, topicReadings]) => ({
+      topic,
+      count: topicReadings.length,
+      valence: average(topicReadings.map(reading => reading.emotion.valence)),
+      dominant: dominantEmotion(topicReadings),
+      readings: topicReadings
+    }))
+    .sort((a, b) => b.count - a.count || a.topic.localeCompare(b.topic));
+}
+
+interface Slot {
+  id: string;
+  phrase: string;
+  matches: (reading: EmotionReading) => boolean;
+}
+
+// Most specific first, so "Sunday evenings" wins over "Sundays"
+const timeSlots = (): Slot[] => [
+  ...WEEKDAYS.flatMap((weekday, day) => PARTS_OF_DAY.slice(1).map(part => ({
+    id: `${weekday}-${part.name}`,
+    phrase: `on ${weekday} ${part.plural}`,
+    matches: (reading: EmotionReading) => reading.at.getDay() === day && partOfDay(reading.at).name === part.name
+  }))),
+  ...WEEKDAYS.map((weekday, day) => ({
+    id: weekday,
+    phrase: `on ${weekday}s`,
+    matches: (reading: EmotionReading) => reading.at.getDay() === day
+  })),
+  ...PARTS_OF_DAY.slice(1).map(part => ({
+    id: part.name,
+    phrase: part.phrase,
+    matches: (reading: EmotionReading) => partOfDay(reading.at).name === part.name
+  }))
+];
+
+// Times of week and topics where one emotion shows up far more often than it
+// does overall, e.g. "You tend to feel anxious on Sunday evenings, often about work."
+export function findPatterns(readings: EmotionReading[]): MoodPattern[] {
+  const emotional = readings.filter(reading => reading.emotion.primary !== 'neutral');
+  if (emotional.length < MIN_PATTERN_READINGS) return [];
+
+  const overallShare = (emotion: EmotionName) =>
+    readings.filter(reading => reading.emotion.primary === emotion).length / readings.length;
+
+  const candidates: (MoodPattern & { score: number })[] = [];
+  const consider = (id: string, group: EmotionReading[], describe: (emotion: EmotionName, topic?: string) => string) => {
+    const emotion = dominantEmotion(group);
+    if (emotion === 'neutral') return;
+
+    const matching = group.filter(reading => reading.emotion.primary === emotion);
+    const share = matching.length / group.length;
+    const lift = share / overallShare(emotion);
+    if (matching.length < MIN_PATTERN_READINGS || share < 0.5 || (lift < MIN_PATTERN_LIFT && share < 1)) return;
+
+    // The topic behind most of these readings, if there is one
+    const topic = mostCommon(matching.flatMap(reading => reading.topics));
+    const topicCount = matching.filter(reading => topic && reading.topics.includes(topic)).length;
+    candidates.push({
+      id: `${id}-${emotion}`,
+      emotion,
+      text: describe(emotion, topicCount * 2 >= matching.length ? topic : undefined),
+      share: Math.round(share * 100) / 100,
+      readings: matching,
+      score: matching.length * lift
+    });
+  };
+
+  for (const slot of timeSlots()) {
+    consider(slot.id, readings.filter(slot.matches), (emotion, topic) =>
+      `You tend to feel ${emotion} ${slot.phrase}${topic ? `, often about ${topic}` : ''}.`);
+  }
+  for (const { topic, readings: topicReadings } of correlateTopics(readings, MIN_PATTERN_READINGS)) {
+    consider(`topic-${topic}`, topicReadings, emotion => `Talking about ${topic} tends to leave you feeling ${emotion}.`);
+  }
+
+  // Broader patterns that mostly repeat a more specific one are dropped
+  const accepted: typeof candidates = [];
+  for (const candidate of candidates) {
+    const covered = new Set(accepted
+      .filter(pattern => pattern.emotion === candidate.emotion)
+      .flatMap(pattern => pattern.readings));
+    const repeated = candidate.readings.filter(reading => covered.has(reading)).length;
+    if (repeated * 2 < candidate.readings.length) accepted.push(candidate);
+  }
+
+  return accepted
+    .sort((a, b) => b.score - a.score)
+    .slice(0, MAX_PATTERNS)
+    .map(({ score: _score, ...pattern }) => pattern);
+}
@@ -0,0 +1,129 @@
+// Splits a reply into chunks for speech synthesis as it streams in. The first
+// sentence goes out on its own so audio starts quickly; after that sentences
+// are grouped so each /api/tts request carries a few of them.
+const MIN_CHUNK_CHARS = 20;
+const TARGET_CHUNK_CHARS = 250;
+// Well under /api/tts's 4000 character limit
+const MAX_CHUNK_CHARS = 600;
+
+// Words whose trailing period does not end a sentence
+const ABBREVIATIONS = ['mr', 'mrs', 'ms', 'dr', 'prof', 'st', 'vs', 'e.g', 'i.e', 'approx'];
+
+// Sentence-ending punctuation, any closing quotes, brackets or [n] citations,
+// then whitespace; or a line break
+const BOUNDARY = /[.!?…]+["'”’)\]]*(?:\[\d+\])*\s+|\n+/g;
+
+export interface SentenceChunker {
+  // Adds streamed text and returns any chunks that are now complete
+  push: (text: string) => string[];
+  // Returns whatever is left once the reply has ended
+  flush: () => string[];
+}
+
+const endsWithAbbreviation = (text: string) => {
+  const lastWord = text.trim().split(/\s+/).pop()?.replace(/[.!?]+$/, '').toLowerCase();
+  return !!lastWord && ABBREVIATIONS.includes(lastWord);
+};
+
+// Cuts an over-long run of text at the last clause or word break before the limit
+const splitLongText = (text: string): [string, string] => {
+  const window = text.slice(0, MAX_CHUNK_CHARS);
+  const cut = Math.max(window.lastIndexOf(', '), window.lastIndexOf('; '), window.lastIndexOf(': '));
+  const at = cut > MAX_CHUNK_CHARS / 2 ? cut + 1 : window.lastIndexOf(' ') > 0 ? window.lastIndexOf(' ') : MAX_CHUNK_CHARS;
+  return [text.slice(0, at).trim(), text.slice(at).trimStart()];
+};
+
+export function createSentenceChunker(): SentenceChunker {
+  let buffer = '';
+  let pending = '';
+  let emitted = 0;
+
+  const takeSentences = (): string[] => {
+    const sentences: string[] = [];
+    let start = 0;
+    for (const match of buffer.matchAll(BOUNDARY)) {
+      const end = match.index! + match[0].length;
+      const sentence = buffer.slice(start, end);
+      if (!match[0].includes('\n') && endsWithAbbreviation(sentence)) continue;
+      sentences.push(sentence);
+      start = end;
+    }
+    buffer = buffer.slice(start);
+    return sentences;
+  };
+
+  const release = (force: boolean): string[] => {
+    const chunks: string[] = [];
+    const target = emitted === 0 ? MIN_CHUNK_CHARS : TARGET_CHUNK_CHARS;
+    if (pending.trim() && (force || pending.trim().length >= target)) {
+      chunks.push(pending.trim());
+      pending = '';
+      emitted++;
+    }
+    return chunks;
+  };
+
+  return {
+    push(text) {
+      buffer += text;
+      const chunks: string[] = [];
+
+      for (const sentence of takeSentences()) {
+        pending += sentence;
+        while (pending.length > MAX_CHUNK_CHARS) {
+          const [head, rest] = splitLongText(pending);
+          chunks.push(head);
+          emitted++;
+          pending = rest;
+        }
+        chunks.push(...release(false));
+      }
+
+      // A sentence that runs on without punctuation is cut rather than held
+      while (buffer.length > MAX_CHUNK_CHARS) {
+        chunks.push(...release(true));
+        const [head, rest] = splitLongText(buffer);
+        chunks.push(head);
+        emitted++;
+        buffer = rest;
+      }
+
+      return chunks;
+    },
+
+    flush() {
+      pending += buffer;
+      buffer = '';
+      const chunks: string[] = [];
+      while (pending.length > MAX_CHUNK_CHARS) {
+        const [head, rest] = splitLongText(pending);
+        chunks.push(head);
+        pending = rest;
+      }
+      return [...chunks, ...release(true)];
+    }
+  };
+}
+
+// Markdown and citation markers the chat renders but a voice should not read out
+export function cleanForSpeech(text: string): string {
+  return text
+    .replace(/```[\s\S]*?```/g, ' ')
+    .replace(/\[([^\]]+)\]\([^)]+\)/g, '$1')
+    .replace(/\s*\[\d+\]/g, '')
+    .replace(/^\s{0,3}(?:#{1,6}|>|[-*+]|\d+[.)])\s+/gm, '')
+    .replace(/[*_`~]+/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+// Average playback rate over a clip whose rate ramps linearly between evenly
+// spaced points of the pitch curve, i.e. the mean of each segment's midpoint
+export function averagePlaybackRate(pitchCurve: number[]): number {
+  if (pitchCurve.length < 2) return pitchCurve[0] ?? 1;
+  let total = 0;
+  for (let i = 1; i < pitchCurve.length; i++) {
+    total += (pitchCurve[i - 1] + pitchCurve[i]) / 2;
+  }
+  return total / (pitchCurve.length - 1);
+}
@@ -0,0 +1,54 @@
+export interface ServerSentEvent {
+  event: string;
+  data: string;
+}
+
+// Reads a text/event-stream response body and yields each complete event.
+// Only the `event` and `data` fields are used by our API, so ids and
+// retry hints are ignored.
+export async function* readEventStream(response: Response): AsyncGenerator<ServerSentEvent> {
+  if (!response.body) {
+    throw new Error('Response has no body to stream');
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  const parseBlock = (block: string): ServerSentEvent | null => {
+    let event = 'message';
+    const dataLines: string[] = [];
+
+    for (const line of block.split('\n')) {
+      if (line.startsWith('event:')) {
+        event = line.slice(6).trim();
+      } else if (line.startsWith('data:')) {
+        dataLines.push(line.slice(5).replace(/^ /, ''));
+      }
+    }
+
+    return dataLines.length > 0 ? { event, data: dataLines.join('\n') } : null;
+  };
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true }).replace(/\r\n/g, '\n');
+
+      let boundary = buffer.indexOf('\n\n');
+      while (boundary !== -1) {
+        const parsed = parseBlock(buffer.slice(0, boundary));
+        buffer = buffer.slice(boundary + 2);
+        if (parsed) yield parsed;
+        boundary = buffer.indexOf('\n\n');
+      }
+    }
+
+    const trailing = parseBlock(buffer.trim());
+    if (trailing) yield trailing;
+  } finally {
+    reader.releaseLock();
+  }
+}
@@ -1,6 +1,9 @@
-import { useState } from "react";
+import { useState, useEffect } from "react";
+import { useNavigate, useSearchParams } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
 import ChatInterface from "@/components/chat/ChatInterface";
 import VoiceChatInterface from "@/components/chat/VoiceChatInterface";
+import UsageMeter from "@/components/chat/UsageMeter";
 
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
@@ -14,13 +17,37 @@ import {
   Sparkles,
   Mic,
   MessageCircle,
-  Phone
+  Phone,
+  LineChart
 } from "lucide-react";
 import { cn } from "@/lib/utils";
 
 const Chat = () => {
   const [activeTab, setActiveTab] = useState<"chat" | "plans" | "memories">("chat");
   const [chatMode, setChatMode] = useState<"text" | "voice">("text");
+  const [recentConversations, setRecentConversations] = useState<{ id: string; title: string | null }[]>([]);
+  const [searchParams] = useSearchParams();
+  const navigate = useNavigate();
+  const conversationId = searchParams.get("conversation");
+
+  useEffect(() => {
+    const loadRecentConversations = async () => {
+      const { data, error } = await supabase
+        .from("conversations")
+        .select("id, title")
+        .is("archived_at", null)
+        .order("updated_at", { ascending: false })
+        .limit(5);
+
+      if (error) {
+        console.error("Failed to load recent conversations:", error);
+        return;
+      }
+      setRecentConversations(data || []);
+    };
+
+    loadRecentConversations();
+  }, [conversationId]);
 
   const [recentPlans] = useState([
     {
@@ -153,6 +180,15 @@ const Chat = () => {
                     <Sparkles className="w-4 h-4" />
                     Review Memories
                   </Button>
+                  <Button
+                    variant="outline"
+                    className="w-full justify-start gap-2"
+                    size="sm"
+                    onClick={() => navigate("/insights")}
+                  >
+                    <LineChart className="w-4 h-4" />
+                    Mood Insights
+                  </Button>
                   <Button 
                     variant="empathy" 
                     className="w-full justify-start gap-2" 
@@ -166,19 +202,34 @@ const Chat = () => {
               </div>
 
               <div className="space-y-2">
-                <h3 className="font-semibold">Recent Conversations</h3>
+                <div className="flex items-center justify-between">
+                  <h3 className="font-semibold">Recent Conversations</h3>
+                  <Button
+                    variant="link"
+                    size="sm"
+                    className="h-auto p-0 text-xs"
+                    onClick={() => navigate("/conversations")}
+                  >
+                    View all
+                  </Button>
+                </div>
                 <div className="space-y-1">
-                  {[
-                    "Career transition planning",
-                    "Weekend trip ideas",
-                    "Learning new skills",
-                    "Project feedback session"
-                  ].map((topic, index) => (
-                    <Button key={index} variant="ghost" className="w-full justify-start text-sm" size="sm">
-                      <Clock className="w-3 h-3 mr-2" />
-                      {topic}
-                    </Button>
-                  ))}
+                  {recentConversations.length === 0 ? (
+                    <p className="text-xs text-muted-foreground px-3">No conversations yet</p>
+                  ) : (
+                    recentConversations.map((conversation) => (
+                      <Button
+                        key={conversation.id}
+                        variant={conversation.id === conversationId ? "secondary" : "ghost"}
+                        className="w-full justify-start text-sm"
+                        size="sm"
+                        onClick={() => navigate(`/chat?conversation=${conversation.id}`)}
+                      >
+                        <Clock className="w-3 h-3 mr-2 flex-shrink-0" />
+                        <span className="truncate">{conversation.title || "Untitled conversation"}</span>
+                      </Button>
+                    ))
+                  )}
                 </div>
               </div>
             </div>
@@ -267,6 +318,7 @@ const Chat = () => {
 
         {/* Footer */}
         <div className="p-4 border-t border-border space-y-2">
+          <UsageMeter className="pb-2" />
           <Button variant="ghost" className="w-full justify-start gap-2" size="sm">
             <Home className="w-4 h-4" />
             Back to Home
@@ -280,7 +332,7 @@ const Chat = () => {
         {chatMode === "voice" ? (
           <VoiceChatInterface />
         ) : (
-          <ChatInterface />
+          <ChatInterface conversationId={conversationId} />
         )}
       </div>
 
@@ -0,0 +1,441 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { useToast } from '@/hooks/use-toast';
+import { EMOTIONS, normalizeEmotion } from '@/lib/emotions';
+import {
+  ArrowLeft,
+  Archive,
+  ArchiveRestore,
+  Calendar,
+  Check,
+  MessageSquare,
+  Pencil,
+  Play,
+  Search,
+  Trash2,
+  X
+} from 'lucide-react';
+
+interface StoredMessage {
+  role: 'user' | 'assistant';
+  content: string;
+  timestamp: string;
+}
+
+interface Conversation {
+  id: string;
+  title: string | null;
+  summary: string | null;
+  compressed_data: { messages?: StoredMessage[] } | null;
+  emotion_data: unknown;
+  archived_at: string | null;
+  updated_at: string;
+}
+
+// Only what the list shows and searches
+const CONVERSATION_COLUMNS = 'id, title, summary, compressed_data, emotion_data, archived_at, updated_at';
+
+const getMessages = (conversation: Conversation): StoredMessage[] =>
+  conversation.compressed_data?.messages || [];
+
+const Conversations = () => {
+  const [conversations, setConversations] = useState<Conversation[]>([]);
+  const [filteredConversations, setFilteredConversations] = useState<Conversation[]>([]);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [view, setView] = useState<'active' | 'archived'>('active');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingTitle, setEditingTitle] = useState('');
+  const [pendingDelete, setPendingDelete] = useState<Conversation | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const navigate = useNavigate();
+  const { toast } = useToast();
+
+  const loadConversations = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from('conversations')
+        .select(CONVERSATION_COLUMNS)
+        .order('updated_at', { ascending: false });
+
+      if (error) throw error;
+      setConversations(data || []);
+    } catch (error) {
+      console.error('Failed to load conversations:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load your conversations",
+        variant: "destructive"
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    const checkAuth = async () => {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session) {
+        navigate('/auth');
+        return;
+      }
+      await loadConversations();
+    };
+
+    checkAuth();
+  }, [navigate, loadConversations]);
+
+  useEffect(() => {
+    let filtered = conversations.filter(conversation =>
+      view === 'archived' ? conversation.archived_at : !conversation.archived_at
+    );
+
+    if (searchTerm) {
+      const term = searchTerm.toLowerCase();
+      filtered = filtered.filter(conversation =>
+        conversation.title?.toLowerCase().includes(term) ||
+        conversation.summary?.toLowerCase().includes(term) ||
+        getMessages(conversation).some(m => m.content.toLowerCase().includes(term))
+      );
+    }
+
+    setFilteredConversations(filtered);
+  }, [conversations, searchTerm, view]);
+
+  const updateConversation = async (conversationId: string, updates: Partial<Conversation>) => {
+    const { error } = await supabase
+      .from('conversations')
+      .update(updates)
+      .eq('id', conversationId);
+
+    if (error) throw error;
+
+    setConversations(prev => prev.map(c => c.id === conversationId ? { ...c, ...updates } : c));
+  };
+
+  const startRename = (conversation: Conversation) => {
+    setEditingId(conversation.id);
+    setEditingTitle(conversation.title || '');
+  };
+
+  const saveRename = async () => {
+    if (!editingId) return;
+
+    const title = editingTitle.trim();
+    if (!title) {
+      setEditingId(null);
+      return;
+    }
+
+    try {
+      await updateConversation(editingId, { title });
+      toast({
+        title: "Conversation Renamed",
+        description: `Renamed to "${title}"`
+      });
+    } catch (error) {
+      console.error('Failed to rename conversation:', error);
+      toast({
+        title: "Error",
+        description: "Failed to rename conversation",
+        variant: "destructive"
+      });
+    } finally {
+      setEditingId(null);
+    }
+  };
+
+  const toggleArchive = async (conversation: Conversation) => {
+    const archived_at = conversation.archived_at ? null : new Date().toISOString();
+
+    try {
+      await updateConversation(conversation.id, { archived_at });
+      toast({
+        title: archived_at ? "Conversation Archived" : "Conversation Restored",
+        description: archived_at
+          ? "You can find it under Archived"
+          : "The conversation is back in your history"
+      });
+    } catch (error) {
+      console.error('Failed to archive conversation:', error);
+      toast({
+        title: "Error",
+        description: "Failed to update conversation",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const deleteConversation = async (conversationId: string) => {
+    try {
+      const { error } = await supabase
+        .from('conversations')
+        .delete()
+        .eq('id', conversationId);
+
+      if (error) throw error;
+
+      setConversations(prev => prev.filter(c => c.id !== conversationId));
+      toast({
+        title: "Conversation Deleted",
+        description: "The conversation has been removed. Its memories were kept."
+      });
+    } catch (error) {
+      console.error('Failed to delete conversation:', error);
+      toast({
+        title: "Error",
+        description: "Failed to delete conversation",
+        variant: "destructive"
+      });
+    } finally {
+      setPendingDelete(null);
+    }
+  };
+
+  const getLastMessagePreview = (conversation: Conversation) => {
+    const messages = getMessages(conversation);
+    const last = messages[messages.length - 1];
+    if (!last) return conversation.summary;
+    return `${last.role === 'user' ? 'You' : 'Zoxaa'}: ${last.content}`;
+  };
+
+  // Mood of the latest turn; neutral readings are left out
+  const renderEmotion = (conversation: Conversation) => {
+    const emotion = normalizeEmotion(conversation.emotion_data);
+    if (!emotion || emotion.primary === 'neutral') return null;
+
+    const { emoji, label } = EMOTIONS[emotion.primary];
+    return (
+      <div className="flex flex-wrap gap-1 mb-3">
+        <Badge variant="secondary" className="text-xs">{emoji} {label}</Badge>
+      </div>
+    );
+  };
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  const archivedCount = conversations.filter(c => c.archived_at).length;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background to-secondary/20 p-4">
+      <div className="max-w-4xl mx-auto">
+        <div className="flex items-center justify-between mb-8">
+          <div className="flex items-center space-x-4">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => navigate('/chat')}
+              className="flex items-center space-x-2"
+            >
+              <ArrowLeft className="h-4 w-4" />
+              <span>Back to Chat</span>
+            </Button>
+            <div>
+              <h1 className="text-3xl font-bold bg-gradient-to-r from-primary to-primary/70 bg-clip-text text-transparent">
+                Conversations
+              </h1>
+              <p className="text-muted-foreground">Pick up any thread where you left off</p>
+            </div>
+          </div>
+
+          <div className="flex items-center space-x-2 text-sm text-muted-foreground">
+            <MessageSquare className="h-4 w-4" />
+            <span>{conversations.length - archivedCount} conversations</span>
+          </div>
+        </div>
+
+        {/* Filters */}
+        <Card className="mb-6">
+          <CardContent className="pt-6">
+            <div className="flex flex-col sm:flex-row gap-4">
+              <div className="flex-1">
+                <div className="relative">
+                  <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                  <Input
+                    placeholder="Search titles and messages..."
+                    value={searchTerm}
+                    onChange={(e) => setSearchTerm(e.target.value)}
+                    className="pl-10"
+                  />
+                </div>
+              </div>
+
+              <div className="flex space-x-2">
+                <Button
+                  variant={view === 'active' ? 'default' : 'outline'}
+                  size="sm"
+                  onClick={() => setView('active')}
+                >
+                  Active
+                </Button>
+                <Button
+                  variant={view === 'archived' ? 'default' : 'outline'}
+                  size="sm"
+                  onClick={() => setView('archived')}
+                >
+                  Archived{archivedCount > 0 && ` (${archivedCount})`}
+                </Button>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Conversation List */}
+        <div className="space-y-4">
+          {filteredConversations.length === 0 ? (
+            <Card className="text-center py-12">
+              <CardContent>
+                <MessageSquare className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
+                <h3 className="text-lg font-semibold mb-2">
+                  {conversations.length === 0 ? 'No conversations yet' : 'No matching conversations'}
+                </h3>
+                <p className="text-muted-foreground">
+                  {conversations.length === 0
+                    ? 'Start chatting with Zoxaa and your threads will appear here'
+                    : 'Try adjusting your search or switching views'
+                  }
+                </p>
+              </CardContent>
+            </Card>
+          ) : (
+            filteredConversations.map((conversation) => (
+              <Card key={conversation.id} className="hover:shadow-lg transition-shadow">
+                <CardHeader>
+                  {editingId === conversation.id ? (
+                    <div className="flex items-center gap-2 mb-2">
+                      <Input
+                        value={editingTitle}
+                        onChange={(e) => setEditingTitle(e.target.value)}
+                        onKeyDown={(e) => {
+                          if (e.key === 'Enter') saveRename();
+                          if (e.key === 'Escape') setEditingId(null);
+                        }}
+                        autoFocus
+                      />
+                      <Button variant="ghost" size="icon" onClick={saveRename}>
+                        <Check className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="icon" onClick={() => setEditingId(null)}>
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  ) : (
+                    <CardTitle className="text-base font-medium mb-2">
+                      {conversation.title || 'Untitled conversation'}
+                    </CardTitle>
+                  )}
+
+                  <p className="text-sm text-muted-foreground line-clamp-2 mb-3">
+                    {getLastMessagePreview(conversation)}
+                  </p>
+
+                  {renderEmotion(conversation)}
+
+                  <div className="flex items-center justify-between text-xs text-muted-foreground">
+                    <div className="flex items-center space-x-1">
+                      <Calendar className="h-3 w-3" />
+                      <span>Updated {new Date(conversation.updated_at).toLocaleDateString()}</span>
+                      <span>at {new Date(conversation.updated_at).toLocaleTimeString()}</span>
+                      <span>• {getMessages(conversation).length} messages</span>
+                    </div>
+
+                    <div className="flex items-center space-x-1">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => navigate(`/chat?conversation=${conversation.id}`)}
+                        className="h-6 px-2 text-xs"
+                      >
+                        <Play className="h-3 w-3 mr-1" />
+                        Continue
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => startRename(conversation)}
+                        className="h-6 px-2 text-xs"
+                      >
+                        <Pencil className="h-3 w-3 mr-1" />
+                        Rename
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => toggleArchive(conversation)}
+                        className="h-6 px-2 text-xs"
+                      >
+                        {conversation.archived_at ? (
+                          <>
+                            <ArchiveRestore className="h-3 w-3 mr-1" />
+                            Restore
+                          </>
+                        ) : (
+                          <>
+                            <Archive className="h-3 w-3 mr-1" />
+                            Archive
+                          </>
+                        )}
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setPendingDelete(conversation)}
+                        className="h-6 px-2 text-xs text-red-600 hover:text-red-700"
+                      >
+                        <Trash2 className="h-3 w-3 mr-1" />
+                        Delete
+                      </Button>
+                    </div>
+                  </div>
+                </CardHeader>
+              </Card>
+            ))
+          )}
+        </div>
+      </div>
+
+      <AlertDialog open={!!pendingDelete} onOpenChange={(open) => !open && setPendingDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete this conversation?</AlertDialogTitle>
+            <AlertDialogDescription>
+              "{pendingDelete?.title || 'Untitled conversation'}" and all of its messages will be
+              permanently removed. Memories Zoxaa learned from it are kept.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => pendingDelete && deleteConversation(pendingDelete.id)}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default Conversations;
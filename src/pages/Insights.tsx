@@ -0,0 +1,378 @@
+import { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Bar, BarChart, CartesianGrid, Cell, Line, LineChart, ReferenceLine, XAxis, YAxis } from 'recharts';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from '@/components/ui/chart';
+import { ArrowLeft, Activity, Calendar, Lightbulb, MessageSquare, Play, Tags, X } from 'lucide-react';
+import useZoxaaInsights, { type EmotionReading, type TimelineGranularity } from '@/hooks/useZoxaaInsights';
+import { EMOTIONS, type EmotionName } from '@/lib/emotions';
+
+const RANGES = [
+  { days: 7, label: 'Last 7 days' },
+  { days: 30, label: 'Last 30 days' },
+  { days: 90, label: 'Last 3 months' },
+  { days: 365, label: 'Last year' }
+];
+
+const chartConfig = {
+  valence: { label: 'Mood', color: 'hsl(var(--primary))' },
+  arousal: { label: 'Energy', color: 'hsl(var(--accent))' }
+} satisfies ChartConfig;
+
+const moodLabel = (valence: number) => (valence > 0.25 ? 'Good' : valence < -0.25 ? 'Low' : 'Mixed');
+
+// The readings the user clicked on, from a chart point, topic or pattern
+interface Selection {
+  title: string;
+  readings: EmotionReading[];
+}
+
+const Insights = () => {
+  const [rangeDays, setRangeDays] = useState(30);
+  const [granularity, setGranularity] = useState<TimelineGranularity>('day');
+  const [selection, setSelection] = useState<Selection | null>(null);
+  const { readings, timeline, topics, patterns, isLoading, error } = useZoxaaInsights(rangeDays, granularity);
+  const navigate = useNavigate();
+
+  useEffect(() => {
+    const checkAuth = async () => {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session) navigate('/auth');
+    };
+
+    checkAuth();
+  }, [navigate]);
+
+  useEffect(() => {
+    setSelection(null);
+  }, [rangeDays, granularity]);
+
+  const emotionCounts = Object.keys(EMOTIONS)
+    .map(name => ({
+      name: name as EmotionName,
+      count: readings.filter(reading => reading.emotion.primary === name).length
+    }))
+    .filter(({ count }) => count > 0)
+    .sort((a, b) => b.count - a.count);
+
+  // Readings grouped by the conversation they came from, latest first
+  const selectedConversations = selection
+    ? [...new Map(selection.readings.map(reading => [reading.conversationId, reading])).keys()]
+      .map(id => ({
+        id,
+        readings: selection.readings.filter(reading => reading.conversationId === id)
+      }))
+      .sort((a, b) => b.readings.at(-1)!.at.getTime() - a.readings.at(-1)!.at.getTime())
+    : [];
+
+  if (isLoading && readings.length === 0) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background to-secondary/20 p-4">
+      <div className="max-w-5xl mx-auto">
+        <div className="flex items-center justify-between mb-8">
+          <div className="flex items-center space-x-4">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => navigate('/chat')}
+              className="flex items-center space-x-2"
+            >
+              <ArrowLeft className="h-4 w-4" />
+              <span>Back to Chat</span>
+            </Button>
+            <div>
+              <h1 className="text-3xl font-bold bg-gradient-to-r from-primary to-primary/70 bg-clip-text text-transparent">
+                Insights
+              </h1>
+              <p className="text-muted-foreground">How you've been feeling, and what seems to shape it</p>
+            </div>
+          </div>
+
+          <div className="flex items-center space-x-2">
+            <Select value={String(rangeDays)} onValueChange={value => setRangeDays(Number(value))}>
+              <SelectTrigger className="w-36" aria-label="Time range">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {RANGES.map(range => (
+                  <SelectItem key={range.days} value={String(range.days)}>{range.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {error ? (
+          <Card className="text-center py-12">
+            <CardContent>
+              <p className="text-muted-foreground">{error}</p>
+            </CardContent>
+          </Card>
+        ) : readings.length === 0 ? (
+          <Card className="text-center py-12">
+            <CardContent>
+              <Activity className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
+              <h3 className="text-lg font-semibold mb-2">No mood data yet</h3>
+              <p className="text-muted-foreground">
+                Chat with Zoxaa and your mood over time will appear here
+              </p>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="space-y-6">
+            {/* Mood timeline */}
+            <Card>
+              <CardHeader className="flex flex-row items-start justify-between space-y-0">
+                <div>
+                  <CardTitle className="flex items-center gap-2">
+                    <Calendar className="h-5 w-5" />
+                    Mood over time
+                  </CardTitle>
+                  <CardDescription>Click a point to see the conversations behind it</CardDescription>
+                </div>
+                <div className="flex space-x-2">
+                  <Button
+                    variant={granularity === 'day' ? 'default' : 'outline'}
+                    size="sm"
+                    onClick={() => setGranularity('day')}
+                  >
+                    Daily
+                  </Button>
+                  <Button
+                    variant={granularity === 'week' ? 'default' : 'outline'}
+                    size="sm"
+                    onClick={() => setGranularity('week')}
+                  >
+                    Weekly
+                  </Button>
+                </div>
+              </CardHeader>
+              <CardContent>
+                <ChartContainer config={chartConfig} className="aspect-auto h-64 w-full">
+                  <LineChart
+                    data={timeline}
+                    margin={{ left: 8, right: 8 }}
+                    onClick={state => {
+                      const point = timeline[state?.activeTooltipIndex ?? -1];
+                      if (point) setSelection({ title: point.label, readings: point.readings });
+                    }}
+                  >
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="label" tickLine={false} axisLine={false} minTickGap={24} />
+                    <YAxis
+                      domain={[-1, 1]}
+                      ticks={[-1, 0, 1]}
+                      tickFormatter={value => moodLabel(value)}
+                      tickLine={false}
+                      axisLine={false}
+                      width={56}
+                    />
+                    <ReferenceLine y={0} strokeDasharray="4 4" />
+                    <ChartTooltip
+                      content={
+                        <ChartTooltipContent
+                          formatter={(value, name, item) => (
+                            <div className="flex w-full justify-between gap-4">
+                              <span className="text-muted-foreground">{chartConfig[name as keyof typeof chartConfig]?.label}</span>
+                              <span className="font-mono">
+                                {Number(value).toFixed(2)}
+                                {name === 'valence' && ` ${EMOTIONS[item.payload.dominant as EmotionName].emoji}`}
+                              </span>
+                            </div>
+                          )}
+                        />
+                      }
+                    />
+                    <Line
+                      dataKey="valence"
+                      type="monotone"
+                      stroke="var(--color-valence)"
+                      strokeWidth={2}
+                      dot={{ r: 3 }}
+                      activeDot={{ r: 6, className: 'cursor-pointer' }}
+                    />
+                    <Line
+                      dataKey="arousal"
+                      type="monotone"
+                      stroke="var(--color-arousal)"
+                      strokeWidth={1}
+                      strokeDasharray="4 4"
+                      dot={false}
+                    />
+                  </LineChart>
+                </ChartContainer>
+                <div className="flex flex-wrap gap-2 mt-4">
+                  {emotionCounts.map(({ name, count }) => (
+                    <Badge
+                      key={name}
+                      variant="secondary"
+                      className="cursor-pointer"
+                      onClick={() => setSelection({
+                        title: `Feeling ${name}`,
+                        readings: readings.filter(reading => reading.emotion.primary === name)
+                      })}
+                    >
+                      {EMOTIONS[name].emoji} {EMOTIONS[name].label} · {Math.round((count / readings.length) * 100)}%
+                    </Badge>
+                  ))}
+                </div>
+              </CardContent>
+            </Card>
+
+            {selection && (
+              <Card>
+                <CardHeader className="flex flex-row items-center justify-between space-y-0">
+                  <div>
+                    <CardTitle className="text-lg">{selection.title}</CardTitle>
+                    <CardDescription>
+                      {selection.readings.length} {selection.readings.length === 1 ? 'message' : 'messages'} in{' '}
+                      {selectedConversations.length} {selectedConversations.length === 1 ? 'conversation' : 'conversations'}
+                    </CardDescription>
+                  </div>
+                  <Button variant="ghost" size="sm" onClick={() => setSelection(null)} aria-label="Close">
+                    <X className="h-4 w-4" />
+                  </Button>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  {selectedConversations.map(({ id, readings: conversationReadings }) => (
+                    <div key={id} className="rounded-md border border-border p-3 space-y-2">
+                      <div className="flex items-center justify-between gap-2">
+                        <div className="flex items-center gap-2 min-w-0">
+                          <MessageSquare className="h-4 w-4 text-muted-foreground flex-shrink-0" />
+                          <span className="font-medium truncate">{conversationReadings[0].conversationTitle}</span>
+                        </div>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => navigate(`/chat?conversation=${id}`)}
+                          className="h-6 px-2 text-xs"
+                        >
+                          <Play className="h-3 w-3 mr-1" />
+                          Open
+                        </Button>
+                      </div>
+                      <ul className="space-y-1">
+                        {conversationReadings.map((reading, index) => (
+                          <li key={index} className="flex items-start gap-2 text-sm">
+                            <span title={EMOTIONS[reading.emotion.primary].label}>{EMOTIONS[reading.emotion.primary].emoji}</span>
+                            <span className="text-muted-foreground line-clamp-2 flex-1">{reading.excerpt}</span>
+                            <span className="text-xs text-muted-foreground whitespace-nowrap">
+                              {reading.at.toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric' })}{' '}
+                              {reading.at.toLocaleTimeString(undefined, { hour: 'numeric', minute: '2-digit' })}
+                            </span>
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  ))}
+                </CardContent>
+              </Card>
+            )}
+
+            <div className="grid gap-6 md:grid-cols-2">
+              {/* Patterns */}
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <Lightbulb className="h-5 w-5" />
+                    Patterns
+                  </CardTitle>
+                  <CardDescription>Times and topics where a feeling keeps coming back</CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-2">
+                  {patterns.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">
+                      No clear patterns yet. They show up once a feeling recurs a few times.
+                    </p>
+                  ) : (
+                    patterns.map(pattern => (
+                      <button
+                        key={pattern.id}
+                        className="w-full text-left rounded-md border border-border p-3 text-sm hover:bg-secondary/50 transition-colors"
+                        onClick={() => setSelection({ title: pattern.text, readings: pattern.readings })}
+                      >
+                        <span className="mr-2">{EMOTIONS[pattern.emotion].emoji}</span>
+                        {pattern.text}
+                        <span className="block text-xs text-muted-foreground mt-1">
+                          {pattern.readings.length} times, {Math.round(pattern.share * 100)}% of the time
+                        </span>
+                      </button>
+                    ))
+                  )}
+                </CardContent>
+              </Card>
+
+              {/* Topics */}
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <Tags className="h-5 w-5" />
+                    Topics
+                  </CardTitle>
+                  <CardDescription>Average mood when these come up</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  {topics.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">
+                      Topics come from the tags of your memories and appear once they come up more than once.
+                    </p>
+                  ) : (
+                    <ChartContainer config={chartConfig} className="aspect-auto w-full" style={{ height: 40 + topics.slice(0, 8).length * 32 }}>
+                      <BarChart data={topics.slice(0, 8)} layout="vertical" margin={{ left: 8, right: 8 }}>
+                        <XAxis type="number" domain={[-1, 1]} ticks={[-1, 0, 1]} tickFormatter={value => moodLabel(value)} />
+                        <YAxis type="category" dataKey="topic" width={96} tickLine={false} axisLine={false} />
+                        <ReferenceLine x={0} />
+                        <ChartTooltip
+                          content={
+                            <ChartTooltipContent
+                              hideLabel
+                              formatter={(value, _name, item) => (
+                                <span>
+                                  {item.payload.topic}: {EMOTIONS[item.payload.dominant as EmotionName].emoji}{' '}
+                                  {Number(value).toFixed(2)} over {item.payload.count} messages
+                                </span>
+                              )}
+                            />
+                          }
+                        />
+                        <Bar
+                          dataKey="valence"
+                          radius={4}
+                          className="cursor-pointer"
+                          onClick={(_, index) => setSelection({
+                            title: `Talking about ${topics[index].topic}`,
+                            readings: topics[index].readings
+                          })}
+                        >
+                          {topics.slice(0, 8).map(topic => (
+                            <Cell
+                              key={topic.topic}
+                              fill={topic.valence >= 0 ? 'var(--color-valence)' : 'hsl(var(--destructive))'}
+                            />
+                          ))}
+                        </Bar>
+                      </BarChart>
+                    </ChartContainer>
+                  )}
+                </CardContent>
+              </Card>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Insights;
@@ -5,21 +5,105 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
 import { useToast } from '@/hooks/use-toast';
-import { ArrowLeft, Brain, Search, Calendar, Hash, AlertCircle } from 'lucide-react';
+import { ArrowLeft, Brain, Search, Calendar, Hash, AlertCircle, Layers, Sparkles, Pin, PinOff, Pencil, Check, X, Inbox, MessageSquare, Users, Building2, MapPin, FolderKanban, SlidersHorizontal, History } from 'lucide-react';
 import { User } from '@supabase/supabase-js';
+import { getAuthHeaders } from '@/lib/api';
+import { EMOTIONS, normalizeEmotion } from '@/lib/emotions';
 
 interface Memory {
   id: string;
   content: string;
   context: string;
   importance: string;
+  category: string | null;
   tags: string[];
-  emotion_context: any;
+  pinned: boolean;
+  access_count: number;
+  last_accessed_at: string | null;
+  status: 'pending' | 'active';
+  source_excerpt: string | null;
+  emotion_context: unknown;
+  merged_count: number;
+  source_conversation_ids: string[];
   created_at: string;
   updated_at: string;
 }
 
+// How retrieval ranks memories on top of similarity; see match_memories()
+interface MemoryScoring {
+  importance_weight: number;
+  recency_weight: number;
+  frequency_weight: number;
+  half_life_days: number;
+}
+
+const DEFAULT_SCORING: MemoryScoring = {
+  importance_weight: 0.15,
+  recency_weight: 0.2,
+  frequency_weight: 0.05,
+  half_life_days: 30,
+};
+
+const SCORING_WEIGHTS: { key: keyof MemoryScoring; label: string; description: string }[] = [
+  { key: 'importance_weight', label: 'Importance', description: 'Favor memories marked as important' },
+  { key: 'recency_weight', label: 'Recency', description: 'Favor memories that are new or came up recently' },
+  { key: 'frequency_weight', label: 'Frequency', description: 'Favor memories Zoxaa brings up often' },
+];
+
+type EntityKind = 'person' | 'organization' | 'place' | 'project';
+
+interface Entity {
+  id: string;
+  name: string;
+  kind: EntityKind;
+  relation: string | null;
+  memories: { id: string; content: string }[];
+}
+
+interface EntityRow {
+  id: string;
+  name: string;
+  kind: EntityKind;
+  memory_entities: {
+    relation: string | null;
+    memories: { id: string; content: string; status: string } | null;
+  }[];
+}
+
+const ENTITY_KINDS: EntityKind[] = ['person', 'organization', 'place', 'project'];
+
+const ENTITY_KIND_LABELS: Record<EntityKind, string> = {
+  person: 'People',
+  organization: 'Organizations',
+  place: 'Places',
+  project: 'Projects',
+};
+
+const ENTITY_KIND_ICONS: Record<EntityKind, typeof Users> = {
+  person: Users,
+  organization: Building2,
+  place: MapPin,
+  project: FolderKanban,
+};
+
+type MemoryUpdates = Partial<Pick<Memory, 'content' | 'tags' | 'importance' | 'pinned' | 'status'>>;
+
 const Memories = () => {
   const [user, setUser] = useState<User | null>(null);
   const [memories, setMemories] = useState<Memory[]>([]);
@@ -27,6 +111,17 @@ const Memories = () => {
   const [searchTerm, setSearchTerm] = useState('');
   const [selectedImportance, setSelectedImportance] = useState<string>('all');
   const [isLoading, setIsLoading] = useState(true);
+  const [isConsolidating, setIsConsolidating] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingContent, setEditingContent] = useState('');
+  const [editingTags, setEditingTags] = useState('');
+  const [pendingSuppress, setPendingSuppress] = useState<Memory | null>(null);
+  const [reviewEnabled, setReviewEnabled] = useState(false);
+  const [view, setView] = useState<'memories' | 'entities'>('memories');
+  const [entities, setEntities] = useState<Entity[]>([]);
+  const [scoring, setScoring] = useState<MemoryScoring>(DEFAULT_SCORING);
+  const [showRecallSettings, setShowRecallSettings] = useState(false);
+  const [isSavingScoring, setIsSavingScoring] = useState(false);
   const navigate = useNavigate();
   const { toast } = useToast();
 
@@ -38,7 +133,7 @@ const Memories = () => {
         return;
       }
       setUser(session.user);
-      await loadMemories();
+      await Promise.all([loadMemories(), loadEntities(), loadMemorySettings(session.user.id)]);
     };
 
     checkAuth();
@@ -69,8 +164,108 @@ const Memories = () => {
     }
   };
 
+  // Entities with the active memories that mention them, most mentioned first
+  const loadEntities = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('entities')
+        .select('id, name, kind, memory_entities(relation, memories(id, content, status))')
+        .order('name');
+
+      if (error) throw error;
+
+      const loaded: Entity[] = ((data || []) as unknown as EntityRow[]).map((entity) => {
+        const links = entity.memory_entities.filter(link => link.memories?.status === 'active');
+        return {
+          id: entity.id,
+          name: entity.name,
+          kind: entity.kind,
+          relation: links.find(link => link.relation)?.relation || null,
+          memories: links.map(link => ({ id: link.memories!.id, content: link.memories!.content })),
+        };
+      }).filter(entity => entity.memories.length > 0);
+
+      setEntities(loaded.sort((a, b) => b.memories.length - a.memories.length));
+    } catch (error) {
+      console.error('Failed to load entities:', error);
+    }
+  };
+
+  const loadMemorySettings = async (userId: string) => {
+    const { data, error } = await supabase
+      .from('profiles')
+      .select('memory_review_enabled, memory_scoring')
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Failed to load memory settings:', error);
+      return;
+    }
+    setReviewEnabled(data?.memory_review_enabled ?? false);
+    setScoring({ ...DEFAULT_SCORING, ...(data?.memory_scoring as Partial<MemoryScoring> | null) });
+  };
+
+  const saveScoring = async () => {
+    if (!user) return;
+
+    setIsSavingScoring(true);
+    const { error } = await supabase
+      .from('profiles')
+      .update({ memory_scoring: { ...scoring } })
+      .eq('user_id', user.id);
+    setIsSavingScoring(false);
+
+    if (error) {
+      console.error('Failed to save recall settings:', error);
+      toast({
+        title: "Error",
+        description: "Failed to save recall settings",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    toast({
+      title: "Recall Settings Saved",
+      description: "Zoxaa will use them from your next message"
+    });
+  };
+
+  const toggleReviewMode = async (enabled: boolean) => {
+    if (!user) return;
+
+    setReviewEnabled(enabled);
+    const { error } = await supabase
+      .from('profiles')
+      .update({ memory_review_enabled: enabled })
+      .eq('user_id', user.id);
+
+    if (error) {
+      console.error('Failed to update memory review setting:', error);
+      setReviewEnabled(!enabled);
+      toast({
+        title: "Error",
+        description: "Failed to update review mode",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    toast({
+      title: enabled ? "Review Mode On" : "Review Mode Off",
+      description: enabled
+        ? "New memories will wait in your inbox until you accept them"
+        : "Zoxaa will remember new things right away"
+    });
+  };
+
+  // Pending memories live in the inbox and are not used in chat yet
+  const activeMemories = memories.filter(m => m.status !== 'pending');
+  const pendingMemories = memories.filter(m => m.status === 'pending');
+
   const filterMemories = () => {
-    let filtered = memories;
+    let filtered = activeMemories;
 
     // Filter by search term
     if (searchTerm) {
@@ -86,7 +281,8 @@ const Memories = () => {
       filtered = filtered.filter(memory => memory.importance === selectedImportance);
     }
 
-    setFilteredMemories(filtered);
+    // Pinned memories stay at the top
+    setFilteredMemories([...filtered].sort((a, b) => Number(b.pinned) - Number(a.pinned)));
   };
 
   const deleteMemory = async (memoryId: string) => {
@@ -98,7 +294,7 @@ const Memories = () => {
 
       if (error) throw error;
 
-      setMemories(memories.filter(m => m.id !== memoryId));
+      setMemories(prev => prev.filter(m => m.id !== memoryId));
       toast({
         title: "Memory Deleted",
         description: "The memory has been removed"
@@ -113,6 +309,231 @@ const Memories = () => {
     }
   };
 
+  // Edits go through the API so changed content gets a fresh embedding
+  const updateMemory = async (memoryId: string, updates: MemoryUpdates) => {
+    const response = await fetch(`/api/memories/${memoryId}`, {
+      method: 'PATCH',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(await getAuthHeaders()),
+      },
+      body: JSON.stringify(updates),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Memory API error: ${response.statusText}`);
+    }
+
+    const { memory } = await response.json();
+    setMemories(prev => prev.map(m => m.id === memoryId ? { ...m, ...memory } : m));
+  };
+
+  const startEditing = (memory: Memory) => {
+    setEditingId(memory.id);
+    setEditingContent(memory.content);
+    setEditingTags(memory.tags.join(', '));
+  };
+
+  const cancelEditing = () => {
+    setEditingId(null);
+    setEditingContent('');
+    setEditingTags('');
+  };
+
+  const saveEdit = async () => {
+    if (!editingId) return;
+
+    const content = editingContent.trim();
+    if (!content) {
+      cancelEditing();
+      return;
+    }
+
+    try {
+      // Editing a pending memory also accepts it
+      await updateMemory(editingId, {
+        content,
+        tags: editingTags.split(',').map(tag => tag.trim()).filter(Boolean),
+        status: 'active',
+      });
+      cancelEditing();
+      toast({
+        title: "Memory Updated",
+        description: "Zoxaa will remember it this way from now on"
+      });
+    } catch (error) {
+      console.error('Failed to update memory:', error);
+      toast({
+        title: "Error",
+        description: "Failed to update memory",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const acceptMemory = async (memoryId: string) => {
+    try {
+      await updateMemory(memoryId, { status: 'active' });
+      toast({
+        title: "Memory Accepted",
+        description: "Zoxaa will use this in future conversations"
+      });
+    } catch (error) {
+      console.error('Failed to accept memory:', error);
+      toast({
+        title: "Error",
+        description: "Failed to accept memory",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const rejectMemory = async (memoryId: string) => {
+    try {
+      const { error } = await supabase
+        .from('memories')
+        .delete()
+        .eq('id', memoryId);
+
+      if (error) throw error;
+
+      setMemories(prev => prev.filter(m => m.id !== memoryId));
+    } catch (error) {
+      console.error('Failed to reject memory:', error);
+      toast({
+        title: "Error",
+        description: "Failed to reject memory",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const renderEditor = () => (
+    <div className="space-y-2 mb-3">
+      <Textarea
+        value={editingContent}
+        onChange={(e) => setEditingContent(e.target.value)}
+        className="min-h-[80px]"
+        autoFocus
+      />
+      <Input
+        placeholder="Tags, separated by commas"
+        value={editingTags}
+        onChange={(e) => setEditingTags(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') saveEdit();
+          if (e.key === 'Escape') cancelEditing();
+        }}
+      />
+      <div className="flex space-x-2">
+        <Button size="sm" onClick={saveEdit} className="h-7 px-2 text-xs">
+          <Check className="h-3 w-3 mr-1" />
+          Save
+        </Button>
+        <Button variant="ghost" size="sm" onClick={cancelEditing} className="h-7 px-2 text-xs">
+          <X className="h-3 w-3 mr-1" />
+          Cancel
+        </Button>
+      </div>
+    </div>
+  );
+
+  const changeImportance = async (memory: Memory, importance: string) => {
+    if (memory.importance === importance) return;
+
+    try {
+      await updateMemory(memory.id, { importance });
+    } catch (error) {
+      console.error('Failed to change importance:', error);
+      toast({
+        title: "Error",
+        description: "Failed to change importance",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const togglePinned = async (memory: Memory) => {
+    try {
+      await updateMemory(memory.id, { pinned: !memory.pinned });
+      toast({
+        title: memory.pinned ? "Memory Unpinned" : "Memory Pinned",
+        description: memory.pinned
+          ? "Zoxaa will only recall it when it is relevant"
+          : "Zoxaa will keep this in mind in every conversation"
+      });
+    } catch (error) {
+      console.error('Failed to pin memory:', error);
+      toast({
+        title: "Error",
+        description: "Failed to update pin",
+        variant: "destructive"
+      });
+    }
+  };
+
+  // Deletes the memory and stops the extractor from learning it again
+  const suppressMemory = async (memoryId: string) => {
+    try {
+      const { error } = await supabase.rpc('suppress_memory', { target_memory_id: memoryId });
+
+      if (error) throw error;
+
+      setMemories(prev => prev.filter(m => m.id !== memoryId));
+      toast({
+        title: "Memory Forgotten",
+        description: "Zoxaa won't remember this again"
+      });
+    } catch (error) {
+      console.error('Failed to suppress memory:', error);
+      toast({
+        title: "Error",
+        description: "Failed to forget memory",
+        variant: "destructive"
+      });
+    } finally {
+      setPendingSuppress(null);
+    }
+  };
+
+  const consolidateMemories = async () => {
+    setIsConsolidating(true);
+    try {
+      const response = await fetch('/api/memories/consolidate', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(await getAuthHeaders()),
+        },
+      });
+
+      if (!response.ok) {
+        throw new Error(`Consolidation API error: ${response.statusText}`);
+      }
+
+      const { merged, removed } = await response.json();
+      toast({
+        title: "Memories Tidied Up",
+        description: removed > 0
+          ? `Merged ${removed + merged} similar memories into ${merged}`
+          : "No duplicate memories found"
+      });
+
+      if (removed > 0) {
+        await loadMemories();
+      }
+    } catch (error) {
+      console.error('Failed to consolidate memories:', error);
+      toast({
+        title: "Error",
+        description: "Failed to tidy up memories",
+        variant: "destructive"
+      });
+    } finally {
+      setIsConsolidating(false);
+    }
+  };
+
   const getImportanceColor = (importance: string) => {
     switch (importance) {
       case 'high':
@@ -126,11 +547,17 @@ const Memories = () => {
     }
   };
 
-  const getEmotionIcon = (emotion: any) => {
+  // The emotion the user was feeling when the memory was made
+  const renderEmotion = (emotionContext: unknown) => {
+    const emotion = normalizeEmotion(emotionContext);
     if (!emotion) return null;
-    
-    const emotions = ['😊', '😢', '😠', '😰', '😴', '🤔', '😍', '😎'];
-    return emotions[Math.floor(Math.random() * emotions.length)];
+
+    const { emoji, label } = EMOTIONS[emotion.primary];
+    return (
+      <span className="text-lg" title={`${label} (${Math.round(emotion.confidence * 100)}% confident)`} aria-label={label}>
+        {emoji}
+      </span>
+    );
   };
 
   if (isLoading) {
@@ -163,91 +590,140 @@ const Memories = () => {
             </div>
           </div>
           
-          <div className="flex items-center space-x-2 text-sm text-muted-foreground">
-            <Brain className="h-4 w-4" />
-            <span>{memories.length} memories stored</span>
+          <div className="flex items-center space-x-4">
+            <div className="flex items-center space-x-2 text-sm text-muted-foreground">
+              <Brain className="h-4 w-4" />
+              <span>{activeMemories.length} memories stored</span>
+            </div>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={consolidateMemories}
+              disabled={isConsolidating || activeMemories.length < 2}
+              className="flex items-center space-x-2"
+            >
+              <Sparkles className="h-4 w-4" />
+              <span>{isConsolidating ? 'Tidying up...' : 'Tidy up'}</span>
+            </Button>
           </div>
         </div>
 
-        {/* Filters */}
+        {/* Recall Settings */}
         <Card className="mb-6">
-          <CardContent className="pt-6">
-            <div className="flex flex-col sm:flex-row gap-4">
-              <div className="flex-1">
-                <div className="relative">
-                  <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
-                  <Input
-                    placeholder="Search memories, tags, or context..."
-                    value={searchTerm}
-                    onChange={(e) => setSearchTerm(e.target.value)}
-                    className="pl-10"
+          <CardHeader className="pb-3">
+            <div className="flex items-center justify-between">
+              <CardTitle className="text-sm flex items-center space-x-2">
+                <SlidersHorizontal className="h-4 w-4" />
+                <span>Recall settings</span>
+              </CardTitle>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setShowRecallSettings(!showRecallSettings)}
+                className="h-7 px-2 text-xs"
+              >
+                {showRecallSettings ? 'Hide' : 'Adjust'}
+              </Button>
+            </div>
+          </CardHeader>
+          {showRecallSettings && (
+            <CardContent className="space-y-5">
+              <p className="text-sm text-muted-foreground">
+                Zoxaa recalls memories that match what you're talking about, then ranks them with these weights.
+              </p>
+              {SCORING_WEIGHTS.map(({ key, label, description }) => (
+                <div key={key} className="space-y-2">
+                  <div className="flex items-center justify-between text-sm">
+                    <div>
+                      <span className="font-medium">{label}</span>
+                      <span className="text-muted-foreground"> · {description}</span>
+                    </div>
+                    <span className="text-muted-foreground">{scoring[key].toFixed(2)}</span>
+                  </div>
+                  <Slider
+                    value={[scoring[key]]}
+                    min={0}
+                    max={0.5}
+                    step={0.05}
+                    onValueChange={([value]) => setScoring({ ...scoring, [key]: value })}
                   />
                 </div>
+              ))}
+              <div className="flex items-center justify-between text-sm">
+                <div>
+                  <span className="font-medium">Fade after</span>
+                  <span className="text-muted-foreground"> · Low-importance memories lose half their recency boost in this time; important ones fade more slowly</span>
+                </div>
+                <Select
+                  value={String(scoring.half_life_days)}
+                  onValueChange={(value) => setScoring({ ...scoring, half_life_days: Number(value) })}
+                >
+                  <SelectTrigger className="w-32">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="7">1 week</SelectItem>
+                    <SelectItem value="30">1 month</SelectItem>
+                    <SelectItem value="90">3 months</SelectItem>
+                    <SelectItem value="365">1 year</SelectItem>
+                  </SelectContent>
+                </Select>
               </div>
-              
               <div className="flex space-x-2">
-                {['all', 'high', 'medium', 'low'].map((importance) => (
-                  <Button
-                    key={importance}
-                    variant={selectedImportance === importance ? 'default' : 'outline'}
-                    size="sm"
-                    onClick={() => setSelectedImportance(importance)}
-                    className="capitalize"
-                  >
-                    {importance === 'all' ? 'All' : importance}
-                  </Button>
-                ))}
+                <Button size="sm" onClick={saveScoring} disabled={isSavingScoring}>
+                  {isSavingScoring ? 'Saving...' : 'Save'}
+                </Button>
+                <Button variant="ghost" size="sm" onClick={() => setScoring(DEFAULT_SCORING)}>
+                  Reset to defaults
+                </Button>
               </div>
-            </div>
-          </CardContent>
+            </CardContent>
+          )}
         </Card>
 
-        {/* Memories List */}
-        <div className="space-y-4">
-          {filteredMemories.length === 0 ? (
-            <Card className="text-center py-12">
-              <CardContent>
-                <Brain className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
-                <h3 className="text-lg font-semibold mb-2">
-                  {memories.length === 0 ? 'No memories yet' : 'No matching memories'}
-                </h3>
-                <p className="text-muted-foreground">
-                  {memories.length === 0 
-                    ? 'Start chatting with Zoxaa to create your first memories'
-                    : 'Try adjusting your search or filter criteria'
-                  }
+        {/* Review Inbox */}
+        <Card className="mb-6">
+          <CardHeader className="pb-3">
+            <div className="flex items-center justify-between">
+              <CardTitle className="text-sm flex items-center space-x-2">
+                <Inbox className="h-4 w-4" />
+                <span>Review inbox</span>
+                {pendingMemories.length > 0 && (
+                  <Badge variant="secondary">{pendingMemories.length}</Badge>
+                )}
+              </CardTitle>
+              <div className="flex items-center space-x-2">
+                <Switch
+                  id="memory-review"
+                  checked={reviewEnabled}
+                  onCheckedChange={toggleReviewMode}
+                />
+                <Label htmlFor="memory-review" className="text-sm text-muted-foreground">
+                  Review new memories before Zoxaa uses them
+                </Label>
+              </div>
+            </div>
+          </CardHeader>
+          {(reviewEnabled || pendingMemories.length > 0) && (
+            <CardContent className="space-y-3">
+              {pendingMemories.length === 0 ? (
+                <p className="text-sm text-muted-foreground">
+                  Nothing to review. New memories from your chats will show up here.
                 </p>
-              </CardContent>
-            </Card>
-          ) : (
-            filteredMemories.map((memory) => (
-              <Card key={memory.id} className="hover:shadow-lg transition-shadow">
-                <CardHeader>
-                  <div className="flex items-start justify-between">
-                    <div className="flex-1">
-                      <div className="flex items-center space-x-2 mb-2">
-                        <Badge className={getImportanceColor(memory.importance)}>
-                          {memory.importance} importance
-                        </Badge>
-                        {memory.emotion_context && (
-                          <span className="text-lg">
-                            {getEmotionIcon(memory.emotion_context)}
-                          </span>
-                        )}
-                      </div>
-                      
-                      <CardTitle className="text-base font-medium mb-2">
-                        {memory.content}
-                      </CardTitle>
-                      
-                      {memory.context && (
-                        <p className="text-sm text-muted-foreground mb-3">
-                          Context: {memory.context}
-                        </p>
-                      )}
-                      
-                      {memory.tags.length > 0 && (
-                        <div className="flex flex-wrap gap-1 mb-3">
+              ) : (
+                pendingMemories.map((memory) => (
+                  <div key={memory.id} className="rounded-lg border p-3">
+                    {editingId === memory.id ? renderEditor() : (
+                      <>
+                        <div className="flex items-center space-x-2 mb-2">
+                          <Badge className={getImportanceColor(memory.importance)}>
+                            {memory.importance} importance
+                          </Badge>
+                          {memory.category && (
+                            <Badge variant="outline" className="capitalize">
+                              {memory.category.replace('_', ' ')}
+                            </Badge>
+                          )}
                           {memory.tags.map((tag, index) => (
                             <Badge key={index} variant="secondary" className="text-xs">
                               <Hash className="h-3 w-3 mr-1" />
@@ -255,34 +731,306 @@ const Memories = () => {
                             </Badge>
                           ))}
                         </div>
-                      )}
-                      
-                      <div className="flex items-center justify-between text-xs text-muted-foreground">
-                        <div className="flex items-center space-x-1">
-                          <Calendar className="h-3 w-3" />
-                          <span>{new Date(memory.created_at).toLocaleDateString()}</span>
-                          <span>at {new Date(memory.created_at).toLocaleTimeString()}</span>
-                        </div>
-                        
+                        <p className="text-sm font-medium mb-2">{memory.content}</p>
+                      </>
+                    )}
+
+                    {memory.source_excerpt && (
+                      <div className="flex items-start space-x-2 rounded bg-muted/50 p-2 mb-2 text-xs text-muted-foreground">
+                        <MessageSquare className="h-3 w-3 mt-0.5 shrink-0" />
+                        <p className="whitespace-pre-line">{memory.source_excerpt}</p>
+                      </div>
+                    )}
+
+                    {editingId !== memory.id && (
+                      <div className="flex items-center space-x-1">
+                        <Button size="sm" onClick={() => acceptMemory(memory.id)} className="h-7 px-2 text-xs">
+                          <Check className="h-3 w-3 mr-1" />
+                          Accept
+                        </Button>
+                        <Button variant="ghost" size="sm" onClick={() => startEditing(memory)} className="h-7 px-2 text-xs">
+                          <Pencil className="h-3 w-3 mr-1" />
+                          Edit
+                        </Button>
                         <Button
                           variant="ghost"
                           size="sm"
-                          onClick={() => deleteMemory(memory.id)}
-                          className="h-6 px-2 text-xs text-red-600 hover:text-red-700"
+                          onClick={() => rejectMemory(memory.id)}
+                          className="h-7 px-2 text-xs text-red-600 hover:text-red-700"
                         >
-                          Delete
+                          <X className="h-3 w-3 mr-1" />
+                          Reject
                         </Button>
                       </div>
-                    </div>
+                    )}
                   </div>
-                </CardHeader>
-              </Card>
-            ))
+                ))
+              )}
+            </CardContent>
           )}
+        </Card>
+
+        <div className="flex space-x-2 mb-4">
+          <Button
+            variant={view === 'memories' ? 'default' : 'outline'}
+            size="sm"
+            onClick={() => setView('memories')}
+            className="flex items-center space-x-2"
+          >
+            <Brain className="h-4 w-4" />
+            <span>Memories</span>
+          </Button>
+          <Button
+            variant={view === 'entities' ? 'default' : 'outline'}
+            size="sm"
+            onClick={() => setView('entities')}
+            className="flex items-center space-x-2"
+          >
+            <Users className="h-4 w-4" />
+            <span>People, places &amp; projects</span>
+          </Button>
         </div>
 
+        {view === 'memories' ? (
+          <>
+          {/* Filters */}
+          <Card className="mb-6">
+            <CardContent className="pt-6">
+              <div className="flex flex-col sm:flex-row gap-4">
+                <div className="flex-1">
+                  <div className="relative">
+                    <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                    <Input
+                      placeholder="Search memories, tags, or context..."
+                      value={searchTerm}
+                      onChange={(e) => setSearchTerm(e.target.value)}
+                      className="pl-10"
+                    />
+                  </div>
+                </div>
+                
+                <div className="flex space-x-2">
+                  {['all', 'high', 'medium', 'low'].map((importance) => (
+                    <Button
+                      key={importance}
+                      variant={selectedImportance === importance ? 'default' : 'outline'}
+                      size="sm"
+                      onClick={() => setSelectedImportance(importance)}
+                      className="capitalize"
+                    >
+                      {importance === 'all' ? 'All' : importance}
+                    </Button>
+                  ))}
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* Memories List */}
+          <div className="space-y-4">
+            {filteredMemories.length === 0 ? (
+              <Card className="text-center py-12">
+                <CardContent>
+                  <Brain className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
+                  <h3 className="text-lg font-semibold mb-2">
+                    {activeMemories.length === 0 ? 'No memories yet' : 'No matching memories'}
+                  </h3>
+                  <p className="text-muted-foreground">
+                    {activeMemories.length === 0 
+                      ? 'Start chatting with Zoxaa to create your first memories'
+                      : 'Try adjusting your search or filter criteria'
+                    }
+                  </p>
+                </CardContent>
+              </Card>
+            ) : (
+              filteredMemories.map((memory) => (
+                <Card key={memory.id} className={`hover:shadow-lg transition-shadow ${memory.pinned ? 'border-primary/50' : ''}`}>
+                  <CardHeader>
+                    <div className="flex items-start justify-between">
+                      <div className="flex-1">
+                        <div className="flex items-center space-x-2 mb-2">
+                          {memory.pinned && (
+                            <Badge className="flex items-center gap-1">
+                              <Pin className="h-3 w-3" />
+                              Pinned
+                            </Badge>
+                          )}
+                          <Badge className={getImportanceColor(memory.importance)}>
+                            {memory.importance} importance
+                          </Badge>
+                          {memory.merged_count > 1 && (
+                            <Badge variant="outline" className="flex items-center gap-1">
+                              <Layers className="h-3 w-3" />
+                              merged from {memory.merged_count} · {memory.source_conversation_ids.length} conversations
+                            </Badge>
+                          )}
+                          {memory.category && (
+                            <Badge variant="outline" className="capitalize">
+                              {memory.category.replace('_', ' ')}
+                            </Badge>
+                          )}
+                          {renderEmotion(memory.emotion_context)}
+                        </div>
+                        
+                        {editingId === memory.id ? renderEditor() : (
+                          <CardTitle className="text-base font-medium mb-2">
+                            {memory.content}
+                          </CardTitle>
+                        )}
+                        
+                        {memory.context && (
+                          <p className="text-sm text-muted-foreground mb-3">
+                            Context: {memory.context}
+                          </p>
+                        )}
+                        
+                        {editingId !== memory.id && memory.tags.length > 0 && (
+                          <div className="flex flex-wrap gap-1 mb-3">
+                            {memory.tags.map((tag, index) => (
+                              <Badge key={index} variant="secondary" className="text-xs">
+                                <Hash className="h-3 w-3 mr-1" />
+                                {tag}
+                              </Badge>
+                            ))}
+                          </div>
+                        )}
+                        
+                        <div className="flex items-center justify-between text-xs text-muted-foreground">
+                          <div className="flex items-center space-x-1">
+                            <Calendar className="h-3 w-3" />
+                            <span>{new Date(memory.created_at).toLocaleDateString()}</span>
+                            <span>at {new Date(memory.created_at).toLocaleTimeString()}</span>
+                            {memory.last_accessed_at && (
+                              <>
+                                <History className="h-3 w-3 ml-2" />
+                                <span>
+                                  used {memory.access_count} {memory.access_count === 1 ? 'time' : 'times'}, last on {new Date(memory.last_accessed_at).toLocaleDateString()}
+                                </span>
+                              </>
+                            )}
+                          </div>
+                          
+                          <div className="flex items-center space-x-1">
+                            {['high', 'medium', 'low'].map((importance) => (
+                              <Button
+                                key={importance}
+                                variant={memory.importance === importance ? 'secondary' : 'ghost'}
+                                size="sm"
+                                onClick={() => changeImportance(memory, importance)}
+                                className="h-6 px-2 text-xs capitalize"
+                              >
+                                {importance}
+                              </Button>
+                            ))}
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => togglePinned(memory)}
+                              className="h-6 px-2 text-xs"
+                              title={memory.pinned ? 'Unpin' : 'Pin to every conversation'}
+                            >
+                              {memory.pinned ? <PinOff className="h-3 w-3" /> : <Pin className="h-3 w-3" />}
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => startEditing(memory)}
+                              disabled={editingId === memory.id}
+                              className="h-6 px-2 text-xs"
+                              title="Edit"
+                            >
+                              <Pencil className="h-3 w-3" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => deleteMemory(memory.id)}
+                              className="h-6 px-2 text-xs text-red-600 hover:text-red-700"
+                            >
+                              Delete
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => setPendingSuppress(memory)}
+                              className="h-6 px-2 text-xs text-red-600 hover:text-red-700"
+                            >
+                              Never remember this
+                            </Button>
+                          </div>
+                        </div>
+                      </div>
+                    </div>
+                  </CardHeader>
+                </Card>
+              ))
+            )}
+          </div>
+          </>
+        ) : (
+          /* Entity View */
+          <div className="space-y-4">
+            {entities.length === 0 ? (
+              <Card className="text-center py-12">
+                <CardContent>
+                  <Users className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
+                  <h3 className="text-lg font-semibold mb-2">No people, places or projects yet</h3>
+                  <p className="text-muted-foreground">
+                    Zoxaa picks them up as you mention them in conversation
+                  </p>
+                </CardContent>
+              </Card>
+            ) : (
+              ENTITY_KINDS.filter(kind => entities.some(e => e.kind === kind)).map((kind) => {
+                const KindIcon = ENTITY_KIND_ICONS[kind];
+                return (
+                  <Card key={kind}>
+                    <CardHeader className="pb-3">
+                      <CardTitle className="text-sm flex items-center space-x-2">
+                        <KindIcon className="h-4 w-4" />
+                        <span>{ENTITY_KIND_LABELS[kind]}</span>
+                      </CardTitle>
+                    </CardHeader>
+                    <CardContent className="grid gap-3 sm:grid-cols-2">
+                      {entities.filter(e => e.kind === kind).map((entity) => (
+                        <div key={entity.id} className="rounded-lg border p-3">
+                          <div className="flex items-center justify-between mb-2">
+                            <div className="flex items-center space-x-2">
+                              <span className="font-medium">{entity.name}</span>
+                              {entity.relation && (
+                                <Badge variant="outline" className="capitalize">{entity.relation}</Badge>
+                              )}
+                            </div>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => {
+                                setSearchTerm(entity.name);
+                                setView('memories');
+                              }}
+                              className="h-6 px-2 text-xs"
+                            >
+                              {entity.memories.length} {entity.memories.length === 1 ? 'memory' : 'memories'}
+                            </Button>
+                          </div>
+                          <ul className="space-y-1 text-sm text-muted-foreground">
+                            {entity.memories.slice(0, 3).map((memory) => (
+                              <li key={memory.id} className="line-clamp-2">{memory.content}</li>
+                            ))}
+                          </ul>
+                        </div>
+                      ))}
+                    </CardContent>
+                  </Card>
+                );
+              })
+            )}
+          </div>
+        )}
+
         {/* Memory Stats */}
-        {memories.length > 0 && (
+        {activeMemories.length > 0 && (
           <Card className="mt-8">
             <CardHeader>
               <CardTitle className="text-sm">Memory Statistics</CardTitle>
@@ -291,25 +1039,25 @@ const Memories = () => {
               <div className="grid grid-cols-2 sm:grid-cols-4 gap-4 text-center">
                 <div>
                   <div className="text-2xl font-bold text-red-600">
-                    {memories.filter(m => m.importance === 'high').length}
+                    {activeMemories.filter(m => m.importance === 'high').length}
                   </div>
                   <div className="text-xs text-muted-foreground">High Priority</div>
                 </div>
                 <div>
                   <div className="text-2xl font-bold text-yellow-600">
-                    {memories.filter(m => m.importance === 'medium').length}
+                    {activeMemories.filter(m => m.importance === 'medium').length}
                   </div>
                   <div className="text-xs text-muted-foreground">Medium Priority</div>
                 </div>
                 <div>
                   <div className="text-2xl font-bold text-green-600">
-                    {memories.filter(m => m.importance === 'low').length}
+                    {activeMemories.filter(m => m.importance === 'low').length}
                   </div>
                   <div className="text-xs text-muted-foreground">Low Priority</div>
                 </div>
                 <div>
                   <div className="text-2xl font-bold text-primary">
-                    {memories.reduce((acc, m) => acc + m.tags.length, 0)}
+                    {activeMemories.reduce((acc, m) => acc + m.tags.length, 0)}
                   </div>
                   <div className="text-xs text-muted-foreground">Total Tags</div>
                 </div>
@@ -318,6 +1066,27 @@ const Memories = () => {
           </Card>
         )}
       </div>
+
+      <AlertDialog open={!!pendingSuppress} onOpenChange={(open) => !open && setPendingSuppress(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Never remember this?</AlertDialogTitle>
+            <AlertDialogDescription>
+              "{pendingSuppress?.content}" will be deleted, and Zoxaa won't save it or anything
+              very similar from future conversations.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => pendingSuppress && suppressMemory(pendingSuppress.id)}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Forget it
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </div>
   );
 };
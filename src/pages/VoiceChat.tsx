@@ -20,6 +20,7 @@ import { cn } from "@/lib/utils";
 import { useToast } from "@/hooks/use-toast";
 import useZoxaaChat from "@/hooks/useZoxaaChat";
 import useRealTimeVoice from "@/hooks/useRealTimeVoice";
+import { analyzeEmotion } from "@/lib/emotions";
 import { useNavigate } from "react-router-dom";
 
 const VoiceChat = () => {
@@ -39,6 +40,7 @@ const VoiceChat = () => {
     startRealTimeListening, 
     stopRealTimeListening, 
     speakWithEmotion, 
+    startSpeechStream,
     stopSpeaking,
     currentTranscript,
     isListening,
@@ -129,21 +131,28 @@ const VoiceChat = () => {
     setIsProcessing(true);
     setConversationHistory(prev => [...prev, `You: ${transcript}`]);
     
+    // Speak the reply sentence by sentence as it streams, in a voice suited
+    // to how the user sounded once the emotion reading is back. The same
+    // reading is saved with the turn.
+    const emotion = analyzeEmotion(transcript);
+    const speech = startSpeechStream(emotion.then(reading => ({
+      emotion: reading?.primary ?? 'neutral',
+      intensity: reading?.confidence
+    })));
+
     try {
       // Send to ZOXAA and get response
       console.log('Sending message to ZOXAA...');
-      const response = await sendMessage(transcript);
+      const response = await sendMessage(transcript, { onDelta: content => speech.push(content), emotion });
       console.log('ZOXAA response:', response);
       
-      // Speak the response
-      console.log('Speaking response...');
-      await speakWithEmotion(response, 'neutral');
-      
       setConversationHistory(prev => [...prev, `ZOXAA: ${response}`]);
+      await speech.end();
       
       // Clear the transcript after processing
       clearTranscript();
     } catch (error) {
+      speech.cancel();
       console.error('Failed to process voice input:', error);
     } finally {
       setIsProcessing(false);
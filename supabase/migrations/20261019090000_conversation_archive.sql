@@ -0,0 +1,15 @@
+-- Conversation threads can be archived from the history page without losing them
+alter table public.conversations
+  add column if not exists archived_at timestamptz;
+
+create index if not exists conversations_user_recent_idx
+  on public.conversations (user_id, updated_at desc);
+
+-- Deleting a thread keeps the memories it produced, just unlinked
+alter table public.memories
+  drop constraint if exists memories_conversation_id_fkey;
+
+alter table public.memories
+  add constraint memories_conversation_id_fkey
+  foreign key (conversation_id) references public.conversations (id)
+  on delete set null;
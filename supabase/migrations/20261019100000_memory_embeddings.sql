@@ -0,0 +1,60 @@
+-- Semantic memory retrieval: embeddings are written by the backend when a
+-- memory is inserted and searched through match_memories().
+create extension if not exists vector with schema extensions;
+
+alter table public.memories
+  alter column embedding type extensions.vector(1536)
+  using embedding::extensions.vector(1536);
+
+create index if not exists memories_embedding_hnsw_idx
+  on public.memories
+  using hnsw (embedding extensions.vector_cosine_ops);
+
+-- Top-k memories for the calling user by cosine similarity, with a small
+-- boost for memories marked as more important. Runs as the caller so row
+-- level security keeps results scoped to auth.uid().
+create or replace function public.match_memories(
+  query_embedding extensions.vector(1536),
+  match_count int default 5,
+  min_similarity float default 0.25
+)
+returns table (
+  id uuid,
+  content text,
+  context text,
+  importance text,
+  tags text[],
+  conversation_id uuid,
+  created_at timestamptz,
+  similarity float,
+  score float
+)
+language sql
+stable
+security invoker
+set search_path = public, extensions
+as $$
+  select
+    m.id,
+    m.content,
+    m.context,
+    m.importance,
+    m.tags,
+    m.conversation_id,
+    m.created_at,
+    1 - (m.embedding <=> query_embedding) as similarity,
+    (1 - (m.embedding <=> query_embedding))
+      + case m.importance
+          when 'high' then 0.15
+          when 'medium' then 0.05
+          else 0
+        end as score
+  from public.memories m
+  where m.user_id = auth.uid()
+    and m.embedding is not null
+    and 1 - (m.embedding <=> query_embedding) >= min_similarity
+  order by score desc
+  limit match_count;
+$$;
+
+grant execute on function public.match_memories(extensions.vector, int, float) to authenticated;
@@ -0,0 +1,6 @@
+-- Memories produced by the backend extraction pipeline carry a category
+alter table public.memories
+  add column if not exists category text;
+
+create index if not exists memories_user_category_idx
+  on public.memories (user_id, category);
@@ -0,0 +1,46 @@
+-- Consolidation merges near-duplicate memories into one canonical row.
+-- The canonical memory remembers every conversation its originals came from.
+alter table public.memories
+  add column if not exists source_conversation_ids uuid[] not null default '{}',
+  add column if not exists merged_count int not null default 1,
+  add column if not exists consolidated_at timestamptz;
+
+-- Pairs of a user's memories whose embeddings are at least min_similarity
+-- apart. Each memory is compared with its nearest neighbours only, which
+-- keeps the job cheap on large memory stores.
+create or replace function public.find_similar_memories(
+  target_user_id uuid,
+  min_similarity float default 0.9,
+  neighbours int default 5
+)
+returns table (
+  memory_id uuid,
+  similar_id uuid,
+  similarity float
+)
+language sql
+stable
+security invoker
+set search_path = public, extensions
+as $$
+  select
+    m.id as memory_id,
+    n.id as similar_id,
+    1 - (m.embedding <=> n.embedding) as similarity
+  from public.memories m
+  cross join lateral (
+    select other.id, other.embedding
+    from public.memories other
+    where other.user_id = m.user_id
+      and other.id <> m.id
+      and other.embedding is not null
+    order by other.embedding <=> m.embedding
+    limit neighbours
+  ) n
+  where m.user_id = target_user_id
+    and m.embedding is not null
+    and m.id < n.id
+    and 1 - (m.embedding <=> n.embedding) >= min_similarity;
+$$;
+
+grant execute on function public.find_similar_memories(uuid, float, int) to authenticated, service_role;
@@ -0,0 +1,75 @@
+-- Pinned memories are injected into every chat prompt
+alter table public.memories
+  add column if not exists pinned boolean not null default false;
+
+create index if not exists memories_user_pinned_idx
+  on public.memories (user_id)
+  where pinned;
+
+-- "Never remember this": the extractor skips anything close to a suppressed memory
+create table if not exists public.memory_suppressions (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  content text not null,
+  embedding extensions.vector(1536),
+  created_at timestamptz not null default now()
+);
+
+alter table public.memory_suppressions enable row level security;
+
+create policy "Users can view their own memory suppressions"
+  on public.memory_suppressions for select
+  using (auth.uid() = user_id);
+
+create policy "Users can create their own memory suppressions"
+  on public.memory_suppressions for insert
+  with check (auth.uid() = user_id);
+
+create policy "Users can delete their own memory suppressions"
+  on public.memory_suppressions for delete
+  using (auth.uid() = user_id);
+
+-- Deletes a memory and records it as suppressed in one step
+create or replace function public.suppress_memory(target_memory_id uuid)
+returns void
+language sql
+security invoker
+set search_path = public, extensions
+as $$
+  insert into public.memory_suppressions (user_id, content, embedding)
+  select user_id, content, embedding
+  from public.memories
+  where id = target_memory_id
+    and user_id = auth.uid();
+
+  delete from public.memories
+  where id = target_memory_id
+    and user_id = auth.uid();
+$$;
+
+create or replace function public.is_memory_suppressed(
+  query_embedding extensions.vector(1536),
+  query_content text default null,
+  min_similarity float default 0.88
+)
+returns boolean
+language sql
+stable
+security invoker
+set search_path = public, extensions
+as $$
+  select exists (
+    select 1
+    from public.memory_suppressions s
+    where s.user_id = auth.uid()
+      and (
+        (s.embedding is not null
+          and query_embedding is not null
+          and 1 - (s.embedding <=> query_embedding) >= min_similarity)
+        or lower(s.content) = lower(query_content)
+      )
+  );
+$$;
+
+grant execute on function public.suppress_memory(uuid) to authenticated;
+grant execute on function public.is_memory_suppressed(extensions.vector, text, float) to authenticated;
@@ -0,0 +1,97 @@
+-- Optional review mode: extracted memories start out pending and are only
+-- used in chat once the user accepts them from the inbox on /memories.
+alter table public.memories
+  add column if not exists status text not null default 'active'
+    check (status in ('pending', 'active')),
+  add column if not exists source_excerpt text;
+
+create index if not exists memories_user_pending_idx
+  on public.memories (user_id, created_at desc)
+  where status = 'pending';
+
+alter table public.profiles
+  add column if not exists memory_review_enabled boolean not null default false;
+
+-- Same as before, but pending memories are never retrieved
+create or replace function public.match_memories(
+  query_embedding extensions.vector(1536),
+  match_count int default 5,
+  min_similarity float default 0.25
+)
+returns table (
+  id uuid,
+  content text,
+  context text,
+  importance text,
+  tags text[],
+  conversation_id uuid,
+  created_at timestamptz,
+  similarity float,
+  score float
+)
+language sql
+stable
+security invoker
+set search_path = public, extensions
+as $$
+  select
+    m.id,
+    m.content,
+    m.context,
+    m.importance,
+    m.tags,
+    m.conversation_id,
+    m.created_at,
+    1 - (m.embedding <=> query_embedding) as similarity,
+    (1 - (m.embedding <=> query_embedding))
+      + case m.importance
+          when 'high' then 0.15
+          when 'medium' then 0.05
+          else 0
+        end as score
+  from public.memories m
+  where m.user_id = auth.uid()
+    and m.status = 'active'
+    and m.embedding is not null
+    and 1 - (m.embedding <=> query_embedding) >= min_similarity
+  order by score desc
+  limit match_count;
+$$;
+
+-- Pending memories are left alone until the user has reviewed them
+create or replace function public.find_similar_memories(
+  target_user_id uuid,
+  min_similarity float default 0.9,
+  neighbours int default 5
+)
+returns table (
+  memory_id uuid,
+  similar_id uuid,
+  similarity float
+)
+language sql
+stable
+security invoker
+set search_path = public, extensions
+as $$
+  select
+    m.id as memory_id,
+    n.id as similar_id,
+    1 - (m.embedding <=> n.embedding) as similarity
+  from public.memories m
+  cross join lateral (
+    select other.id, other.embedding
+    from public.memories other
+    where other.user_id = m.user_id
+      and other.id <> m.id
+      and other.status = 'active'
+      and other.embedding is not null
+    order by other.embedding <=> m.embedding
+    limit neighbours
+  ) n
+  where m.user_id = target_user_id
+    and m.status = 'active'
+    and m.embedding is not null
+    and m.id < n.id
+    and 1 - (m.embedding <=> n.embedding) >= min_similarity;
+$$;
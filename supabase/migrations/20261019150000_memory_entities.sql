@@ -0,0 +1,64 @@
+-- Entity graph: people, organisations, places and projects mentioned in
+-- memories, linked to every memory that talks about them.
+create table if not exists public.entities (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  name text not null,
+  normalized_name text generated always as (lower(name)) stored,
+  kind text not null check (kind in ('person', 'organization', 'place', 'project')),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  unique (user_id, kind, normalized_name)
+);
+
+create index if not exists entities_user_name_idx
+  on public.entities (user_id, normalized_name);
+
+-- One row per memory that mentions an entity. `relation` is how the entity
+-- relates to the user in that memory ("sister", "employer", "hometown").
+create table if not exists public.memory_entities (
+  memory_id uuid not null references public.memories (id) on delete cascade,
+  entity_id uuid not null references public.entities (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  relation text,
+  created_at timestamptz not null default now(),
+  primary key (memory_id, entity_id)
+);
+
+create index if not exists memory_entities_entity_idx
+  on public.memory_entities (entity_id);
+
+alter table public.entities enable row level security;
+alter table public.memory_entities enable row level security;
+
+create policy "Users can view their own entities"
+  on public.entities for select
+  using (auth.uid() = user_id);
+
+create policy "Users can create their own entities"
+  on public.entities for insert
+  with check (auth.uid() = user_id);
+
+create policy "Users can update their own entities"
+  on public.entities for update
+  using (auth.uid() = user_id);
+
+create policy "Users can delete their own entities"
+  on public.entities for delete
+  using (auth.uid() = user_id);
+
+create policy "Users can view their own memory entities"
+  on public.memory_entities for select
+  using (auth.uid() = user_id);
+
+create policy "Users can create their own memory entities"
+  on public.memory_entities for insert
+  with check (auth.uid() = user_id);
+
+create policy "Users can update their own memory entities"
+  on public.memory_entities for update
+  using (auth.uid() = user_id);
+
+create policy "Users can delete their own memory entities"
+  on public.memory_entities for delete
+  using (auth.uid() = user_id);
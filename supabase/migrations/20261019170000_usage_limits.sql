@@ -0,0 +1,93 @@
+-- Per-user usage for rate limiting and monthly quotas. One row per chat or
+-- TTS request: chat rows get their token count once the completion finishes,
+-- TTS rows carry the number of characters spoken.
+create table if not exists public.usage_events (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  kind text not null check (kind in ('chat', 'tts')),
+  tokens int not null default 0,
+  characters int not null default 0,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists usage_events_user_created_idx
+  on public.usage_events (user_id, created_at desc);
+
+alter table public.usage_events enable row level security;
+
+-- Read-only for users: rows are written through the functions below, which
+-- can only ever add usage, so nobody can reset their own quota
+create policy "Users can view their own usage"
+  on public.usage_events for select
+  using (auth.uid() = user_id);
+
+create or replace function public.record_usage(
+  usage_kind text,
+  usage_tokens int default 0,
+  usage_characters int default 0
+)
+returns uuid
+language sql
+security definer
+set search_path = public
+as $$
+  insert into public.usage_events (user_id, kind, tokens, characters)
+  values (auth.uid(), usage_kind, greatest(usage_tokens, 0), greatest(usage_characters, 0))
+  returning id;
+$$;
+
+create or replace function public.add_usage_tokens(event_id uuid, usage_tokens int)
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  update public.usage_events
+  set tokens = tokens + greatest(usage_tokens, 0)
+  where id = event_id
+    and user_id = auth.uid();
+$$;
+
+-- Requests in the last minute (with when the oldest of them was made, so the
+-- caller can say when to retry) and totals for the current calendar month
+create or replace function public.get_usage_summary()
+returns table (
+  chat_requests_last_minute int,
+  chat_window_started_at timestamptz,
+  tts_requests_last_minute int,
+  tts_window_started_at timestamptz,
+  tokens_this_month bigint,
+  tts_characters_this_month bigint,
+  period_start timestamptz,
+  period_end timestamptz
+)
+language sql
+stable
+security invoker
+set search_path = public
+as $$
+  with period as (
+    select date_trunc('month', now()) as period_start,
+           date_trunc('month', now()) + interval '1 month' as period_end
+  ),
+  events as (
+    select e.*
+    from public.usage_events e, period
+    where e.user_id = auth.uid()
+      and e.created_at >= least(period.period_start, now() - interval '1 minute')
+  )
+  select
+    (count(*) filter (where kind = 'chat' and created_at > now() - interval '1 minute'))::int,
+    min(created_at) filter (where kind = 'chat' and created_at > now() - interval '1 minute'),
+    (count(*) filter (where kind = 'tts' and created_at > now() - interval '1 minute'))::int,
+    min(created_at) filter (where kind = 'tts' and created_at > now() - interval '1 minute'),
+    coalesce(sum(tokens) filter (where created_at >= (select period_start from period)), 0)::bigint,
+    coalesce(sum(characters) filter (where kind = 'tts' and created_at >= (select period_start from period)), 0)::bigint,
+    (select period_start from period),
+    (select period_end from period)
+  from events;
+$$;
+
+grant execute on function public.record_usage(text, int, int) to authenticated;
+grant execute on function public.add_usage_tokens(uuid, int) to authenticated;
+grant execute on function public.get_usage_summary() to authenticated;
@@ -0,0 +1,5 @@
+-- Rolling summaries for long conversations. The chat backend folds turns that
+-- no longer fit the model's token budget into conversations.summary; this
+-- records how many of the leading stored messages the summary already covers.
+alter table public.conversations
+  add column if not exists summarized_message_count integer not null default 0;
@@ -0,0 +1,5 @@
+-- Country used to pick crisis helplines (see backend/lib/helplines.js).
+-- ISO 3166-1 alpha-2; null falls back to the browser locale.
+alter table public.profiles
+  add column if not exists country_code text
+    check (country_code ~ '^[A-Z]{2}$');
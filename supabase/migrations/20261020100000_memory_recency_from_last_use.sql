@@ -0,0 +1,88 @@
+-- Recency in match_memories decays from when a memory was last injected into
+-- a prompt, not from when it was created, so memories that keep coming up
+-- stay fresh.
+--
+-- score = similarity
+--       + importance_weight * importance (high 1, medium 0.35, low 0)
+--       + recency_weight * 0.5 ^ (time since last use / half-life), where the
+--         half-life is 4x longer for high and 2x longer for medium importance
+--         memories, and a memory never used counts from its creation
+--       + frequency_weight * access frequency (log scale, capped at 20 uses)
+create or replace function public.match_memories(
+  query_embedding extensions.vector(1536),
+  match_count int default 5,
+  min_similarity float default 0.25
+)
+returns table (
+  id uuid,
+  content text,
+  context text,
+  importance text,
+  tags text[],
+  conversation_id uuid,
+  created_at timestamptz,
+  similarity float,
+  score float
+)
+language sql
+stable
+security invoker
+set search_path = public, extensions
+as $$
+  with settings as (
+    select
+      coalesce((p.memory_scoring->>'importance_weight')::float, 0.15) as importance_weight,
+      coalesce((p.memory_scoring->>'recency_weight')::float, 0.2) as recency_weight,
+      coalesce((p.memory_scoring->>'frequency_weight')::float, 0.05) as frequency_weight,
+      greatest(coalesce((p.memory_scoring->>'half_life_days')::float, 30), 1) as half_life_days
+    from (select 1) as defaults
+    left join public.profiles p on p.user_id = auth.uid()
+  ),
+  candidates as (
+    select
+      m.id,
+      m.content,
+      m.context,
+      m.importance,
+      m.tags,
+      m.conversation_id,
+      m.created_at,
+      m.access_count,
+      greatest(m.created_at, coalesce(m.last_accessed_at, m.created_at)) as last_used_at,
+      1 - (m.embedding <=> query_embedding) as similarity
+    from public.memories m
+    where m.user_id = auth.uid()
+      and m.status = 'active'
+      and m.embedding is not null
+      and 1 - (m.embedding <=> query_embedding) >= min_similarity
+  )
+  select
+    c.id,
+    c.content,
+    c.context,
+    c.importance,
+    c.tags,
+    c.conversation_id,
+    c.created_at,
+    c.similarity,
+    c.similarity
+      + s.importance_weight * case c.importance
+          when 'high' then 1
+          when 'medium' then 0.35
+          else 0
+        end
+      + s.recency_weight * power(
+          0.5,
+          (extract(epoch from now() - c.last_used_at) / 86400)
+            / (s.half_life_days * case c.importance
+                when 'high' then 4
+                when 'medium' then 2
+                else 1
+              end)
+        )
+      + s.frequency_weight * least(ln(1 + c.access_count) / ln(21), 1) as score
+  from candidates c
+  cross join settings s
+  order by score desc
+  limit match_count;
+$$;
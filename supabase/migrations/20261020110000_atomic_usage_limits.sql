@@ -0,0 +1,89 @@
+-- Checks a user's limits and records the request in one transaction. Requests
+-- of the same user queue on an advisory lock, so concurrent requests can't
+-- all pass on the same count. The limits are passed in by the backend, which
+-- reads them from its environment.
+--
+-- Returns allowed with the new usage row's id, or not allowed with which
+-- limit was hit ('rate', 'tokens' or 'characters') and the seconds until it
+-- frees up. characters_this_month includes this request when it is allowed.
+create or replace function public.consume_usage(
+  usage_kind text,
+  requests_per_minute int,
+  monthly_tokens bigint,
+  monthly_characters bigint,
+  usage_characters int default 0
+)
+returns table (
+  allowed boolean,
+  event_id uuid,
+  exceeded text,
+  retry_after int,
+  characters_this_month bigint
+)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  current_user_id uuid := auth.uid();
+  period_end timestamptz := date_trunc('month', now()) + interval '1 month';
+  requests_last_minute int;
+  window_started_at timestamptz;
+  tokens_used bigint;
+  characters_used bigint;
+  new_event_id uuid;
+begin
+  if current_user_id is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  perform pg_advisory_xact_lock(hashtext('usage:' || current_user_id::text));
+
+  -- clock_timestamp(), not now(): a request that waited on the lock must see
+  -- the time it actually runs at
+  select count(*), min(e.created_at)
+  into requests_last_minute, window_started_at
+  from public.usage_events e
+  where e.user_id = current_user_id
+    and e.kind = usage_kind
+    and e.created_at > clock_timestamp() - interval '1 minute';
+
+  select coalesce(sum(e.tokens), 0), coalesce(sum(e.characters) filter (where e.kind = 'tts'), 0)
+  into tokens_used, characters_used
+  from public.usage_events e
+  where e.user_id = current_user_id
+    and e.created_at >= date_trunc('month', now());
+
+  if requests_last_minute >= requests_per_minute then
+    return query select false, null::uuid, 'rate',
+      greatest(1, ceil(extract(epoch from window_started_at + interval '1 minute' - clock_timestamp())))::int,
+      characters_used;
+    return;
+  end if;
+
+  if usage_kind = 'chat' and tokens_used >= monthly_tokens then
+    return query select false, null::uuid, 'tokens',
+      greatest(1, ceil(extract(epoch from period_end - clock_timestamp())))::int,
+      characters_used;
+    return;
+  end if;
+
+  if usage_kind = 'tts' and characters_used + greatest(usage_characters, 0) > monthly_characters then
+    return query select false, null::uuid, 'characters',
+      greatest(1, ceil(extract(epoch from period_end - clock_timestamp())))::int,
+      characters_used;
+    return;
+  end if;
+
+  insert into public.usage_events (user_id, kind, characters, created_at)
+  values (current_user_id, usage_kind, greatest(usage_characters, 0), clock_timestamp())
+  returning id into new_event_id;
+
+  return query select true, new_event_id, null::text, null::int, characters_used + greatest(usage_characters, 0);
+end;
+$$;
+
+grant execute on function public.consume_usage(text, int, bigint, bigint, int) to authenticated;
+
+-- Superseded by consume_usage(), which only records after checking
+drop function if exists public.record_usage(text, int, int);
@@ -0,0 +1,17 @@
+-- The chat backend's rolling summary gets its own column. It used to be
+-- written into conversations.summary, which holds the thread's description
+-- for the conversation list, so folded threads showed the model's summary
+-- there and the app could overwrite it.
+alter table public.conversations
+  add column if not exists rolling_summary text;
+
+-- Threads folded so far: move their rolling summary over and put back the
+-- description the app writes when a thread starts
+update public.conversations
+set
+  rolling_summary = summary,
+  summary = 'Conversation about: '
+    || left(coalesce(compressed_data -> 'messages' -> 0 ->> 'content', title, ''), 200)
+    || '...'
+where summarized_message_count > 0
+  and rolling_summary is null;
@@ -0,0 +1,97 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { EMOTION_PROTOTYPES } from '../../backend/lib/emotions.js';
+import { mockEmbedding } from '../../backend/lib/mockLLM.js';
+import { authHeaders, createApp, listen, signIn, startFakes } from '../support/stack.js';
+
+// The embedding the classifier compares against for one emotion
+const prototypeOf = emotion => {
+  const vectors = EMOTION_PROTOTYPES[emotion].map(mockEmbedding);
+  return vectors[0].map((_, d) => vectors.reduce((sum, vector) => sum + vector[d], 0) / vectors.length);
+};
+
+describe.each(['express', 'vercel'])('%s /api/emotions', flavor => {
+  let fakes;
+  let api;
+  let session;
+
+  const analyze = (body, headers = authHeaders(session)) => fetch(`${api.url}/api/emotions`, {
+    method: 'POST',
+    headers,
+    body: JSON.stringify(body)
+  });
+
+  // Prototypes are embedded once per process; warming up first leaves the
+  // next embeddings request to the analysed text alone
+  const warmUp = async () => {
+    await analyze({ text: 'Just checking in.' });
+    fakes.reset();
+  };
+
+  beforeAll(async () => {
+    fakes = await startFakes();
+    api = await listen(await createApp(flavor));
+  });
+
+  afterAll(async () => {
+    await api.close();
+    await fakes.close();
+  });
+
+  beforeEach(() => {
+    fakes.reset();
+    vi.unstubAllEnvs();
+    session = signIn(fakes.supabase, 'emotions@example.com');
+  });
+
+  it('rejects requests without a Supabase session', async () => {
+    const response = await analyze({ text: 'Hello' }, { 'Content-Type': 'application/json' });
+
+    expect(response.status).toBe(401);
+  });
+
+  it('requires text', async () => {
+    const response = await analyze({});
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({ error: 'Invalid request format' });
+  });
+
+  it('reads keywords without model calls when EMOTION_ANALYZER=lexicon', async () => {
+    vi.stubEnv('EMOTION_ANALYZER', 'lexicon');
+
+    const body = await (await analyze({ text: "I'm not happy, I'm stressed and worried about the move" })).json();
+
+    expect(body).toMatchObject({ primary: 'anxious', valence: -0.6, arousal: 0.8, source: 'lexicon' });
+    expect(body.confidence).toBeGreaterThan(0.5);
+    expect(body.scores.happy).toBe(0);
+    expect(fakes.openai.requests).toHaveLength(0);
+  });
+
+  it('uses the classifier when the message is close to one emotion', async () => {
+    await warmUp();
+    fakes.openai.enqueue('embeddings', { embedding: prototypeOf('calm') });
+
+    const body = await (await analyze({ text: 'Sitting by the lake this evening.' })).json();
+
+    expect(body).toMatchObject({ primary: 'calm', source: 'classifier', valence: 0.4, arousal: 0.1 });
+    expect(body.confidence).toBeGreaterThan(0.9);
+    expect(fakes.openai.requestsTo('embeddings')).toHaveLength(1);
+    expect(fakes.openai.requestsTo('embeddings')[0].body.input).toBe('Sitting by the lake this evening.');
+  });
+
+  it('falls back to the lexicon when the classifier is unsure', async () => {
+    const body = await (await analyze({ text: 'So frustrated, my landlord is being unfair again' })).json();
+
+    expect(body).toMatchObject({ primary: 'angry', source: 'lexicon' });
+  });
+
+  it('falls back to the lexicon when the embedding call fails', async () => {
+    await warmUp();
+    fakes.openai.enqueue('embeddings', { status: 500, message: 'Embeddings unavailable' });
+
+    const response = await analyze({ text: 'I feel so lonely since she left' });
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({ primary: 'sad', source: 'lexicon' });
+  });
+});
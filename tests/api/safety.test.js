@@ -0,0 +1,55 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { authHeaders, createApp, listen, signIn, startFakes } from '../support/stack.js';
+
+describe.each(['express', 'vercel'])('%s /api/safety/helplines', flavor => {
+  let fakes;
+  let api;
+  let session;
+
+  const getHelplines = (query = '', headers = authHeaders(session)) =>
+    fetch(`${api.url}/api/safety/helplines${query}`, { headers });
+
+  beforeAll(async () => {
+    fakes = await startFakes();
+    api = await listen(await createApp(flavor));
+  });
+
+  afterAll(async () => {
+    await api.close();
+    await fakes.close();
+  });
+
+  beforeEach(() => {
+    fakes.reset();
+    session = signIn(fakes.supabase, 'safety@example.com');
+  });
+
+  it('rejects requests without a Supabase session', async () => {
+    const response = await getHelplines('', {});
+
+    expect(response.status).toBe(401);
+  });
+
+  it("uses the profile's country before the browser locale", async () => {
+    fakes.supabase.table('profiles').push({ id: 'profile-1', user_id: session.user.id, country_code: 'NZ' });
+
+    const body = await (await getHelplines('?locale=en-US')).json();
+
+    expect(body).toMatchObject({ country: 'NZ', countryName: 'New Zealand', emergencyNumber: '111' });
+    expect(body.countries).toEqual(expect.arrayContaining([{ code: 'IN', name: 'India' }, { code: 'NZ', name: 'New Zealand' }]));
+  });
+
+  it('returns the requested country', async () => {
+    const body = await (await getHelplines('?country=au')).json();
+
+    expect(body).toMatchObject({ country: 'AU', emergencyNumber: '000' });
+    expect(body.helplines[0]).toMatchObject({ name: 'Lifeline', phone: '13 11 14' });
+  });
+
+  it('falls back to the international directory for unlisted countries', async () => {
+    const body = await (await getHelplines('?locale=pt-BR')).json();
+
+    expect(body).toMatchObject({ country: null, countryName: 'International', emergencyNumber: null });
+    expect(body.helplines).toEqual([expect.objectContaining({ url: 'https://findahelpline.com' })]);
+  });
+});
@@ -0,0 +1,165 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { MOCK_AUDIO } from '../mocks/openaiServer.js';
+import { authHeaders, createApp, listen, signIn, startFakes } from '../support/stack.js';
+
+describe.each(['express', 'vercel'])('%s /api/tts', flavor => {
+  let fakes;
+  let api;
+  let session;
+
+  const speak = (body, headers = authHeaders(session)) => fetch(`${api.url}/api/tts`, {
+    method: 'POST',
+    headers,
+    body: JSON.stringify(body)
+  });
+
+  beforeAll(async () => {
+    fakes = await startFakes();
+    api = await listen(await createApp(flavor));
+  });
+
+  afterAll(async () => {
+    await api.close();
+    await fakes.close();
+  });
+
+  beforeEach(() => {
+    fakes.reset();
+    vi.unstubAllEnvs();
+    session = signIn(fakes.supabase, 'tts@example.com');
+  });
+
+  it('rejects requests without a Supabase session', async () => {
+    const response = await speak({ text: 'Hello' }, { 'Content-Type': 'application/json' });
+
+    expect(response.status).toBe(401);
+    expect(fakes.openai.requests).toHaveLength(0);
+  });
+
+  it('requires text', async () => {
+    const response = await speak({ voice: 'alloy' });
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({ error: 'Invalid request format' });
+  });
+
+  it('rejects text over 4000 characters', async () => {
+    const response = await speak({ text: 'a'.repeat(4001) });
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({ error: 'Text too long' });
+    expect(fakes.openai.requests).toHaveLength(0);
+  });
+
+  it('returns the synthesised audio as base64 and counts the characters', async () => {
+    const response = await speak({ text: 'Good morning!', voice: 'nova', speed: 1.25 });
+
+    expect(response.status).toBe(200);
+    const body = await response.json();
+    expect(Buffer.from(body.audio, 'base64')).toEqual(MOCK_AUDIO);
+    expect(body).toMatchObject({ format: 'mp3', size: MOCK_AUDIO.length, voice: 'nova', speed: 1.25 });
+
+    expect(fakes.openai.requestsTo('speech')[0].body).toMatchObject({
+      model: 'tts-1',
+      voice: 'nova',
+      input: 'Good morning!',
+      speed: 1.25
+    });
+    expect(fakes.supabase.table('usage_events')).toEqual([
+      expect.objectContaining({ user_id: session.user.id, kind: 'tts', characters: 'Good morning!'.length })
+    ]);
+  });
+
+  it('answers an anxious user in a calm voice', async () => {
+    const body = await (await speak({ text: 'Take a slow breath with me.', emotion: 'anxious' })).json();
+
+    expect(body).toMatchObject({ style: 'calm', voice: 'shimmer', speed: 0.9, pitch: [0.98, 0.96, 0.94] });
+    // Synthesised slower so playback at the lowered pitch still sounds like 0.9x
+    const [request] = fakes.openai.requestsTo('speech');
+    expect(request.body).toMatchObject({ voice: 'shimmer', speed: 0.938 });
+    expect(request.body.instructions).toBeUndefined();
+  });
+
+  it('scales the style by intensity and keeps a voice the user picked', async () => {
+    const body = await (await speak({ text: 'That is wonderful news!', emotion: 'excited', intensity: 0.5, voice: 'onyx' })).json();
+
+    expect(body).toMatchObject({ style: 'excited', voice: 'onyx', speed: 1.06, pitch: [1.025, 1.045, 1.03] });
+    expect(fakes.openai.requestsTo('speech')[0].body.voice).toBe('onyx');
+  });
+
+  it('steers speech models that accept instructions', async () => {
+    vi.stubEnv('TTS_MODEL', 'gpt-4o-mini-tts');
+
+    await speak({ text: "I'm here for you.", emotion: 'sad' });
+    await speak({ text: "I'm here for you.", emotion: 'sad', instructions: 'Speak like a late-night radio host.' });
+
+    const [styled, custom] = fakes.openai.requestsTo('speech');
+    expect(styled.body).toMatchObject({ model: 'gpt-4o-mini-tts', voice: 'shimmer', instructions: expect.stringContaining('empathy') });
+    expect(custom.body.instructions).toBe('Speak like a late-night radio host.');
+  });
+
+  it('rejects instructions over 1000 characters', async () => {
+    const response = await speak({ text: 'Hello', instructions: 'a'.repeat(1001) });
+
+    expect(response.status).toBe(400);
+    expect(fakes.openai.requests).toHaveLength(0);
+  });
+
+  it.each([
+    ['speed', 'fast'],
+    ['speed', null],
+    ['speed', 5],
+    ['pitch', '1.2'],
+    ['pitch', null],
+    ['pitch', 0],
+    ['intensity', '0.8'],
+    ['intensity', 1.5]
+  ])('rejects %s %j', async (name, value) => {
+    const response = await speak({ text: 'Hello', [name]: value });
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({
+      error: 'Invalid request format',
+      details: expect.stringMatching(new RegExp(`^${name} must be a number from`))
+    });
+    expect(fakes.openai.requests).toHaveLength(0);
+    expect(fakes.supabase.table('usage_events')).toEqual([]);
+  });
+
+  it.each([
+    ['emotion', { primary: 'anxious' }],
+    ['emotion', null],
+    ['voice', 42]
+  ])('rejects %s %j before counting usage', async (name, value) => {
+    const response = await speak({ text: 'Hello', [name]: value });
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({ error: 'Invalid request format', details: `${name} must be a string` });
+    expect(fakes.openai.requests).toHaveLength(0);
+    expect(fakes.supabase.table('usage_events')).toEqual([]);
+  });
+
+  it('answers 429 with Retry-After when the monthly character quota would be exceeded', async () => {
+    vi.stubEnv('MONTHLY_TTS_CHARACTER_QUOTA', '20');
+    await speak({ text: 'Fifteen chars!!' });
+
+    const response = await speak({ text: 'Ten chars!' });
+
+    expect(response.status).toBe(429);
+    expect(Number(response.headers.get('retry-after'))).toBeGreaterThan(0);
+    expect(await response.json()).toMatchObject({
+      error: 'Monthly quota exceeded',
+      details: expect.stringContaining('5 of 20')
+    });
+    expect(fakes.openai.requestsTo('speech')).toHaveLength(1);
+  });
+
+  it('reports upstream failures as a 500', async () => {
+    fakes.openai.enqueue('speech', { status: 500, message: 'Speech service unavailable' });
+
+    const response = await speak({ text: 'Hello' });
+
+    expect(response.status).toBe(500);
+    expect(await response.json()).toMatchObject({ error: 'Failed to generate speech' });
+  });
+});
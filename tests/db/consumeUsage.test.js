@@ -0,0 +1,76 @@
+import { randomUUID } from 'node:crypto';
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { startDatabase } from '../support/database.js';
+
+const SCHEMA = `
+  create table auth.users (id uuid primary key);
+`;
+
+describe('consume_usage', () => {
+  let database;
+  const userId = randomUUID();
+
+  beforeAll(async () => {
+    database = await startDatabase({
+      schema: SCHEMA,
+      migrations: ['20261019170000_usage_limits.sql', '20261020110000_atomic_usage_limits.sql']
+    });
+    await database.db.query('insert into auth.users (id) values ($1)', [userId]);
+    await database.signInAs(userId);
+  });
+
+  afterAll(async () => {
+    await database.close();
+  });
+
+  beforeEach(async () => {
+    await database.db.exec('delete from public.usage_events');
+  });
+
+  const consume = async (kind, { requestsPerMinute = 3, monthlyTokens = 1000, monthlyCharacters = 100, characters = 0 } = {}) => {
+    const { rows } = await database.db.query(
+      'select * from public.consume_usage($1, $2, $3, $4, $5)',
+      [kind, requestsPerMinute, monthlyTokens, monthlyCharacters, characters]
+    );
+    return rows[0];
+  };
+
+  const events = async () => (await database.db.query('select kind, tokens, characters from public.usage_events order by created_at')).rows;
+
+  it('records each allowed request and refuses the one over the per-minute limit', async () => {
+    for (let i = 0; i < 3; i++) {
+      expect(await consume('chat')).toMatchObject({ allowed: true, event_id: expect.any(String), exceeded: null });
+    }
+
+    const refused = await consume('chat');
+    expect(refused).toMatchObject({ allowed: false, event_id: null, exceeded: 'rate' });
+    expect(refused.retry_after).toBeGreaterThan(0);
+    expect(refused.retry_after).toBeLessThanOrEqual(60);
+
+    // The limit is per kind
+    expect(await consume('tts', { characters: 5 })).toMatchObject({ allowed: true });
+    expect(await events()).toHaveLength(4);
+  });
+
+  it('refuses chat once the monthly tokens are used up', async () => {
+    const { event_id: eventId } = await consume('chat');
+    await database.db.query('select public.add_usage_tokens($1, 1000)', [eventId]);
+
+    expect(await consume('chat')).toMatchObject({ allowed: false, exceeded: 'tokens' });
+    expect(await events()).toEqual([{ kind: 'chat', tokens: 1000, characters: 0 }]);
+  });
+
+  it('refuses speech that would go over the monthly characters', async () => {
+    expect(await consume('tts', { characters: 60 })).toMatchObject({ allowed: true, characters_this_month: 60 });
+
+    const refused = await consume('tts', { characters: 50 });
+    expect(refused).toMatchObject({ allowed: false, exceeded: 'characters', characters_this_month: 60 });
+    expect(refused.retry_after).toBeGreaterThan(0);
+
+    expect(await consume('tts', { characters: 40 })).toMatchObject({ allowed: true, characters_this_month: 100 });
+  });
+
+  it('replaces record_usage, which recorded without checking', async () => {
+    await expect(database.db.query("select public.record_usage('chat')")).rejects.toThrow(/does not exist/);
+  });
+});
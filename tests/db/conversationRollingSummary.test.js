@@ -0,0 +1,43 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { startDatabase } from '../support/database.js';
+
+// Two threads stored before the migration: one the backend already folded,
+// which had its description replaced by the rolling summary, and one it did not
+const SCHEMA = `
+  create table public.conversations (
+    id text primary key,
+    title text,
+    summary text,
+    compressed_data jsonb not null,
+    summarized_message_count integer not null default 0
+  );
+  insert into public.conversations (id, title, summary, compressed_data, summarized_message_count) values
+    ('folded', 'Training for my first marathon', 'The user is training for a marathon.',
+      '{"messages": [{"role": "user", "content": "Training for my first marathon"}]}', 11),
+    ('short', 'Hello', 'Conversation about: Hello...',
+      '{"messages": [{"role": "user", "content": "Hello"}]}', 0);
+`;
+
+describe('conversations.rolling_summary', () => {
+  let database;
+
+  beforeAll(async () => {
+    database = await startDatabase({
+      schema: SCHEMA,
+      migrations: ['20261019180000_conversation_summaries.sql', '20261020120000_conversation_rolling_summary.sql']
+    });
+  });
+
+  afterAll(async () => {
+    await database.close();
+  });
+
+  it('moves rolling summaries out of the description and restores it', async () => {
+    const { rows } = await database.db.query('select id, summary, rolling_summary from public.conversations order by id');
+
+    expect(rows).toEqual([
+      { id: 'folded', summary: 'Conversation about: Training for my first marathon...', rolling_summary: 'The user is training for a marathon.' },
+      { id: 'short', summary: 'Conversation about: Hello...', rolling_summary: null }
+    ]);
+  });
+});
@@ -0,0 +1,88 @@
+import { randomUUID } from 'node:crypto';
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { startDatabase } from '../support/database.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const SCHEMA = `
+  create table public.profiles (
+    user_id uuid primary key,
+    memory_scoring jsonb
+  );
+  create table public.memories (
+    id uuid primary key,
+    user_id uuid not null,
+    content text not null,
+    context text,
+    importance text not null default 'low',
+    tags text[] not null default '{}',
+    conversation_id uuid,
+    status text not null default 'active',
+    embedding extensions.vector(1536),
+    created_at timestamptz not null default now()
+  );
+`;
+
+// Every memory gets the same embedding, so only the score's other parts differ
+const EMBEDDING = `[${Array.from({ length: 1536 }, (_, i) => (i === 0 ? 1 : 0)).join(',')}]`;
+
+const daysAgo = days => new Date(Date.now() - days * DAY_MS).toISOString();
+
+describe('match_memories', () => {
+  let database;
+  const userId = randomUUID();
+
+  beforeAll(async () => {
+    database = await startDatabase({
+      schema: SCHEMA,
+      migrations: ['20261019160000_memory_recency_scoring.sql', '20261020100000_memory_recency_from_last_use.sql']
+    });
+    await database.signInAs(userId);
+  });
+
+  afterAll(async () => {
+    await database.close();
+  });
+
+  beforeEach(async () => {
+    await database.db.exec('delete from public.memories');
+  });
+
+  const addMemory = async (content, { createdAt, lastAccessedAt = null, accessCount = 0 }) => {
+    const id = randomUUID();
+    await database.db.query(
+      `insert into public.memories (id, user_id, content, embedding, created_at, last_accessed_at, access_count)
+       values ($1, $2, $3, $4, $5, $6, $7)`,
+      [id, userId, content, EMBEDDING, createdAt, lastAccessedAt, accessCount]
+    );
+    return id;
+  };
+
+  const match = async () => {
+    const { rows } = await database.db.query('select content, score from public.match_memories($1, 10, 0)', [EMBEDDING]);
+    return Object.fromEntries(rows.map(row => [row.content, row.score]));
+  };
+
+  it('decays recency from the last time a memory was used', async () => {
+    await addMemory('Used yesterday', { createdAt: daysAgo(120), lastAccessedAt: daysAgo(1), accessCount: 3 });
+    await addMemory('Used months ago', { createdAt: daysAgo(120), lastAccessedAt: daysAgo(100), accessCount: 3 });
+    await addMemory('Never used', { createdAt: daysAgo(10) });
+
+    const scores = await match();
+
+    // similarity 1 + recency 0.2 * 0.5 ^ (days / 30), plus the same frequency term for both used memories
+    expect(scores['Used yesterday'] - scores['Used months ago']).toBeCloseTo(0.2 * (0.5 ** (1 / 30) - 0.5 ** (100 / 30)), 3);
+    expect(scores['Never used']).toBeCloseTo(1 + 0.2 * 0.5 ** (10 / 30), 3);
+  });
+
+  it('freshens a memory when it is injected into a prompt', async () => {
+    const id = await addMemory('Old but relevant', { createdAt: daysAgo(90) });
+    const before = (await match())['Old but relevant'];
+
+    await database.db.query('select public.mark_memories_accessed($1)', [[id]]);
+    const after = (await match())['Old but relevant'];
+
+    const frequency = 0.05 * Math.log(2) / Math.log(21);
+    expect(after - before).toBeCloseTo(0.2 * (1 - 0.5 ** 3) + frequency, 3);
+  });
+});
@@ -0,0 +1,349 @@
+// @vitest-environment jsdom
+import { act, renderHook, waitFor } from '@testing-library/react';
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { startBrowserStack } from '../support/browser';
+
+describe('useZoxaaChat', () => {
+  let stack: Awaited<ReturnType<typeof startBrowserStack>>;
+  let useZoxaaChat: typeof import('@/hooks/useZoxaaChat').default;
+  let userId: string;
+
+  beforeAll(async () => {
+    stack = await startBrowserStack();
+    ({ default: useZoxaaChat } = await import('@/hooks/useZoxaaChat'));
+  });
+
+  afterAll(async () => {
+    await stack.close();
+  });
+
+  afterEach(async () => {
+    await stack.settle();
+  });
+
+  beforeEach(async () => {
+    stack.fakes.reset();
+    ({ user: { id: userId } } = await stack.signInAs('hooks@example.com'));
+  });
+
+  const renderChat = async () => {
+    const hook = renderHook(() => useZoxaaChat());
+    // Let the hook pick up the signed-in session
+    await act(async () => {
+      await stack.supabase.auth.getSession();
+    });
+    return hook;
+  };
+
+  it('streams the reply, saves the turn and extracts memories from it', async () => {
+    stack.fakes.openai.enqueue(
+      'chat',
+      { content: 'Congratulations on the new job!' },
+      {
+        json: {
+          memories: [{
+            content: 'Started a new job as a product manager',
+            importance: 'high',
+            tags: ['career'],
+            category: 'career',
+            entities: []
+          }]
+        }
+      }
+    );
+    const { result } = await renderChat();
+
+    let reply = '';
+    await act(async () => {
+      reply = await result.current.sendMessage('I just started my new job as a PM!');
+    });
+
+    expect(reply).toBe('Congratulations on the new job!');
+    expect(result.current.messages.at(-1)).toMatchObject({
+      role: 'assistant',
+      content: 'Congratulations on the new job!',
+      isStreaming: false
+    });
+
+    const [chatRequest] = stack.fakes.openai.requestsTo('chat');
+    expect(chatRequest.body.stream).toBe(true);
+    expect(chatRequest.body.messages.at(-1)).toEqual({ role: 'user', content: 'I just started my new job as a PM!' });
+
+    const [conversation] = stack.fakes.supabase.table('conversations');
+    expect(conversation).toMatchObject({ user_id: userId, title: 'I just started my new job as a PM!' });
+    expect(conversation.compressed_data.messages).toEqual([
+      expect.not.objectContaining({ prompt_version: expect.anything() }),
+      expect.objectContaining({ role: 'assistant', prompt_version: 'prism-v5' })
+    ]);
+    expect(result.current.currentConversationId).toBe(conversation.id);
+
+    // Extraction runs in the background after the turn is saved
+    await waitFor(() => {
+      expect(stack.fakes.supabase.table('memories')).toEqual([
+        expect.objectContaining({
+          user_id: userId,
+          conversation_id: conversation.id,
+          content: 'Started a new job as a product manager',
+          status: 'active'
+        })
+      ]);
+    });
+  });
+
+  it('hands each streamed piece of the reply to onDelta as it arrives', async () => {
+    stack.fakes.openai.enqueue('chat', { content: 'Good morning! How did you sleep? Anything on your mind today?' });
+    const { result } = await renderChat();
+
+    const deltas: string[] = [];
+    let reply = '';
+    await act(async () => {
+      reply = await result.current.sendMessage('Morning!', { onDelta: content => deltas.push(content) });
+    });
+
+    expect(deltas.length).toBeGreaterThan(0);
+    expect(deltas.join('')).toBe(reply);
+    expect(reply).toBe('Good morning! How did you sleep? Anything on your mind today?');
+  });
+
+  it("stores the user's emotion on the conversation, the turn and its memories", async () => {
+    stack.fakes.openai.enqueue(
+      'chat',
+      { content: 'That sounds like a lot. What part worries you most?' },
+      {
+        json: {
+          memories: [{
+            content: 'Has a statistics exam on Friday',
+            importance: 'medium',
+            tags: ['school'],
+            category: 'challenge',
+            entities: []
+          }]
+        }
+      }
+    );
+    const { result } = await renderChat();
+
+    await act(async () => {
+      await result.current.sendMessage("I'm so worried and stressed about my exam on Friday");
+    });
+
+    const anxious = expect.objectContaining({ primary: 'anxious', valence: -0.6, confidence: expect.any(Number) });
+    const [conversation] = stack.fakes.supabase.table('conversations');
+    expect(conversation.emotion_data).toEqual(anxious);
+    expect(conversation.compressed_data.messages[0]).toMatchObject({ role: 'user', emotion: anxious });
+    expect(conversation.compressed_data.messages[1].emotion).toBeUndefined();
+
+    await waitFor(() => {
+      expect(stack.fakes.supabase.table('memories')).toEqual([
+        expect.objectContaining({ content: 'Has a statistics exam on Friday', emotion_context: anxious })
+      ]);
+    });
+  });
+
+  it('saves an emotion reading the caller already has instead of analysing the message again', async () => {
+    stack.fakes.openai.enqueue('chat', { content: 'I can hear that.' }, { json: { memories: [] } });
+    const reading = {
+      primary: 'hopeful' as const,
+      valence: 0.6,
+      arousal: 0.5,
+      confidence: 0.9,
+      scores: { neutral: 0, happy: 0, excited: 0, hopeful: 1, calm: 0, sad: 0, anxious: 0, angry: 0 },
+      source: 'classifier' as const,
+      analyzed_at: '2026-10-19T08:00:00.000Z'
+    };
+    const { result } = await renderChat();
+
+    await act(async () => {
+      // Worded to read as anxious, so a second analysis would not match
+      await result.current.sendMessage("I'm so worried and stressed about my exam", { emotion: Promise.resolve(reading) });
+    });
+
+    const [conversation] = stack.fakes.supabase.table('conversations');
+    expect(conversation.emotion_data).toEqual(reading);
+    expect(conversation.compressed_data.messages[0].emotion).toEqual(reading);
+  });
+
+  it('appends later turns to the same conversation, which the backend replays as history', async () => {
+    const { result } = await renderChat();
+
+    await act(async () => {
+      await result.current.sendMessage('First message');
+    });
+    await act(async () => {
+      await result.current.sendMessage('Second message');
+    });
+
+    const secondRequest = stack.fakes.openai.requestsTo('chat').at(-1);
+    expect(secondRequest.body.messages.slice(1)).toEqual([
+      { role: 'user', content: 'First message' },
+      { role: 'assistant', content: 'This is a mock reply to: "First message"' },
+      { role: 'user', content: 'Second message' }
+    ]);
+
+    const conversations = stack.fakes.supabase.table('conversations');
+    expect(conversations).toHaveLength(1);
+    expect(conversations[0].compressed_data.messages.map(m => m.content)).toEqual([
+      'First message',
+      'This is a mock reply to: "First message"',
+      'Second message',
+      'This is a mock reply to: "Second message"'
+    ]);
+  });
+
+  it('drops a reply stopped by starting a new conversation instead of saving it', async () => {
+    stack.fakes.openai.enqueue('chat', {
+      content: 'Once upon a time there was a very long story that took a great many words to tell, and it went on and on.',
+      delay: 50
+    });
+    const { result } = await renderChat();
+
+    let pending!: Promise<string>;
+    act(() => {
+      pending = result.current.sendMessage('Tell me a long story');
+    });
+    await waitFor(() => expect(result.current.isStreaming).toBe(true));
+
+    await act(async () => {
+      result.current.stopGenerating();
+      result.current.clearConversation();
+      await pending;
+    });
+
+    expect(result.current.messages).toEqual([expect.objectContaining({ id: 'welcome' })]);
+    expect(result.current.currentConversationId).toBeNull();
+    expect(stack.fakes.supabase.table('conversations')).toEqual([]);
+
+    await act(async () => {
+      await result.current.sendMessage('Hello again');
+    });
+
+    const conversations = stack.fakes.supabase.table('conversations');
+    expect(conversations).toHaveLength(1);
+    expect(conversations[0].compressed_data.messages.map(m => m.content)).toEqual([
+      'Hello again',
+      'This is a mock reply to: "Hello again"'
+    ]);
+  });
+
+  it('keeps a reply still streaming out of a thread opened meanwhile', async () => {
+    const storedMessages = [
+      { role: 'user', content: 'How do I start running?', timestamp: '2026-10-18T09:00:00.000Z' },
+      { role: 'assistant', content: 'Start with short, easy runs.', timestamp: '2026-10-18T09:00:01.000Z' }
+    ];
+    stack.fakes.supabase.table('conversations').push({
+      id: 'conversation-running',
+      user_id: userId,
+      title: 'How do I start running?',
+      created_at: '2026-10-18T09:00:00.000Z',
+      updated_at: '2026-10-18T09:00:01.000Z',
+      compressed_data: { messages: storedMessages }
+    });
+    stack.fakes.openai.enqueue('chat', {
+      content: 'Once upon a time there was a very long story that took a great many words to tell.',
+      delay: 30
+    });
+    const { result } = await renderChat();
+
+    let pending!: Promise<string>;
+    act(() => {
+      pending = result.current.sendMessage('Tell me a long story');
+    });
+    await waitFor(() => expect(result.current.isStreaming).toBe(true));
+
+    // The stream is left running, as a caller that forgets to stop it would
+    await act(async () => {
+      await result.current.loadConversation('conversation-running');
+      await pending;
+    });
+
+    expect(result.current.currentConversationId).toBe('conversation-running');
+    expect(result.current.messages.map(m => m.content)).toEqual(storedMessages.map(m => m.content));
+    const conversations = stack.fakes.supabase.table('conversations');
+    expect(conversations).toHaveLength(1);
+    expect(conversations[0].compressed_data.messages).toEqual(storedMessages);
+  });
+
+  it('attaches tool results to the reply and keeps them in the stored turn', async () => {
+    stack.fakes.openai.enqueue(
+      'chat',
+      { toolCalls: [{ name: 'remember_fact', arguments: { content: 'Is allergic to peanuts', importance: 'high' } }] },
+      { content: "Got it, I'll remember that." },
+      { json: { memories: [] } }
+    );
+    const { result } = await renderChat();
+
+    await act(async () => {
+      await result.current.sendMessage('Please remember that I am allergic to peanuts');
+    });
+
+    const toolResult = {
+      id: 'call_mock_1',
+      name: 'remember_fact',
+      ok: true,
+      card: { type: 'memory', memory: expect.objectContaining({ content: 'Is allergic to peanuts' }) }
+    };
+    expect(result.current.messages.at(-1)).toMatchObject({
+      content: "Got it, I'll remember that.",
+      toolResults: [toolResult]
+    });
+
+    const [conversation] = stack.fakes.supabase.table('conversations');
+    expect(conversation.compressed_data.messages.at(-1)).toMatchObject({ tool_results: [toolResult] });
+
+    await act(async () => {
+      await result.current.loadConversation(conversation.id);
+    });
+    expect(result.current.messages.at(-1)).toMatchObject({ toolResults: [toolResult] });
+  });
+
+  it('shows crisis support from the fixed crisis reply until it is dismissed', async () => {
+    const { result } = await renderChat();
+
+    let reply = '';
+    await act(async () => {
+      reply = await result.current.sendMessage("I don't want to live anymore");
+    });
+
+    // jsdom reports en-US, and the profile has no country yet
+    expect(reply).toContain('988 Suicide & Crisis Lifeline: call 988');
+    expect(result.current.crisisSupport).toMatchObject({ country: 'US', emergencyNumber: '911' });
+    expect(stack.fakes.openai.requestsTo('chat')).toHaveLength(0);
+    await waitFor(() => {
+      expect(result.current.helplineCountries).toEqual(expect.arrayContaining([{ code: 'IN', name: 'India' }]));
+    });
+
+    // The turn is saved, but the disclosure is not mined for memories
+    await stack.settle();
+    expect(stack.fakes.supabase.table('conversations')).toHaveLength(1);
+    expect(stack.fakes.openai.requestsTo('chat')).toHaveLength(0);
+    expect(stack.fakes.supabase.table('memories')).toEqual([]);
+
+    act(() => {
+      result.current.dismissCrisisSupport();
+    });
+    expect(result.current.crisisSupport).toBeNull();
+    expect(sessionStorage.getItem('zoxaa_crisis_support')).toBeNull();
+  });
+
+  it('surfaces usage limits from the backend', async () => {
+    stack.fakes.supabase.table('usage_events').push({
+      id: 'usage-1',
+      user_id: userId,
+      kind: 'chat',
+      tokens: 10_000_000,
+      characters: 0,
+      created_at: new Date().toISOString()
+    });
+    const { result } = await renderChat();
+
+    let failure: unknown;
+    await act(async () => {
+      failure = await result.current.sendMessage('Hello?').catch(error => error);
+    });
+
+    expect(failure).toMatchObject({ status: 429, message: expect.stringContaining('tokens for this month') });
+    expect(result.current.messages.at(-1)?.content).toContain("I'm having trouble connecting");
+    // Only the crisis check, which runs before limits, reached the provider
+    expect(stack.fakes.openai.requestsTo('chat')).toHaveLength(0);
+  });
+});
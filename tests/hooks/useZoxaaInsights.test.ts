@@ -0,0 +1,154 @@
+// @vitest-environment jsdom
+import { renderHook, waitFor } from '@testing-library/react';
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { startBrowserStack } from '../support/browser';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const emotion = (primary: string, valence: number, arousal: number) => ({
+  primary,
+  valence,
+  arousal,
+  confidence: 0.8,
+  source: 'classifier',
+  analyzed_at: new Date().toISOString()
+});
+
+// Local time, so weekday and part-of-day patterns hold in any timezone
+const at = (base: Date, dayOffset: number, hour: number) => {
+  const date = new Date(base);
+  date.setDate(date.getDate() + dayOffset);
+  date.setHours(hour, 0, 0, 0);
+  return date;
+};
+
+describe('useZoxaaInsights', () => {
+  let stack: Awaited<ReturnType<typeof startBrowserStack>>;
+  let useZoxaaInsights: typeof import('@/hooks/useZoxaaInsights').default;
+  let userId: string;
+
+  beforeAll(async () => {
+    stack = await startBrowserStack();
+    ({ default: useZoxaaInsights } = await import('@/hooks/useZoxaaInsights'));
+  });
+
+  afterAll(async () => {
+    await stack.close();
+  });
+
+  afterEach(async () => {
+    await stack.settle();
+  });
+
+  beforeEach(async () => {
+    stack.fakes.reset();
+    ({ user: { id: userId } } = await stack.signInAs('insights@example.com'));
+  });
+
+  const addConversation = (id: string, messages: { content: string; at: Date; emotion?: object }[], extra = {}) => {
+    const updatedAt = messages.at(-1)!.at.toISOString();
+    stack.fakes.supabase.table('conversations').push({
+      id,
+      user_id: userId,
+      title: `Conversation ${id}`,
+      created_at: messages[0].at.toISOString(),
+      updated_at: updatedAt,
+      emotion_data: messages.at(-1)!.emotion ?? null,
+      compressed_data: {
+        messages: messages.flatMap(({ content, at: sentAt, emotion: reading }) => [
+          { role: 'user', content, timestamp: sentAt.toISOString(), ...(reading && { emotion: reading }) },
+          { role: 'assistant', content: 'I hear you.', timestamp: sentAt.toISOString() }
+        ])
+      },
+      ...extra
+    });
+  };
+
+  const addMemory = (conversationId: string, tags: string[], category = 'other') => {
+    stack.fakes.supabase.table('memories').push({
+      id: `memory-${conversationId}-${tags.join('-')}`,
+      user_id: userId,
+      conversation_id: conversationId,
+      content: 'Something worth remembering',
+      tags,
+      category,
+      status: 'active'
+    });
+  };
+
+  // The Sunday at least a week back, so the whole history is in the past
+  const lastSunday = () => {
+    const today = new Date();
+    return at(today, -today.getDay() - 7, 0);
+  };
+
+  it('charts mood per day and week, and links each point to its conversations', async () => {
+    const sunday = lastSunday();
+    addConversation('work-1', [{ content: 'Dreading Monday at work', at: at(sunday, -7, 19), emotion: emotion('anxious', -0.6, 0.8) }]);
+    addConversation('mixed', [
+      { content: 'Got a lovely message from my sister', at: at(sunday, 3, 9), emotion: emotion('happy', 0.8, 0.6) },
+      { content: 'Then my boss called', at: at(sunday, 3, 10), emotion: emotion('angry', -0.7, 0.9) }
+    ]);
+    // Saved before emotions were stored per message
+    addConversation('legacy', [{ content: 'Feeling optimistic about the move', at: at(sunday, 4, 12) }], {
+      emotion_data: { detected_emotions: ['hopeful'], timestamp: at(sunday, 4, 12).toISOString(), intensity: 'medium' }
+    });
+    // Outside the range
+    addConversation('old', [{ content: 'Ancient history', at: new Date(Date.now() - 60 * DAY_MS), emotion: emotion('sad', -0.7, 0.25) }]);
+
+    const { result, rerender } = renderHook(
+      ({ granularity }) => useZoxaaInsights(30, granularity),
+      { initialProps: { granularity: 'day' as 'day' | 'week' } }
+    );
+
+    await waitFor(() => expect(result.current.isLoading).toBe(false));
+
+    expect(result.current.readings.map(reading => reading.emotion.primary)).toEqual(['anxious', 'happy', 'angry', 'hopeful']);
+    expect(result.current.readings[3].emotion).toMatchObject({ source: 'legacy', valence: 0.6 });
+
+    expect(result.current.timeline.map(({ count, valence }) => ({ count, valence }))).toEqual([
+      { count: 1, valence: -0.6 },
+      { count: 2, valence: 0.05 },
+      { count: 1, valence: 0.6 }
+    ]);
+    expect(result.current.timeline[1].readings.map(reading => reading.conversationId)).toEqual(['mixed', 'mixed']);
+
+    rerender({ granularity: 'week' });
+
+    // Weeks start on Monday: the Sunday closes one week, Wednesday and Thursday share the next
+    expect(result.current.timeline.map(point => point.count)).toEqual([1, 3]);
+    expect(result.current.timeline[1].start.getDay()).toBe(1);
+  });
+
+  it('correlates emotions with memory tags and surfaces recurring patterns', async () => {
+    const sunday = lastSunday();
+    for (const week of [0, 1, 2]) {
+      const id = `sunday-${week}`;
+      addConversation(id, [{ content: 'Work tomorrow again', at: at(sunday, -7 * week, 20), emotion: emotion('anxious', -0.6, 0.8) }]);
+      addMemory(id, ['work'], 'career');
+    }
+    addConversation('walk', [{ content: 'Lovely walk in the park', at: at(sunday, 3, 9), emotion: emotion('calm', 0.4, 0.1) }]);
+    addConversation('dinner', [{ content: 'Dinner with friends was great', at: at(sunday, -4, 19), emotion: emotion('happy', 0.8, 0.6) }]);
+    addMemory('dinner', ['friends']);
+    addConversation('errand', [{ content: 'Need to renew my passport', at: at(sunday, -11, 11), emotion: emotion('neutral', 0, 0.3) }]);
+
+    const { result } = renderHook(() => useZoxaaInsights(30));
+
+    await waitFor(() => expect(result.current.isLoading).toBe(false));
+
+    expect(result.current.topics).toEqual([
+      expect.objectContaining({ topic: 'career', count: 3, valence: -0.6, dominant: 'anxious' }),
+      expect.objectContaining({ topic: 'work', count: 3, valence: -0.6, dominant: 'anxious' })
+    ]);
+
+    expect(result.current.patterns).toEqual([
+      expect.objectContaining({
+        emotion: 'anxious',
+        text: 'You tend to feel anxious on Sunday evenings, often about work.',
+        share: 1
+      })
+    ]);
+    expect(result.current.patterns[0].readings.map(reading => reading.conversationId).sort())
+      .toEqual(['sunday-0', 'sunday-1', 'sunday-2']);
+  });
+});
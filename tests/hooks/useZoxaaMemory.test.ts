@@ -0,0 +1,81 @@
+// @vitest-environment jsdom
+import { act, renderHook } from '@testing-library/react';
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { startBrowserStack } from '../support/browser';
+
+describe('useZoxaaMemory', () => {
+  let stack: Awaited<ReturnType<typeof startBrowserStack>>;
+  let useZoxaaMemory: typeof import('@/hooks/useZoxaaMemory').default;
+  let userId: string;
+
+  const conversation = [
+    { role: 'user' as const, content: 'My sister Maya is getting married in June' },
+    { role: 'assistant' as const, content: 'That is wonderful news!' }
+  ];
+
+  beforeAll(async () => {
+    stack = await startBrowserStack();
+    ({ default: useZoxaaMemory } = await import('@/hooks/useZoxaaMemory'));
+  });
+
+  afterAll(async () => {
+    await stack.close();
+  });
+
+  afterEach(async () => {
+    await stack.settle();
+    localStorage.clear();
+  });
+
+  beforeEach(async () => {
+    stack.fakes.reset();
+    ({ user: { id: userId } } = await stack.signInAs('memory@example.com'));
+  });
+
+  it('stores extracted memories for the user and embeds each of them once', async () => {
+    stack.fakes.openai.enqueue('chat', {
+      json: {
+        memories: [{
+          content: "Sister Maya's wedding is in June",
+          importance: 'high',
+          tags: ['family', 'event'],
+          category: 'relationship',
+          entities: []
+        }]
+      }
+    });
+    const { result } = renderHook(() => useZoxaaMemory());
+
+    let extracted: Awaited<ReturnType<typeof result.current.processConversationForMemories>> = [];
+    await act(async () => {
+      extracted = await result.current.processConversationForMemories(conversation, 'Family news', 'conversation-1');
+    });
+
+    const [stored] = stack.fakes.supabase.table('memories');
+    expect(stored).toMatchObject({ user_id: userId, conversation_id: 'conversation-1', content: "Sister Maya's wedding is in June", importance: 'high' });
+
+    expect(extracted).toEqual([
+      expect.objectContaining({ id: stored.id, content: "Sister Maya's wedding is in June", context: 'Family news', tags: ['family', 'event'] })
+    ]);
+    expect(extracted[0].embedding).toHaveLength(1536);
+    expect(result.current.memories).toHaveLength(1);
+
+    expect(stack.fakes.openai.requestsTo('chat')[0].body.model).toBe('gpt-4o-mini');
+    // The embedding stored on the server is the one handed back
+    expect(stack.fakes.openai.requestsTo('embeddings').map(request => request.body.input)).toEqual(["Sister Maya's wedding is in June"]);
+  });
+
+  it('keeps nothing when extraction fails', async () => {
+    stack.fakes.openai.enqueue('chat', { status: 500, message: 'Model unavailable' });
+    const { result } = renderHook(() => useZoxaaMemory());
+
+    let extracted: unknown[] = ['unchanged'];
+    await act(async () => {
+      extracted = await result.current.processConversationForMemories(conversation, 'Family news');
+    });
+
+    expect(extracted).toEqual([]);
+    expect(result.current.memories).toEqual([]);
+    expect(stack.fakes.supabase.table('memories')).toEqual([]);
+  });
+});
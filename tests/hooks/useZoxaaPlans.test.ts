@@ -0,0 +1,90 @@
+// @vitest-environment jsdom
+import { act, renderHook } from '@testing-library/react';
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { startBrowserStack } from '../support/browser';
+
+describe('useZoxaaPlans', () => {
+  let stack: Awaited<ReturnType<typeof startBrowserStack>>;
+  let useZoxaaPlans: typeof import('@/hooks/useZoxaaPlans').default;
+
+  beforeAll(async () => {
+    stack = await startBrowserStack();
+    ({ default: useZoxaaPlans } = await import('@/hooks/useZoxaaPlans'));
+  });
+
+  afterAll(async () => {
+    await stack.close();
+  });
+
+  afterEach(async () => {
+    await stack.settle();
+    localStorage.clear();
+  });
+
+  beforeEach(async () => {
+    stack.fakes.reset();
+    await stack.signInAs('plans@example.com');
+  });
+
+  it('creates a plan from the generated steps', async () => {
+    stack.fakes.openai.enqueue('chat', {
+      json: {
+        steps: [
+          { title: 'Pick a race', description: 'Choose a spring half marathon', priority: 'high' },
+          { title: 'Build a base', description: 'Run three easy miles, four times a week', priority: 'medium' },
+          { title: '', description: 'Dropped because it has no title', priority: 'low' }
+        ]
+      }
+    });
+    const { result } = renderHook(() => useZoxaaPlans());
+
+    await act(async () => {
+      await result.current.createPlan('Run a half marathon', 'Finish in under two hours', ['Stay injury free'], 'health');
+    });
+
+    const [plan] = result.current.plans;
+    expect(plan).toMatchObject({ title: 'Run a half marathon', status: 'active', category: 'health', completionPercentage: 0 });
+    expect(plan.steps.map(({ title, priority, completed }) => ({ title, priority, completed }))).toEqual([
+      { title: 'Pick a race', priority: 'high', completed: false },
+      { title: 'Build a base', priority: 'medium', completed: false }
+    ]);
+
+    const [request] = stack.fakes.openai.requestsTo('chat');
+    expect(request.body.model).toBe('gpt-4o-mini');
+    expect(request.body.response_format.type).toBe('json_schema');
+    expect(JSON.stringify(request.body.messages)).toContain('Run a half marathon');
+  });
+
+  it('tracks completion as steps are ticked off', async () => {
+    stack.fakes.openai.enqueue('chat', {
+      json: {
+        steps: [
+          { title: 'One', description: 'First', priority: 'low' },
+          { title: 'Two', description: 'Second', priority: 'low' }
+        ]
+      }
+    });
+    const { result } = renderHook(() => useZoxaaPlans());
+
+    await act(async () => {
+      await result.current.createPlan('Two steps', '', []);
+    });
+    const [plan] = result.current.plans;
+    act(() => {
+      result.current.updateStep(plan.id, plan.steps[0].id, { completed: true });
+    });
+
+    expect(result.current.plans[0].completionPercentage).toBe(50);
+  });
+
+  it('still creates the plan when step generation fails', async () => {
+    stack.fakes.openai.enqueue('chat', { status: 500, message: 'Model unavailable' });
+    const { result } = renderHook(() => useZoxaaPlans());
+
+    await act(async () => {
+      await result.current.createPlan('Learn Spanish', '', []);
+    });
+
+    expect(result.current.plans[0]).toMatchObject({ title: 'Learn Spanish', steps: [] });
+  });
+});
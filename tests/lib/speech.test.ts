@@ -0,0 +1,120 @@
+import { describe, expect, it } from 'vitest';
+import { averagePlaybackRate, cleanForSpeech, createSentenceChunker } from '@/lib/speech';
+
+// Feeds text in small pieces, the way the chat stream delivers it
+const pushInPieces = (chunker: ReturnType<typeof createSentenceChunker>, text: string, size = 7) => {
+  const chunks: string[] = [];
+  for (let i = 0; i < text.length; i += size) {
+    chunks.push(...chunker.push(text.slice(i, i + size)));
+  }
+  return chunks;
+};
+
+const sentence = (words: number) => `${Array.from({ length: words }, (_, i) => `word${i}`).join(' ')}.`;
+
+describe('createSentenceChunker', () => {
+  it('sends the first sentence on its own once it reaches the minimum length', () => {
+    const chunker = createSentenceChunker();
+
+    // Too short to go out alone
+    expect(chunker.push('Hi. ')).toEqual([]);
+    expect(chunker.push('That sounds really hard. ')).toEqual(['Hi. That sounds really hard.']);
+  });
+
+  it('groups later sentences until they reach the target length', () => {
+    const chunker = createSentenceChunker();
+    expect(chunker.push('That sounds really hard to deal with. ')).toHaveLength(1);
+
+    // 8 words of 5 to 6 characters come to about 50 characters a sentence
+    const later = Array.from({ length: 6 }, () => sentence(8)).join(' ');
+    const chunks = pushInPieces(chunker, `${later} `);
+
+    expect(chunks).toHaveLength(1);
+    expect(chunks[0].length).toBeGreaterThanOrEqual(250);
+    expect(chunks[0].length).toBeLessThanOrEqual(600);
+    expect(chunks[0]).toBe(later.slice(0, chunks[0].length));
+  });
+
+  it('cuts text longer than the maximum at a word break', () => {
+    const chunker = createSentenceChunker();
+    const runOn = Array.from({ length: 200 }, (_, i) => `word${i}`).join(' ');
+
+    const chunks = [...pushInPieces(chunker, runOn), ...chunker.flush()];
+
+    expect(chunks.length).toBeGreaterThan(1);
+    chunks.forEach(chunk => {
+      expect(chunk.length).toBeLessThanOrEqual(600);
+      expect(chunk).toMatch(/^word\d+( word\d+)*$/);
+    });
+    expect(chunks.join(' ')).toBe(runOn);
+  });
+
+  it('prefers a clause break when cutting an over-long sentence', () => {
+    const chunker = createSentenceChunker();
+    // About 200 characters, so the three clauses just go over the maximum
+    const clause = Array.from({ length: 30 }, (_, i) => `word${i}`).join(' ');
+
+    const chunks = [...chunker.push(`${clause}, ${clause}, ${clause}. `), ...chunker.flush()];
+
+    expect(chunks).toEqual([`${clause}, ${clause},`, `${clause}.`]);
+  });
+
+  it('does not end a sentence at an abbreviation or a decimal point', () => {
+    const chunker = createSentenceChunker();
+
+    expect(pushInPieces(chunker, 'Dr. Smith said e.g. a dose of 3.5 mg, vs. the usual 2.25 mg. ', 3)).toEqual([
+      'Dr. Smith said e.g. a dose of 3.5 mg, vs. the usual 2.25 mg.'
+    ]);
+  });
+
+  it('ends a sentence at a line break and after closing quotes and citations', () => {
+    const chunker = createSentenceChunker();
+
+    expect(chunker.push('She said "sleep is the best medicine."[1] ')).toEqual(['She said "sleep is the best medicine."[1]']);
+    expect(chunker.push('Here is a plan for you\n')).toEqual([]);
+    expect(chunker.flush()).toEqual(['Here is a plan for you']);
+  });
+
+  it('flushes whatever is left once the reply ends', () => {
+    const chunker = createSentenceChunker();
+    expect(chunker.push('That sounds really hard to deal with. ')).toHaveLength(1);
+
+    expect(pushInPieces(chunker, 'Try to rest. And then, if you want')).toEqual([]);
+    expect(chunker.flush()).toEqual(['Try to rest. And then, if you want']);
+    expect(chunker.flush()).toEqual([]);
+  });
+
+  it('sends a short reply on flush even below the minimum', () => {
+    const chunker = createSentenceChunker();
+
+    expect(chunker.push('Okay!')).toEqual([]);
+    expect(chunker.flush()).toEqual(['Okay!']);
+  });
+});
+
+describe('cleanForSpeech', () => {
+  it('strips markdown the chat renders', () => {
+    expect(cleanForSpeech('## Plan\n- **Rest** for _ten_ minutes\n1. Drink `water`\n> Be kind')).toBe(
+      'Plan Rest for ten minutes Drink water Be kind'
+    );
+  });
+
+  it('reads links by their text and drops citations and code blocks', () => {
+    expect(cleanForSpeech('See [the guide](https://example.com/guide) [2] for more.\n```js\nconsole.log(1)\n```\nDone.')).toBe(
+      'See the guide for more. Done.'
+    );
+  });
+});
+
+describe('averagePlaybackRate', () => {
+  it('weights each point by the time the ramps spend near it', () => {
+    // The middle point is shared by both ramps, so it counts twice as much as the ends
+    expect(averagePlaybackRate([1.03, 1.06, 1.03])).toBeCloseTo(1.045, 6);
+    expect(averagePlaybackRate([1, 1.2])).toBeCloseTo(1.1, 6);
+  });
+
+  it('uses a single point as is and plays an empty curve at normal speed', () => {
+    expect(averagePlaybackRate([0.9])).toBe(0.9);
+    expect(averagePlaybackRate([])).toBe(1);
+  });
+});
@@ -0,0 +1,238 @@
+// Local fake of the OpenAI HTTP API: chat completions (streaming and not),
+// embeddings, moderations, speech and transcriptions. Responses come from a per-endpoint
+// script queue, falling back to the same deterministic output as
+// LLM_PROVIDER=mock. Every request is recorded for assertions.
+//
+// Run it on its own with `npm run mock:openai`, then point the backend at it
+// with OPENAI_BASE_URL=http://localhost:4010/v1.
+import http from 'node:http';
+import { fileURLToPath } from 'node:url';
+import { buildReply, buildUsage, mockEmbedding, streamReply } from '../../backend/lib/mockLLM.js';
+
+const ENDPOINTS = {
+  '/v1/chat/completions': 'chat',
+  '/v1/embeddings': 'embeddings',
+  '/v1/moderations': 'moderations',
+  '/v1/audio/speech': 'speech',
+  '/v1/audio/transcriptions': 'transcriptions'
+};
+
+// A few bytes that start like an MP3 file; enough for size and base64 checks
+export const MOCK_AUDIO = Buffer.from('ID3mock-audio');
+
+function readBody(req) {
+  return new Promise((resolve, reject) => {
+    const chunks = [];
+    req.on('data', chunk => chunks.push(chunk));
+    req.on('end', () => resolve(Buffer.concat(chunks)));
+    req.on('error', reject);
+  });
+}
+
+// Text fields of a multipart/form-data body (file parts are skipped)
+function parseMultipartFields(raw) {
+  const fields = {};
+  const pattern = /name="([^"]+)"\r\n\r\n([^\r]*)\r\n/g;
+  let match;
+  while ((match = pattern.exec(raw.toString('latin1'))) !== null) {
+    fields[match[1]] = match[2];
+  }
+  return fields;
+}
+
+function parseBody(req, raw) {
+  const contentType = req.headers['content-type'] || '';
+  if (contentType.includes('application/json')) return JSON.parse(raw.toString() || '{}');
+  if (contentType.includes('multipart/form-data')) return parseMultipartFields(raw);
+  return {};
+}
+
+function sendJson(res, status, body) {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+// Scripted failures are final: x-should-retry stops the SDK from retrying
+function sendError(res, { status, message = 'Mock error', type = 'mock_error', code = null }) {
+  res.writeHead(status, { 'Content-Type': 'application/json', 'x-should-retry': 'false' });
+  res.end(JSON.stringify({ error: { message, type, code } }));
+}
+
+// Scripted { toolCalls: [{ name, arguments }] } in the SDK's tool_calls shape
+const buildToolCalls = toolCalls => toolCalls.map((call, index) => ({
+  id: `call_mock_${index + 1}`,
+  type: 'function',
+  function: { name: call.name, arguments: JSON.stringify(call.arguments || {}) }
+}));
+
+// Streams each call the way OpenAI does: id and name first, then the
+// arguments split across fragments
+async function* streamToolCalls(body, toolCalls, usage) {
+  const created = Math.floor(Date.now() / 1000);
+  const chunk = (choices, extra = {}) => ({ id: 'chatcmpl-mock', object: 'chat.completion.chunk', created, model: body.model, choices, ...extra });
+  const delta = fragment => chunk([{ index: 0, delta: { tool_calls: [fragment] }, finish_reason: null }]);
+
+  for (const [index, call] of toolCalls.entries()) {
+    yield delta({ index, id: call.id, type: 'function', function: { name: call.function.name, arguments: '' } });
+    const half = Math.ceil(call.function.arguments.length / 2);
+    yield delta({ index, function: { arguments: call.function.arguments.slice(0, half) } });
+    yield delta({ index, function: { arguments: call.function.arguments.slice(half) } });
+  }
+  yield chunk([{ index: 0, delta: {}, finish_reason: 'tool_calls' }]);
+
+  if (body.stream_options?.include_usage) {
+    yield chunk([], { usage });
+  }
+}
+
+async function sendChat(res, body, scripted = {}) {
+  if (scripted.toolCalls) return sendToolCalls(res, body, scripted);
+
+  const reply = scripted.json !== undefined
+    ? JSON.stringify(scripted.json)
+    : scripted.content ?? buildReply(body);
+  const usage = scripted.usage || buildUsage(body, reply);
+  const model = scripted.model || body.model;
+
+  if (!body.stream) {
+    return sendJson(res, 200, {
+      id: 'chatcmpl-mock',
+      object: 'chat.completion',
+      created: Math.floor(Date.now() / 1000),
+      model,
+      choices: [{ index: 0, message: { role: 'assistant', content: reply }, finish_reason: 'stop' }],
+      usage
+    });
+  }
+
+  res.writeHead(200, { 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache' });
+  for await (const chunk of streamReply({ ...body, model }, reply, null, usage)) {
+    // A scripted { delay } slows the stream down so tests can stop it midway
+    if (scripted.delay) await new Promise(resolve => setTimeout(resolve, scripted.delay));
+    if (res.destroyed) return;
+    res.write(`data: ${JSON.stringify(chunk)}\n\n`);
+  }
+  res.end('data: [DONE]\n\n');
+}
+
+async function sendToolCalls(res, body, scripted) {
+  const toolCalls = buildToolCalls(scripted.toolCalls);
+  const usage = scripted.usage || buildUsage(body, JSON.stringify(toolCalls));
+
+  if (!body.stream) {
+    return sendJson(res, 200, {
+      id: 'chatcmpl-mock',
+      object: 'chat.completion',
+      created: Math.floor(Date.now() / 1000),
+      model: body.model,
+      choices: [{ index: 0, message: { role: 'assistant', content: null, tool_calls: toolCalls }, finish_reason: 'tool_calls' }],
+      usage
+    });
+  }
+
+  res.writeHead(200, { 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache' });
+  for await (const chunk of streamToolCalls(body, toolCalls, usage)) {
+    res.write(`data: ${JSON.stringify(chunk)}\n\n`);
+  }
+  res.end('data: [DONE]\n\n');
+}
+
+// The SDK asks for base64 by default and decodes it back to float32 values
+const encodeEmbedding = (values, format) =>
+  format === 'base64' ? Buffer.from(new Float32Array(values).buffer).toString('base64') : values;
+
+function sendEmbeddings(res, body, scripted = {}) {
+  const inputs = Array.isArray(body.input) ? body.input : [body.input];
+  sendJson(res, 200, {
+    object: 'list',
+    model: body.model,
+    data: inputs.map((text, index) => ({
+      object: 'embedding',
+      index,
+      embedding: encodeEmbedding(scripted.embedding || mockEmbedding(String(text)), body.encoding_format)
+    })),
+    usage: { prompt_tokens: 0, total_tokens: 0 }
+  });
+}
+
+// Nothing is flagged unless a test scripts { categories: { 'self-harm/intent': true } }
+function sendModeration(res, body, scripted = {}) {
+  const categories = scripted.categories || {};
+  sendJson(res, 200, {
+    id: 'modr-mock',
+    model: body.model,
+    results: [{
+      flagged: Object.values(categories).some(Boolean),
+      categories,
+      category_scores: Object.fromEntries(Object.entries(categories).map(([name, flagged]) => [name, flagged ? 0.9 : 0.01]))
+    }]
+  });
+}
+
+export async function startMockOpenAI({ port = 0 } = {}) {
+  const queues = { chat: [], embeddings: [], moderations: [], speech: [], transcriptions: [] };
+  const requests = [];
+
+  const server = http.createServer(async (req, res) => {
+    const path = new URL(req.url, 'http://localhost').pathname;
+    const endpoint = ENDPOINTS[path];
+    if (req.method !== 'POST' || !endpoint) {
+      return sendError(res, { status: 404, message: `No mock for ${req.method} ${path}` });
+    }
+
+    try {
+      const raw = await readBody(req);
+      const body = parseBody(req, raw);
+      requests.push({ endpoint, path, headers: req.headers, body, size: raw.length });
+
+      const scripted = queues[endpoint].shift();
+      if (scripted?.status) return sendError(res, scripted);
+
+      switch (endpoint) {
+        case 'chat':
+          return await sendChat(res, body, scripted);
+        case 'embeddings':
+          return sendEmbeddings(res, body, scripted);
+        case 'moderations':
+          return sendModeration(res, body, scripted);
+        case 'speech':
+          res.writeHead(200, { 'Content-Type': 'audio/mpeg' });
+          return res.end(scripted?.audio || MOCK_AUDIO);
+        case 'transcriptions':
+          return sendJson(res, 200, { text: scripted?.text ?? 'This is a mock transcription.' });
+      }
+    } catch (error) {
+      sendError(res, { status: 500, message: error.message });
+    }
+  });
+
+  await new Promise(resolve => server.listen(port, '127.0.0.1', resolve));
+  const url = `http://127.0.0.1:${server.address().port}/v1`;
+
+  return {
+    url,
+    requests,
+    // Queue responses for the next calls to an endpoint, in order. Entries are
+    // { content }, { json }, { toolCalls }, { usage }, { embedding }, { delay },
+    // { categories }, { audio }, { text }, or { status, message } to fail the call
+    enqueue(endpoint, ...responses) {
+      queues[endpoint].push(...responses);
+    },
+    requestsTo(endpoint) {
+      return requests.filter(request => request.endpoint === endpoint);
+    },
+    reset() {
+      Object.values(queues).forEach(queue => queue.splice(0));
+      requests.splice(0);
+    },
+    close() {
+      server.closeAllConnections();
+      return new Promise(resolve => server.close(resolve));
+    }
+  };
+}
+
+if (process.argv[1] === fileURLToPath(import.meta.url)) {
+  const mock = await startMockOpenAI({ port: Number(process.env.MOCK_OPENAI_PORT) || 4010 });
+  console.log(`Mock OpenAI API listening at ${mock.url}`);
+}
@@ -0,0 +1,347 @@
+// Local stand-in for the parts of Supabase the app uses: GoTrue sessions
+// (/auth/v1) and PostgREST tables and RPCs (/rest/v1) over in-memory rows.
+// Rows with a user_id are only visible to that user, which is close enough
+// to the row level security policies in supabase/migrations for tests.
+import http from 'node:http';
+import { randomUUID } from 'node:crypto';
+
+const base64url = value => Buffer.from(JSON.stringify(value)).toString('base64url');
+
+// supabase-js only decodes the payload (for `exp`), it never checks the signature
+function createAccessToken(user) {
+  const now = Math.floor(Date.now() / 1000);
+  return [
+    base64url({ alg: 'HS256', typ: 'JWT' }),
+    base64url({ sub: user.id, email: user.email, role: 'authenticated', aud: 'authenticated', iat: now, exp: now + 3600 }),
+    'mock-signature'
+  ].join('.');
+}
+
+function readJson(req) {
+  return new Promise((resolve, reject) => {
+    let raw = '';
+    req.on('data', chunk => { raw += chunk; });
+    req.on('end', () => {
+      try {
+        resolve(raw ? JSON.parse(raw) : null);
+      } catch (error) {
+        reject(error);
+      }
+    });
+    req.on('error', reject);
+  });
+}
+
+function sendJson(res, status, body, headers = {}) {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(body === undefined ? '' : JSON.stringify(body));
+}
+
+function parseValue(value) {
+  if (value === 'null') return null;
+  if (value === 'true') return true;
+  if (value === 'false') return false;
+  return value;
+}
+
+const compare = (a, b) => (a > b) - (a < b);
+
+// PostgREST filters in the query string, e.g. status=eq.active or id=in.(1,2)
+function buildFilters(params) {
+  const filters = [];
+  for (const [column, expression] of params) {
+    if (['select', 'order', 'limit', 'offset', 'on_conflict', 'columns'].includes(column)) continue;
+
+    const [operator, ...rest] = expression.split('.');
+    const raw = rest.join('.');
+    const value = parseValue(raw);
+
+    filters.push(row => {
+      const cell = row[column];
+      switch (operator) {
+        case 'eq': return String(cell) === String(value);
+        case 'neq': return String(cell) !== String(value);
+        case 'is': return value === null ? cell === null || cell === undefined : cell === value;
+        case 'gt': return compare(cell, value) > 0;
+        case 'gte': return compare(cell, value) >= 0;
+        case 'lt': return compare(cell, value) < 0;
+        case 'lte': return compare(cell, value) <= 0;
+        case 'in': return raw.replace(/^\(|\)$/g, '').split(',').map(v => v.replace(/^"|"$/g, '')).includes(String(cell));
+        default: return true;
+      }
+    });
+  }
+  return row => filters.every(filter => filter(row));
+}
+
+function applyOrderAndLimit(rows, params) {
+  let result = [...rows];
+  const order = params.get('order');
+  if (order) {
+    const [column, direction] = order.split(',')[0].split('.');
+    result.sort((a, b) => compare(a[column], b[column]) * (direction === 'desc' ? -1 : 1));
+  }
+  const offset = Number(params.get('offset')) || 0;
+  const limit = params.has('limit') ? Number(params.get('limit')) : undefined;
+  return result.slice(offset, limit === undefined ? undefined : offset + limit);
+}
+
+function monthBounds(now = new Date()) {
+  const start = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+  const end = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1));
+  return { start, end };
+}
+
+// In-memory versions of the SQL functions in supabase/migrations
+function defaultRpcs() {
+  return {
+    match_memories: () => [],
+    mark_memories_accessed: () => null,
+    is_memory_suppressed: () => false,
+    consume_usage: ({ usage_kind, requests_per_minute, monthly_tokens, monthly_characters, usage_characters = 0 }, { user, table }) => {
+      const { start, end } = monthBounds();
+      const now = Date.now();
+      const events = table('usage_events').filter(event => event.user_id === user.id);
+      const lastMinute = events
+        .filter(event => event.kind === usage_kind && new Date(event.created_at).getTime() > now - 60 * 1000)
+        .map(event => new Date(event.created_at).getTime());
+      const thisMonth = events.filter(event => new Date(event.created_at) >= start);
+      const tokensUsed = thisMonth.reduce((sum, event) => sum + event.tokens, 0);
+      const charactersUsed = thisMonth.filter(event => event.kind === 'tts').reduce((sum, event) => sum + event.characters, 0);
+      const characters = Math.max(usage_characters, 0);
+      const refuse = (exceeded, until) => [{
+        allowed: false,
+        event_id: null,
+        exceeded,
+        retry_after: Math.max(1, Math.ceil((until - now) / 1000)),
+        characters_this_month: charactersUsed
+      }];
+
+      if (lastMinute.length >= requests_per_minute) return refuse('rate', Math.min(...lastMinute) + 60 * 1000);
+      if (usage_kind === 'chat' && tokensUsed >= monthly_tokens) return refuse('tokens', end.getTime());
+      if (usage_kind === 'tts' && charactersUsed + characters > monthly_characters) return refuse('characters', end.getTime());
+
+      const row = {
+        id: randomUUID(),
+        user_id: user.id,
+        kind: usage_kind,
+        tokens: 0,
+        characters,
+        created_at: new Date(now).toISOString()
+      };
+      table('usage_events').push(row);
+      return [{ allowed: true, event_id: row.id, exceeded: null, retry_after: null, characters_this_month: charactersUsed + characters }];
+    },
+    add_usage_tokens: ({ event_id, usage_tokens }, { user, table }) => {
+      const row = table('usage_events').find(event => event.id === event_id && event.user_id === user.id);
+      if (row) row.tokens += Math.max(usage_tokens, 0);
+      return null;
+    },
+    get_usage_summary: (args, { user, table }) => {
+      const { start, end } = monthBounds();
+      const minuteAgo = Date.now() - 60 * 1000;
+      const events = table('usage_events').filter(event => event.user_id === user.id);
+      const thisMonth = events.filter(event => new Date(event.created_at) >= start);
+      const lastMinute = kind => events
+        .filter(event => event.kind === kind && new Date(event.created_at).getTime() > minuteAgo)
+        .map(event => event.created_at)
+        .sort();
+
+      return [{
+        chat_requests_last_minute: lastMinute('chat').length,
+        chat_window_started_at: lastMinute('chat')[0] || null,
+        tts_requests_last_minute: lastMinute('tts').length,
+        tts_window_started_at: lastMinute('tts')[0] || null,
+        tokens_this_month: thisMonth.reduce((sum, event) => sum + event.tokens, 0),
+        tts_characters_this_month: thisMonth.filter(event => event.kind === 'tts').reduce((sum, event) => sum + event.characters, 0),
+        period_start: start.toISOString(),
+        period_end: end.toISOString()
+      }];
+    }
+  };
+}
+
+export async function startMockSupabase({ port = 0 } = {}) {
+  const tables = {};
+  const users = [];
+  const sessions = new Map();
+  const requests = [];
+  const rpcs = defaultRpcs();
+
+  const table = name => (tables[name] = tables[name] || []);
+
+  const userFor = req => {
+    const token = (req.headers.authorization || '').replace(/^Bearer /i, '');
+    return sessions.get(token) || null;
+  };
+
+  // Rows a request may see: those it owns, plus rows without an owner
+  const visibleRows = (name, user) =>
+    table(name).filter(row => !('user_id' in row) || (user && row.user_id === user.id));
+
+  const createSession = user => {
+    const session = {
+      access_token: createAccessToken(user),
+      refresh_token: randomUUID(),
+      token_type: 'bearer',
+      expires_in: 3600,
+      expires_at: Math.floor(Date.now() / 1000) + 3600,
+      user
+    };
+    sessions.set(session.access_token, user);
+    sessions.set(`refresh:${session.refresh_token}`, user);
+    return session;
+  };
+
+  async function handleAuth(req, res, path, params) {
+    if (req.method === 'GET' && path === '/auth/v1/user') {
+      const user = userFor(req);
+      return user
+        ? sendJson(res, 200, user)
+        : sendJson(res, 401, { code: 401, error_code: 'bad_jwt', msg: 'invalid JWT' });
+    }
+
+    if (req.method === 'POST' && path === '/auth/v1/token') {
+      const body = await readJson(req);
+      const user = params.get('grant_type') === 'refresh_token'
+        ? sessions.get(`refresh:${body?.refresh_token}`)
+        : users.find(candidate => candidate.email === body?.email);
+      return user
+        ? sendJson(res, 200, createSession(user))
+        : sendJson(res, 400, { code: 400, error_code: 'invalid_credentials', msg: 'Invalid login credentials' });
+    }
+
+    if (req.method === 'POST' && path === '/auth/v1/logout') {
+      sessions.delete((req.headers.authorization || '').replace(/^Bearer /i, ''));
+      return sendJson(res, 204);
+    }
+
+    sendJson(res, 404, { code: 404, msg: `No mock for ${req.method} ${path}` });
+  }
+
+  async function handleRpc(req, res, name, record) {
+    const rpc = rpcs[name];
+    if (!rpc) {
+      return sendJson(res, 404, { code: 'PGRST202', message: `Could not find the function public.${name}`, details: null, hint: null });
+    }
+    const user = userFor(req);
+    if (!user) return sendJson(res, 401, { code: '42501', message: 'permission denied', details: null, hint: null });
+
+    const args = (await readJson(req)) || {};
+    record.body = args;
+    sendJson(res, 200, await rpc(args, { user, table, tables }));
+  }
+
+  async function handleTable(req, res, name, params, record) {
+    const user = userFor(req);
+    const prefer = req.headers.prefer || '';
+    const wantsObject = (req.headers.accept || '').includes('application/vnd.pgrst.object+json');
+    const returnRows = prefer.includes('return=representation');
+    const matches = buildFilters(params);
+
+    const respond = (rows, status = 200) => {
+      const headers = prefer.includes('count=exact') ? { 'Content-Range': `0-${Math.max(rows.length - 1, 0)}/${rows.length}` } : {};
+      if (req.method === 'HEAD') return sendJson(res, status, undefined, headers);
+      if (wantsObject) {
+        return rows.length === 1
+          ? sendJson(res, status, rows[0], headers)
+          : sendJson(res, 406, { code: 'PGRST116', message: 'JSON object requested, multiple (or no) rows returned', details: `The result contains ${rows.length} rows`, hint: null });
+      }
+      sendJson(res, status, rows, headers);
+    };
+
+    if (req.method === 'GET' || req.method === 'HEAD') {
+      return respond(applyOrderAndLimit(visibleRows(name, user).filter(matches), params));
+    }
+
+    if (req.method === 'POST') {
+      const body = await readJson(req);
+      record.body = body;
+      const now = new Date().toISOString();
+      const conflictColumns = (params.get('on_conflict') || 'id').split(',');
+      const upsert = prefer.includes('resolution=');
+
+      const written = (Array.isArray(body) ? body : [body]).map(values => {
+        const existing = upsert && table(name).find(row =>
+          conflictColumns.every(column => values[column] !== undefined && row[column] === values[column])
+        );
+        if (existing) {
+          if (!prefer.includes('resolution=ignore-duplicates')) Object.assign(existing, values);
+          return existing;
+        }
+        const row = { id: randomUUID(), created_at: now, updated_at: now, ...values };
+        table(name).push(row);
+        return row;
+      });
+      return returnRows ? respond(written, 201) : sendJson(res, 201);
+    }
+
+    if (req.method === 'PATCH') {
+      const body = await readJson(req);
+      record.body = body;
+      const updated = visibleRows(name, user).filter(matches);
+      updated.forEach(row => Object.assign(row, body));
+      return returnRows ? respond(updated) : sendJson(res, 204);
+    }
+
+    if (req.method === 'DELETE') {
+      const removed = visibleRows(name, user).filter(matches);
+      tables[name] = table(name).filter(row => !removed.includes(row));
+      return returnRows ? respond(removed) : sendJson(res, 204);
+    }
+
+    sendJson(res, 405, { message: 'Method not allowed' });
+  }
+
+  const server = http.createServer(async (req, res) => {
+    const { pathname: path, searchParams: params } = new URL(req.url, 'http://localhost');
+    const record = { method: req.method, path, query: Object.fromEntries(params), user: userFor(req) };
+    requests.push(record);
+
+    try {
+      if (path.startsWith('/auth/v1/')) return await handleAuth(req, res, path, params);
+      if (path.startsWith('/rest/v1/rpc/')) return await handleRpc(req, res, path.slice('/rest/v1/rpc/'.length), record);
+      if (path.startsWith('/rest/v1/')) return await handleTable(req, res, path.slice('/rest/v1/'.length), params, record);
+      sendJson(res, 404, { message: `No mock for ${path}` });
+    } catch (error) {
+      sendJson(res, 500, { message: error.message });
+    }
+  });
+
+  await new Promise(resolve => server.listen(port, '127.0.0.1', resolve));
+
+  return {
+    url: `http://127.0.0.1:${server.address().port}`,
+    anonKey: 'mock-anon-key',
+    tables,
+    rpcs,
+    requests,
+    table,
+    createUser({ email = `user-${users.length + 1}@example.com` } = {}) {
+      const user = {
+        id: randomUUID(),
+        aud: 'authenticated',
+        role: 'authenticated',
+        email,
+        app_metadata: { provider: 'email' },
+        user_metadata: {},
+        created_at: new Date().toISOString()
+      };
+      users.push(user);
+      return user;
+    },
+    createSession,
+    rpcCalls(name) {
+      return requests.filter(request => request.path === `/rest/v1/rpc/${name}`);
+    },
+    reset() {
+      Object.keys(tables).forEach(name => delete tables[name]);
+      Object.assign(rpcs, defaultRpcs());
+      requests.splice(0);
+    },
+    close() {
+      server.closeAllConnections();
+      return new Promise(resolve => server.close(resolve));
+    }
+  };
+}
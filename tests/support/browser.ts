@@ -0,0 +1,94 @@
+import { spawn } from 'node:child_process';
+import net from 'node:net';
+import path from 'node:path';
+import { vi } from 'vitest';
+import { signIn, startFakes } from './stack.js';
+
+function freePort(): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const server = net.createServer();
+    server.on('error', reject);
+    server.listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as net.AddressInfo;
+      server.close(() => resolve(port));
+    });
+  });
+}
+
+// The backend runs in its own Node process: under jsdom the OpenAI SDK sees a
+// `window` and refuses to start, exactly as it would in a real browser
+async function startBackend() {
+  const port = await freePort();
+  const child = spawn(process.execPath, ['--import', 'tsx', 'index.js'], {
+    cwd: path.join(import.meta.dirname, '../../backend'),
+    env: { ...process.env, PORT: String(port) },
+    stdio: ['ignore', 'pipe', 'pipe']
+  });
+
+  let output = '';
+  await new Promise<void>((resolve, reject) => {
+    const onData = (chunk: Buffer) => {
+      output += chunk;
+      if (output.includes(`running on port ${port}`)) resolve();
+    };
+    child.stdout.on('data', onData);
+    child.stderr.on('data', chunk => { output += chunk; });
+    child.on('exit', code => reject(new Error(`Backend exited with code ${code}:\n${output}`)));
+  });
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    close: () => new Promise<void>(resolve => {
+      child.once('exit', () => resolve());
+      child.kill();
+    })
+  };
+}
+
+// Runs the React hooks against the Express backend and the fakes. The
+// Supabase client reads VITE_SUPABASE_URL when it is first imported, so test
+// files import hooks dynamically after this has resolved.
+export async function startBrowserStack() {
+  const fakes = await startFakes();
+  vi.stubEnv('VITE_SUPABASE_URL', fakes.supabase.url);
+  vi.stubEnv('VITE_SUPABASE_ANON_KEY', fakes.supabase.anonKey);
+
+  const api = await startBackend();
+
+  // The hooks call relative /api URLs, which Vite proxies in development
+  const nativeFetch = globalThis.fetch;
+  vi.stubGlobal('fetch', (input: RequestInfo | URL, init?: RequestInit) =>
+    nativeFetch(typeof input === 'string' && input.startsWith('/') ? `${api.url}${input}` : input, init)
+  );
+
+  const { supabase } = await import('@/integrations/supabase/client');
+
+  return {
+    fakes,
+    supabase,
+    async signInAs(email: string) {
+      const session = signIn(fakes.supabase, email);
+      const { error } = await supabase.auth.setSession(session);
+      if (error) throw error;
+      return session;
+    },
+    // Waits for background work (such as memory extraction after a chat turn)
+    // to stop reaching the fakes, so it cannot leak into the next test
+    async settle(quietMs = 200) {
+      const activity = () => fakes.openai.requests.length + fakes.supabase.requests.length;
+      let seen = -1;
+      while (seen !== activity()) {
+        seen = activity();
+        await new Promise(resolve => setTimeout(resolve, quietMs));
+      }
+    },
+    async close() {
+      await supabase.auth.signOut();
+      supabase.auth.stopAutoRefresh();
+      vi.unstubAllGlobals();
+      vi.unstubAllEnvs();
+      await api.close();
+      await fakes.close();
+    }
+  };
+}
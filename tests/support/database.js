@@ -0,0 +1,40 @@
+// An in-process Postgres (PGlite) for testing the SQL functions in
+// supabase/migrations. Supabase's auth.uid() and the `authenticated` role are
+// stood in for, and only the tables a test needs are created before the
+// migrations under test are applied.
+import { readFile } from 'node:fs/promises';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { PGlite } from '@electric-sql/pglite';
+import { vector } from '@electric-sql/pglite-pgvector';
+
+const MIGRATIONS_DIR = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '../../supabase/migrations');
+
+const SUPABASE_STAND_INS = `
+  create schema if not exists extensions;
+  create extension if not exists vector with schema extensions;
+  create schema if not exists auth;
+  create role authenticated;
+  create function auth.uid() returns uuid language sql stable as $$
+    select nullif(current_setting('request.jwt.claim.sub', true), '')::uuid
+  $$;
+`;
+
+// `schema` creates the tables the migrations expect to exist already
+export async function startDatabase({ schema, migrations }) {
+  const db = await PGlite.create({ extensions: { vector } });
+  await db.exec(SUPABASE_STAND_INS);
+  await db.exec(schema);
+  for (const migration of migrations) {
+    await db.exec(await readFile(path.join(MIGRATIONS_DIR, migration), 'utf8'));
+  }
+
+  return {
+    db,
+    // Makes auth.uid() return this user for the following queries
+    async signInAs(userId) {
+      await db.query("select set_config('request.jwt.claim.sub', $1, false)", [userId]);
+    },
+    close: () => db.close()
+  };
+}
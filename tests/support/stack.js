@@ -0,0 +1,102 @@
+// Boots the fakes and the two API implementations (the Express backend and the
+// Vercel functions) the way they run in production, minus the network.
+import { createRequire } from 'node:module';
+import path from 'node:path';
+import { pathToFileURL } from 'node:url';
+import { startMockOpenAI } from '../mocks/openaiServer.js';
+import { startMockSupabase } from '../mocks/supabaseServer.js';
+
+// Resolves packages from backend/node_modules, where express is installed.
+// Built from a path because jsdom replaces the global URL in hook tests
+const backendRequire = createRequire(path.join(import.meta.dirname, '../../backend/index.js'));
+
+// Vercel function per route, mounted on Express with the same JSON body parsing
+const VERCEL_ROUTES = {
+  '/api/chat': 'chat.ts',
+  '/api/tts': 'tts.ts',
+  '/api/transcribe': 'transcribe.js',
+  '/api/embeddings': 'embeddings.js',
+  '/api/emotions': 'emotions.ts',
+  '/api/usage': 'usage.js',
+  '/api/safety/helplines': 'safety/helplines.ts',
+  '/api/health': 'health.ts',
+  '/api/plans/generate': 'plans/generate.js',
+  '/api/memories/extract': 'memories/extract.js',
+  '/api/memories': 'memories/index.js'
+};
+
+export async function startFakes() {
+  const openai = await startMockOpenAI();
+  const supabase = await startMockSupabase();
+
+  // The backend reads these on every request
+  Object.assign(process.env, {
+    LLM_PROVIDER: 'openai',
+    OPENAI_API_KEY: 'test-key',
+    OPENAI_BASE_URL: openai.url,
+    SUPABASE_URL: supabase.url,
+    SUPABASE_ANON_KEY: supabase.anonKey
+  });
+
+  return {
+    openai,
+    supabase,
+    reset() {
+      openai.reset();
+      supabase.reset();
+    },
+    async close() {
+      await Promise.all([openai.close(), supabase.close()]);
+    }
+  };
+}
+
+export async function createApp(flavor) {
+  if (flavor === 'express') {
+    // The app requires the TypeScript handlers in backend/core, which the
+    // backend runs through tsx
+    backendRequire('tsx/cjs/api').register();
+    return backendRequire('./index.js');
+  }
+
+  const express = backendRequire('express');
+  const app = express();
+  app.use(express.json({ limit: '5mb' }));
+  for (const [route, file] of Object.entries(VERCEL_ROUTES)) {
+    const { default: handler } = await import(pathToFileURL(path.join(import.meta.dirname, '../../api', file)).href);
+    app.all(route, handler);
+  }
+  return app;
+}
+
+export async function listen(app) {
+  const server = await new Promise(resolve => {
+    const listening = app.listen(0, '127.0.0.1', () => resolve(listening));
+  });
+
+  return {
+    url: `http://127.0.0.1:${server.address().port}`,
+    close() {
+      server.closeAllConnections();
+      return new Promise(resolve => server.close(resolve));
+    }
+  };
+}
+
+export function signIn(supabase, email) {
+  return supabase.createSession(supabase.createUser({ email }));
+}
+
+export const authHeaders = session => ({
+  'Content-Type': 'application/json',
+  Authorization: `Bearer ${session.access_token}`
+});
+
+// Splits a text/event-stream body into { event, data } pairs
+export function parseEvents(text) {
+  return text.split('\n\n').filter(Boolean).map(block => {
+    const event = block.match(/^event: (.*)$/m)?.[1] || 'message';
+    const data = block.match(/^data: (.*)$/m)?.[1];
+    return { event, data: data ? JSON.parse(data) : null };
+  });
+}
@@ -0,0 +1,25 @@
+import { defineConfig } from "vitest/config";
+import path from "path";
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      "@": path.resolve(__dirname, "./src"),
+    },
+  },
+  test: {
+    include: ["tests/**/*.test.{js,ts}"],
+    environment: "node",
+    // Each file boots its own fake OpenAI and Supabase servers
+    testTimeout: 15000,
+    // The handlers log every request; only show that output for failing tests
+    silent: "passed-only",
+    server: {
+      deps: {
+        // Load the CommonJS backend natively instead of through Vite; the
+        // TypeScript handlers in backend/core are still transformed
+        external: [/\/backend\/(?!core\/)/],
+      },
+    },
+  },
+});